@@ -5,6 +5,7 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ChatbotModule } from './chatbot/chatbot.module';
 import { GosacModule } from './gosac/gosac.module';
+import { ChannelsModule } from './channels/channels.module';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { GosacModule } from './gosac/gosac.module';
       limit: 30, // 30 requests por minuto por IP (padrão)
     }]),
     ChatbotModule,
+    ChannelsModule,
     GosacModule
   ],
   controllers: [AppController],
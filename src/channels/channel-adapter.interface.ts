@@ -0,0 +1,55 @@
+import type { ExecutionContext } from '@nestjs/common';
+import type { ChatbotResponse, InboundMedia, MessageContext } from '../chatbot/interfaces/conversation.interface';
+
+/**
+ * Mensagem recebida por um canal, já no formato do motor de conversa
+ */
+export interface InboundMessage<TRaw = unknown> {
+    /** Id da mensagem no canal, usado para descartar reentregas */
+    messageId: string;
+    /** Id do contato no canal; a conversa é guardada como `<canal>:<senderId>` */
+    senderId: string;
+    /** Para onde as respostas são enviadas (número, chat, etc.) */
+    replyTo: string;
+    text: string;
+    media?: InboundMedia;
+    context?: MessageContext;
+    /** Mensagem original, para os filtros e ações específicos do canal */
+    raw: TRaw;
+}
+
+/**
+ * Integração de um canal de mensagens com o chatbot. O pipeline comum
+ * (ChannelService) autentica o webhook, lê a mensagem, aplica os filtros do
+ * canal, processa no fluxo e devolve a resposta pelo mesmo canal.
+ */
+export interface ChannelAdapter<TRaw = unknown, TOutbound = unknown> {
+    /** Nome do canal na rota (`/channels/<canal>/webhook`) e nas chaves das conversas */
+    readonly channel: string;
+
+    /** Autentica a requisição do webhook (assinatura, token, etc.) */
+    authorize(context: ExecutionContext): boolean | Promise<boolean>;
+
+    /** Lê a mensagem do payload; retorna undefined para eventos que não são mensagens */
+    parseInbound(payload: unknown): InboundMessage<TRaw> | undefined;
+
+    /** Indica se o bot deve responder à mensagem (ex.: ignora grupos e atendentes) */
+    shouldProcess(message: InboundMessage<TRaw>): boolean;
+
+    /** Converte a resposta do chatbot nas mensagens do canal */
+    renderOutbound(response: ChatbotResponse, message: InboundMessage<TRaw>): TOutbound[];
+
+    /** Envia (ou enfileira) uma mensagem; falhas são tratadas pelo próprio canal */
+    send(outbound: TOutbound): Promise<void>;
+
+    /** Executado depois que a mensagem foi entregue ao chatbot */
+    afterProcess?(message: InboundMessage<TRaw>): Promise<void>;
+}
+
+/**
+ * Resultado do recebimento de um webhook
+ */
+export interface ChannelWebhookResult {
+    status: 'processed' | 'buffered' | 'ignored' | 'duplicate';
+    message?: string;
+}
@@ -0,0 +1,19 @@
+import { Body, Controller, HttpCode, HttpStatus, Param, Post, UseGuards } from '@nestjs/common';
+import { ChannelService } from './channel.service';
+import { ChannelWebhookGuard } from './channel-webhook.guard';
+import type { ChannelWebhookResult } from './channel-adapter.interface';
+
+@Controller('channels')
+export class ChannelWebhookController {
+    constructor(private readonly channels: ChannelService) { }
+
+    /**
+     * Recebe o webhook de qualquer canal registrado (ex.: `/channels/telegram/webhook`)
+     */
+    @Post(':channel/webhook')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(ChannelWebhookGuard)
+    handleWebhook(@Param('channel') channel: string, @Body() payload: unknown): Promise<ChannelWebhookResult> {
+        return this.channels.handleWebhook(channel, payload);
+    }
+}
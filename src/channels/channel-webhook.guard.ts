@@ -0,0 +1,41 @@
+import { CanActivate, ExecutionContext, Injectable, NotFoundException } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { ChannelService } from './channel.service';
+import type { Request } from 'express';
+
+/**
+ * Confere se o header da requisição traz o segredo do canal; sem segredo
+ * configurado a verificação sempre falha
+ */
+export function hasSecretHeader(request: Request, header: string, secret: string): boolean {
+    const provided = request.headers[header];
+
+    if (!secret || typeof provided !== 'string') {
+        return false;
+    }
+
+    const expectedBuffer = Buffer.from(secret);
+    const providedBuffer = Buffer.from(provided);
+
+    return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Autentica o webhook de `/channels/:channel/webhook` com as regras do próprio
+ * canal; canais não registrados respondem 404
+ */
+@Injectable()
+export class ChannelWebhookGuard implements CanActivate {
+    constructor(private readonly channels: ChannelService) { }
+
+    canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+        const request = context.switchToHttp().getRequest<Request>();
+        const adapter = this.channels.get(request.params.channel);
+
+        if (!adapter) {
+            throw new NotFoundException(`Canal ${request.params.channel} não encontrado`);
+        }
+
+        return adapter.authorize(context);
+    }
+}
@@ -0,0 +1,129 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ChatbotService } from '../chatbot/services/chatbot.service';
+import { MessageLedgerService } from '../chatbot/services/message-ledger.service';
+import { toConversationKey } from '../chatbot/services/conversation-state.service';
+import { ChatbotResponse } from '../chatbot/interfaces/conversation.interface';
+import { ChannelAdapter, ChannelWebhookResult, InboundMessage } from './channel-adapter.interface';
+
+/**
+ * Registro dos canais de mensagens e pipeline comum de recebimento: cada canal
+ * registra seu adaptador na inicialização, e toda mensagem segue o mesmo caminho
+ * (leitura, descarte de reentregas, filtros, fluxo e resposta pelo canal de origem)
+ */
+@Injectable()
+export class ChannelService {
+    private readonly logger = new Logger(ChannelService.name);
+    private readonly adapters = new Map<string, ChannelAdapter>();
+
+    constructor(
+        private readonly chatbotService: ChatbotService,
+        private readonly messageLedger: MessageLedgerService
+    ) { }
+
+    /**
+     * Registra o adaptador de um canal; registrar o mesmo canal novamente substitui o anterior
+     */
+    register(adapter: ChannelAdapter): void {
+        if (this.adapters.has(adapter.channel)) {
+            this.logger.warn(`Canal "${adapter.channel}" substituído`);
+        }
+
+        this.adapters.set(adapter.channel, adapter);
+        this.logger.log(`Canal registrado: ${adapter.channel}`);
+    }
+
+    /**
+     * Obtém o adaptador do canal
+     */
+    get(channel: string): ChannelAdapter | undefined {
+        return this.adapters.get(channel);
+    }
+
+    /**
+     * Lista os canais registrados
+     */
+    list(): string[] {
+        return [...this.adapters.keys()];
+    }
+
+    /**
+     * Recebe o webhook de um canal. Reentregas da mesma mensagem recebem o
+     * resultado da primeira execução. Falhas no processamento respondem 500, para
+     * que o canal reenvie a mensagem (a marcação da primeira entrega já foi removida)
+     */
+    async handleWebhook(channel: string, payload: unknown): Promise<ChannelWebhookResult> {
+        const adapter = this.adapters.get(channel);
+        if (!adapter) {
+            return { status: 'ignored', message: `Canal ${channel} não registrado` };
+        }
+
+        try {
+            const message = adapter.parseInbound(payload);
+            if (!message) {
+                return { status: 'ignored', message: 'Evento não processado' };
+            }
+
+            const { outcome } = await this.messageLedger.process(
+                `${channel}:${message.messageId}`,
+                () => this.processMessage(adapter, message)
+            );
+
+            // Sem resultado registrado a primeira entrega ainda está em andamento
+            return outcome ?? {
+                status: 'duplicate',
+                message: `Mensagem ${message.messageId} já está em processamento`
+            };
+
+        } catch (error) {
+            this.logger.error(`Erro ao processar webhook do canal ${channel}:`, error);
+
+            throw new HttpException(
+                {
+                    message: `Erro ao processar webhook do canal ${channel}`,
+                    error: 'Internal Server Error'
+                },
+                HttpStatus.INTERNAL_SERVER_ERROR
+            );
+        }
+    }
+
+    /**
+     * Processa uma mensagem recebida; executado uma única vez por mensagem
+     */
+    private async processMessage(adapter: ChannelAdapter, message: InboundMessage): Promise<ChannelWebhookResult> {
+        if (!adapter.shouldProcess(message)) {
+            this.logger.debug(`Mensagem ${message.messageId} do canal ${adapter.channel} ignorada pelos filtros`);
+            return { status: 'ignored', message: 'Mensagem filtrada' };
+        }
+
+        this.logger.log(`Processando mensagem ${message.messageId} do canal ${adapter.channel} (contato ${message.senderId})`);
+
+        // A resposta volta pelo canal assim que estiver pronta (imediatamente ou
+        // ao fechar a janela de agregação)
+        const outcome = await this.chatbotService.submitMessage(
+            toConversationKey(adapter.channel, message.senderId),
+            message.text,
+            response => this.deliver(adapter, response, message),
+            { ...message.context, channel: adapter.channel },
+            message.media
+        );
+
+        await adapter.afterProcess?.(message);
+
+        return {
+            status: outcome,
+            message: outcome === 'buffered'
+                ? `Mensagem ${message.messageId} agrupada para processamento`
+                : `Mensagem ${message.messageId} processada com sucesso`
+        };
+    }
+
+    /**
+     * Envia as mensagens da resposta na ordem, pelo canal de origem
+     */
+    private async deliver(adapter: ChannelAdapter, response: ChatbotResponse, message: InboundMessage): Promise<void> {
+        for (const outbound of adapter.renderOutbound(response, message)) {
+            await adapter.send(outbound);
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ChatbotModule } from '../chatbot/chatbot.module';
+import { ChannelService } from './channel.service';
+import { ChannelWebhookController } from './channel-webhook.controller';
+import { ChannelWebhookGuard } from './channel-webhook.guard';
+import { HttpChannelAdapter } from './http-channel.adapter';
+import { TelegramChannelAdapter } from './telegram-channel.adapter';
+
+@Module({
+    imports: [
+        ConfigModule,
+        ChatbotModule
+    ],
+    controllers: [ChannelWebhookController],
+    providers: [ChannelService, ChannelWebhookGuard, HttpChannelAdapter, TelegramChannelAdapter],
+    exports: [ChannelService]
+})
+export class ChannelsModule { }
@@ -0,0 +1,100 @@
+import { ExecutionContext, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { ChannelService } from './channel.service';
+import { hasSecretHeader } from './channel-webhook.guard';
+import { DEFAULT_RENDER_PROFILE, ResponseRendererService } from '../chatbot/services/response-renderer.service';
+import { ChatbotResponse } from '../chatbot/interfaces/conversation.interface';
+import { ChannelAdapter, InboundMessage } from './channel-adapter.interface';
+import { HttpChannelInbound, HttpChannelOutbound } from './http-channel.interface';
+import type { Request } from 'express';
+
+export const HTTP_CHANNEL_TOKEN_HEADER = 'x-channel-token';
+
+/**
+ * Canal genérico HTTP/JSON para integrar sites, apps ou outros sistemas:
+ * recebe `{ messageId, userId, message }` em `/channels/http/webhook` e envia
+ * cada mensagem da resposta por POST para HTTP_CHANNEL_CALLBACK_URL. As duas
+ * direções usam o header `x-channel-token` com HTTP_CHANNEL_TOKEN; sem token e
+ * URL configurados o canal não é registrado.
+ */
+@Injectable()
+export class HttpChannelAdapter implements ChannelAdapter<HttpChannelInbound, HttpChannelOutbound>, OnModuleInit {
+    readonly channel = 'http';
+    private readonly logger = new Logger(HttpChannelAdapter.name);
+    private readonly token: string;
+    private readonly callbackUrl: string;
+    private readonly httpClient: AxiosInstance;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly renderer: ResponseRendererService,
+        private readonly channels: ChannelService
+    ) {
+        this.token = this.configService.get<string>('HTTP_CHANNEL_TOKEN', '');
+        this.callbackUrl = this.configService.get<string>('HTTP_CHANNEL_CALLBACK_URL', '');
+
+        this.httpClient = axios.create({
+            timeout: 30000,
+            headers: {
+                [HTTP_CHANNEL_TOKEN_HEADER]: this.token,
+                'Content-Type': 'application/json'
+            }
+        });
+    }
+
+    onModuleInit(): void {
+        if (!this.token || !this.callbackUrl) {
+            this.logger.log('Canal HTTP desativado: HTTP_CHANNEL_TOKEN ou HTTP_CHANNEL_CALLBACK_URL não configurado');
+            return;
+        }
+
+        this.channels.register(this);
+    }
+
+    authorize(context: ExecutionContext): boolean {
+        return hasSecretHeader(context.switchToHttp().getRequest<Request>(), HTTP_CHANNEL_TOKEN_HEADER, this.token);
+    }
+
+    parseInbound(payload: unknown): InboundMessage<HttpChannelInbound> | undefined {
+        const inbound = payload as HttpChannelInbound | undefined;
+
+        if (!inbound?.messageId || !inbound.userId) {
+            this.logger.warn('Mensagem HTTP inválida: messageId e userId são obrigatórios');
+            return undefined;
+        }
+
+        return {
+            messageId: String(inbound.messageId),
+            senderId: String(inbound.userId),
+            replyTo: String(inbound.userId),
+            text: inbound.message || '',
+            media: inbound.media,
+            context: {
+                contactName: inbound.contactName,
+                language: inbound.language
+            },
+            raw: inbound
+        };
+    }
+
+    shouldProcess(message: InboundMessage<HttpChannelInbound>): boolean {
+        return message.text.trim() !== '' || !!message.media;
+    }
+
+    renderOutbound(response: ChatbotResponse, message: InboundMessage<HttpChannelInbound>): HttpChannelOutbound[] {
+        return this.renderer.render(response, DEFAULT_RENDER_PROFILE).map(rendered => ({
+            userId: message.replyTo,
+            ...rendered
+        }));
+    }
+
+    async send(outbound: HttpChannelOutbound): Promise<void> {
+        try {
+            await this.httpClient.post(this.callbackUrl, outbound);
+        } catch (error: unknown) {
+            const detail = axios.isAxiosError(error) ? error.response?.status || error.message : error;
+            this.logger.error(`Erro ao enviar mensagem HTTP para ${outbound.userId}:`, detail);
+        }
+    }
+}
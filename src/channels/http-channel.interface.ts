@@ -0,0 +1,22 @@
+import type { InboundMedia } from '../chatbot/interfaces/conversation.interface';
+import type { RenderedMessage } from '../chatbot/interfaces/rendering.interface';
+
+/**
+ * Mensagem recebida em `/channels/http/webhook`
+ */
+export interface HttpChannelInbound {
+    messageId: string;
+    userId: string;
+    message?: string;
+    media?: InboundMedia;
+    contactName?: string;
+    /** Idioma do contato (ex.: `en-US`) */
+    language?: string;
+}
+
+/**
+ * Mensagem enviada para HTTP_CHANNEL_CALLBACK_URL; uma requisição por mensagem
+ */
+export interface HttpChannelOutbound extends RenderedMessage {
+    userId: string;
+}
@@ -0,0 +1,238 @@
+import { ExecutionContext, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { ChannelService } from './channel.service';
+import { hasSecretHeader } from './channel-webhook.guard';
+import { ResponseRendererService } from '../chatbot/services/response-renderer.service';
+import { ChatbotResponse, InboundMedia, InteractiveContent, MessageContext } from '../chatbot/interfaces/conversation.interface';
+import { RenderedMessage, RenderProfile } from '../chatbot/interfaces/rendering.interface';
+import { ChannelAdapter, InboundMessage } from './channel-adapter.interface';
+import {
+    TelegramInlineKeyboardButton,
+    TelegramMessage,
+    TelegramOutbound,
+    TelegramPayload,
+    TelegramUpdate,
+    TelegramUser
+} from './telegram.interface';
+import type { Request } from 'express';
+
+export const TELEGRAM_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+/**
+ * Texto simples (o Markdown do Telegram exige escapar a pontuação), botões como
+ * teclado inline e os limites de texto e legenda da Bot API
+ */
+const TELEGRAM_RENDER_PROFILE: RenderProfile = {
+    markup: 'plain',
+    maxLength: 4096,
+    maxCaptionLength: 1024,
+    interactive: true
+};
+
+const ATTACHMENT_METHODS = {
+    image: { method: 'sendPhoto', field: 'photo' },
+    video: { method: 'sendVideo', field: 'video' },
+    audio: { method: 'sendAudio', field: 'audio' },
+    document: { method: 'sendDocument', field: 'document' }
+} as const;
+
+/**
+ * Canal Telegram via Bot API: recebe os updates do webhook registrado com
+ * `secret_token` (TELEGRAM_WEBHOOK_SECRET) e responde com `sendMessage` e os
+ * métodos de envio de arquivos. As escolhas viram teclado inline, e o toque em um
+ * botão chega ao fluxo como a resposta digitada. Conversas só em chats privados;
+ * sem TELEGRAM_BOT_TOKEN o canal não é registrado.
+ */
+@Injectable()
+export class TelegramChannelAdapter implements ChannelAdapter<TelegramUpdate, TelegramOutbound>, OnModuleInit {
+    readonly channel = 'telegram';
+    private readonly logger = new Logger(TelegramChannelAdapter.name);
+    private readonly botToken: string;
+    private readonly webhookSecret: string;
+    private readonly httpClient: AxiosInstance;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly renderer: ResponseRendererService,
+        private readonly channels: ChannelService
+    ) {
+        this.botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN', '');
+        this.webhookSecret = this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET', '');
+
+        this.httpClient = axios.create({
+            baseURL: this.configService.get<string>('TELEGRAM_API_URL', 'https://api.telegram.org'),
+            timeout: 30000,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    onModuleInit(): void {
+        if (!this.botToken) {
+            this.logger.log('Canal Telegram desativado: TELEGRAM_BOT_TOKEN não configurado');
+            return;
+        }
+
+        this.channels.register(this);
+    }
+
+    authorize(context: ExecutionContext): boolean {
+        return hasSecretHeader(context.switchToHttp().getRequest<Request>(), TELEGRAM_SECRET_HEADER, this.webhookSecret);
+    }
+
+    parseInbound(payload: unknown): InboundMessage<TelegramUpdate> | undefined {
+        const update = payload as TelegramUpdate | undefined;
+        if (typeof update?.update_id !== 'number') {
+            this.logger.warn('Update do Telegram inválido: update_id ausente');
+            return undefined;
+        }
+
+        // Toque em botão do teclado inline: o id da escolha vale como texto digitado
+        const query = update.callback_query;
+        if (query?.message) {
+            return {
+                messageId: String(update.update_id),
+                senderId: String(query.from.id),
+                replyTo: String(query.message.chat.id),
+                text: query.data || '',
+                context: this.buildContext(query.from),
+                raw: update
+            };
+        }
+
+        const message = update.message;
+        if (!message) {
+            return undefined;
+        }
+
+        return {
+            messageId: String(update.update_id),
+            senderId: String(message.from?.id ?? message.chat.id),
+            replyTo: String(message.chat.id),
+            text: message.text ?? message.caption ?? '',
+            media: this.extractMedia(message),
+            context: message.from ? this.buildContext(message.from) : {},
+            raw: update
+        };
+    }
+
+    /**
+     * Só conversas privadas com pessoas, com texto, mídia ou o toque em um botão
+     */
+    shouldProcess(message: InboundMessage<TelegramUpdate>): boolean {
+        const source = message.raw.callback_query ?? message.raw.message;
+        const chat = message.raw.callback_query?.message?.chat ?? message.raw.message?.chat;
+
+        if (chat?.type !== 'private' || source?.from?.is_bot) {
+            return false;
+        }
+
+        return message.text.trim() !== '' || !!message.media;
+    }
+
+    renderOutbound(response: ChatbotResponse, message: InboundMessage<TelegramUpdate>): TelegramOutbound[] {
+        return this.renderer.render(response, TELEGRAM_RENDER_PROFILE)
+            .map(rendered => this.toOutbound(message.replyTo, rendered));
+    }
+
+    async send(outbound: TelegramOutbound): Promise<void> {
+        await this.call(outbound.method, outbound.payload);
+    }
+
+    /**
+     * Confirma o toque no botão para o Telegram parar o indicador de carregamento
+     */
+    async afterProcess(message: InboundMessage<TelegramUpdate>): Promise<void> {
+        const query = message.raw.callback_query;
+
+        if (query) {
+            await this.call('answerCallbackQuery', { callback_query_id: query.id });
+        }
+    }
+
+    private toOutbound(chatId: string, rendered: RenderedMessage): TelegramOutbound {
+        if (rendered.attachment) {
+            const { method, field } = ATTACHMENT_METHODS[rendered.attachment.type];
+
+            return {
+                method,
+                payload: {
+                    chat_id: chatId,
+                    [field]: rendered.attachment.url,
+                    ...(rendered.text && { caption: rendered.text })
+                }
+            };
+        }
+
+        return {
+            method: 'sendMessage',
+            payload: {
+                chat_id: chatId,
+                text: rendered.text,
+                ...(rendered.interactive && { reply_markup: { inline_keyboard: this.buildKeyboard(rendered.interactive) } })
+            }
+        };
+    }
+
+    /**
+     * Botões e linhas da lista viram um botão inline por linha
+     */
+    private buildKeyboard(interactive: InteractiveContent): TelegramInlineKeyboardButton[][] {
+        const choices = interactive.type === 'buttons' ? interactive.buttons : interactive.rows;
+        return choices.map(choice => [{ text: choice.title, callback_data: choice.id }]);
+    }
+
+    private buildContext(user: TelegramUser): MessageContext {
+        return {
+            contactName: [user.first_name, user.last_name].filter(Boolean).join(' '),
+            language: user.language_code
+        };
+    }
+
+    /**
+     * Arquivos trazem o `file_id` do Telegram em `path`; o link de download inclui o
+     * token do bot e por isso não é guardado na conversa
+     */
+    private extractMedia(message: TelegramMessage): InboundMedia | undefined {
+        const caption = message.caption ? { caption: message.caption } : {};
+
+        if (message.venue) {
+            const { location, title, address } = message.venue;
+            return { type: 'location', location: { ...location, address: `${title}, ${address}` } };
+        }
+
+        if (message.location) {
+            return { type: 'location', location: { latitude: message.location.latitude, longitude: message.location.longitude } };
+        }
+
+        if (message.photo?.length) {
+            return { type: 'image', path: message.photo[message.photo.length - 1].file_id, ...caption };
+        }
+
+        const file = message.document ?? message.video ?? message.audio ?? message.voice ?? message.sticker;
+        if (!file) {
+            return undefined;
+        }
+
+        const type = message.document ? 'document'
+            : message.video ? 'video'
+                : message.sticker ? 'sticker'
+                    : 'audio';
+
+        return { type, path: file.file_id, ...caption };
+    }
+
+    /**
+     * Chama um método da Bot API; falhas são registradas sem expor o token
+     */
+    private async call(method: string, payload: TelegramPayload): Promise<void> {
+        try {
+            await this.httpClient.post(`/bot${this.botToken}/${method}`, payload);
+        } catch (error: unknown) {
+            const detail = axios.isAxiosError<{ description?: string } | undefined>(error)
+                ? error.response?.data?.description || error.message
+                : error;
+            this.logger.error(`Erro na chamada ${method} do Telegram:`, detail);
+        }
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * Subconjunto dos tipos da Telegram Bot API usados pelo canal
+ * (https://core.telegram.org/bots/api)
+ */
+export interface TelegramUser {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    last_name?: string;
+    username?: string;
+    language_code?: string;
+}
+
+export interface TelegramChat {
+    id: number;
+    type: 'private' | 'group' | 'supergroup' | 'channel';
+}
+
+export interface TelegramFile {
+    file_id: string;
+    file_name?: string;
+    mime_type?: string;
+}
+
+export interface TelegramLocation {
+    latitude: number;
+    longitude: number;
+}
+
+export interface TelegramMessage {
+    message_id: number;
+    from?: TelegramUser;
+    chat: TelegramChat;
+    date: number;
+    text?: string;
+    caption?: string;
+    photo?: TelegramFile[];
+    document?: TelegramFile;
+    video?: TelegramFile;
+    audio?: TelegramFile;
+    voice?: TelegramFile;
+    sticker?: TelegramFile;
+    location?: TelegramLocation;
+    venue?: { location: TelegramLocation; title: string; address: string };
+}
+
+/**
+ * Toque em um botão do teclado inline; `data` é o id da escolha
+ */
+export interface TelegramCallbackQuery {
+    id: string;
+    from: TelegramUser;
+    message?: TelegramMessage;
+    data?: string;
+}
+
+export interface TelegramUpdate {
+    update_id: number;
+    message?: TelegramMessage;
+    callback_query?: TelegramCallbackQuery;
+}
+
+export interface TelegramInlineKeyboardButton {
+    text: string;
+    callback_data: string;
+}
+
+/**
+ * Parâmetros de um método da Bot API (`chat_id`, `text`, `reply_markup`, ...)
+ */
+export type TelegramPayload = Record<string, unknown>;
+
+/**
+ * Chamada à Bot API (`sendMessage`, `sendPhoto`, ...) com os parâmetros do método
+ */
+export interface TelegramOutbound {
+    method: 'sendMessage' | 'sendPhoto' | 'sendVideo' | 'sendAudio' | 'sendDocument';
+    payload: TelegramPayload;
+}
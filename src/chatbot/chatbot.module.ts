@@ -1,23 +1,55 @@
 import { Module } from '@nestjs/common';
 import { ChatbotController } from './controllers/chatbot.controller';
+import { FlowAdminController } from './controllers/flow-admin.controller';
 import { ChatbotService } from './services/chatbot.service';
 import { ConversationStateService } from './services/conversation-state.service';
 import { ValidationService } from './services/validation.service';
 import { FlowService } from './services/flow.service';
+import { FlowLoaderService } from './services/flow-loader.service';
+import { FlowActionService } from './services/flow-action.service';
+import { BusinessHoursService } from './services/business-hours.service';
+import { UserMessageQueueService } from './services/user-message-queue.service';
+import { MessageAggregatorService } from './services/message-aggregator.service';
+import { MessageLedgerService } from './services/message-ledger.service';
+import { HealthService } from './services/health.service';
+import { I18nService } from './services/i18n.service';
+import { IntentService } from './services/intent.service';
+import { ResponseRendererService } from './services/response-renderer.service';
+import { conversationStoreProvider } from './storage/conversation-store.provider';
+import { CONVERSATION_STORE } from './interfaces/conversation-store.interface';
 
 @Module({
-    controllers: [ChatbotController],
+    controllers: [ChatbotController, FlowAdminController],
     providers: [
         ChatbotService,
         ConversationStateService,
         ValidationService,
-        FlowService
+        FlowService,
+        FlowLoaderService,
+        FlowActionService,
+        BusinessHoursService,
+        UserMessageQueueService,
+        MessageAggregatorService,
+        MessageLedgerService,
+        HealthService,
+        I18nService,
+        IntentService,
+        ResponseRendererService,
+        conversationStoreProvider
     ],
     exports: [
         ChatbotService,
         ConversationStateService,
         ValidationService,
-        FlowService
+        FlowService,
+        FlowActionService,
+        BusinessHoursService,
+        MessageLedgerService,
+        HealthService,
+        I18nService,
+        IntentService,
+        ResponseRendererService,
+        CONVERSATION_STORE
     ]
 })
 export class ChatbotModule { }
@@ -12,7 +12,9 @@ import {
 } from '@nestjs/common';
 import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { ChatbotService } from '../services/chatbot.service';
-import { ConversationStateService } from '../services/conversation-state.service';
+import { ConversationStateService, toConversationKey } from '../services/conversation-state.service';
+import { HealthService } from '../services/health.service';
+import { ResponseRendererService } from '../services/response-renderer.service';
 import { IncomingMessageDto, ChatbotResponseDto } from '../dto/chatbot.dto';
 
 @Controller('chatbot')
@@ -22,11 +24,14 @@ export class ChatbotController {
 
     constructor(
         private readonly chatbotService: ChatbotService,
-        private readonly conversationState: ConversationStateService
+        private readonly conversationState: ConversationStateService,
+        private readonly healthService: HealthService,
+        private readonly renderer: ResponseRendererService
     ) { }
 
     /**
-     * Endpoint principal para receber mensagens
+     * Endpoint principal para receber mensagens; a resposta traz também as
+     * mensagens já montadas para envio (`messages`). A conversa fica em `api:<userId>`
      */
     @Post('message')
     @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 mensagens por minuto por IP
@@ -37,52 +42,23 @@ export class ChatbotController {
             this.logger.debug(`Mensagem recebida de ${messageDto.userId}: ${messageDto.message}`);
 
             const response = await this.chatbotService.processMessage(
-                messageDto.userId,
+                toConversationKey('api', messageDto.userId),
                 messageDto.message
             );
 
             this.logger.debug(`Resposta enviada para ${messageDto.userId}: ${response.message.substring(0, 100)}...`);
 
-            return response;
-
-        } catch (error) {
-            this.logger.error(`Erro ao processar mensagem de ${messageDto.userId}:`, error);
-
-            throw new HttpException(
-                {
-                    message: 'Erro interno do servidor. Tente novamente.',
-                    error: 'Internal Server Error'
-                },
-                HttpStatus.INTERNAL_SERVER_ERROR
-            );
-        }
-    }
-
-    /**
-     * Webhook para integração com GOSAC (placeholder)
-     */
-    @Post('webhook/gosac')
-    async handleGosacWebhook(@Body() payload: any): Promise<{ success: boolean; message: string }> {
-        try {
-            this.logger.debug('Webhook GOSAC recebido:', JSON.stringify(payload));
-
-            // TODO: Implementar processamento do webhook do GOSAC
-            // Aqui você processará:
-            // - Atualizações de status de tickets
-            // - Novas mensagens
-            // - Mudanças de estado dos clientes
-
             return {
-                success: true,
-                message: 'Webhook processado com sucesso'
+                ...response,
+                messages: this.renderer.render(response)
             };
 
         } catch (error) {
-            this.logger.error('Erro ao processar webhook GOSAC:', error);
+            this.logger.error(`Erro ao processar mensagem de ${messageDto.userId}:`, error);
 
             throw new HttpException(
                 {
-                    message: 'Erro ao processar webhook',
+                    message: 'Erro interno do servidor. Tente novamente.',
                     error: 'Internal Server Error'
                 },
                 HttpStatus.INTERNAL_SERVER_ERROR
@@ -91,13 +67,13 @@ export class ChatbotController {
     }
 
     /**
-     * Obtém estado da conversa de um usuário
+     * Obtém estado da conversa de um usuário; o id inclui o canal (ex.: `gosac:123`)
      */
     @Get('conversation/:userId')
     @Throttle({ default: { limit: 20, ttl: 60000 } }) // 20 consultas por minuto
-    getConversationState(@Param('userId') userId: string) {
+    async getConversationState(@Param('userId') userId: string) {
         try {
-            const state = this.conversationState.getConversationState(userId);
+            const state = await this.conversationState.getConversationState(userId);
 
             return {
                 userId: state.userId,
@@ -105,6 +81,7 @@ export class ChatbotController {
                 stepHistory: state.stepHistory,
                 lastMessageTime: state.lastMessageTime,
                 isActive: state.isActive,
+                handedOff: !!state.handoff,
                 attempts: state.attempts,
                 hasData: Object.keys(state.data).length > 0
             };
@@ -127,9 +104,9 @@ export class ChatbotController {
      */
     @Post('conversation/:userId/restart')
     @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 reinicializações por minuto
-    restartConversation(@Param('userId') userId: string): { success: boolean; message: string } {
+    async restartConversation(@Param('userId') userId: string): Promise<{ success: boolean; message: string }> {
         try {
-            this.conversationState.restartConversation(userId);
+            await this.conversationState.restartConversation(userId);
             this.logger.debug(`Conversa reiniciada para usuário: ${userId}`);
 
             return {
@@ -155,9 +132,9 @@ export class ChatbotController {
      */
     @Get('conversation/:userId/history')
     @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 consultas por minuto
-    getMessageHistory(@Param('userId') userId: string) {
+    async getMessageHistory(@Param('userId') userId: string) {
         try {
-            const history = this.conversationState.getMessageHistory(userId);
+            const history = await this.conversationState.getMessageHistory(userId);
 
             return {
                 userId,
@@ -187,9 +164,9 @@ export class ChatbotController {
      */
     @Get('stats')
     @Throttle({ default: { limit: 30, ttl: 60000 } }) // 30 consultas por minuto
-    getStatistics() {
+    async getStatistics() {
         try {
-            return this.chatbotService.getStatistics();
+            return await this.chatbotService.getStatistics();
 
         } catch (error) {
             this.logger.error('Erro ao obter estatísticas:', error);
@@ -209,12 +186,19 @@ export class ChatbotController {
      */
     @Get('health')
     @Throttle({ default: { limit: 60, ttl: 60000 } }) // 60 consultas por minuto
-    healthCheck() {
-        return {
-            status: 'healthy',
-            timestamp: new Date(),
+    async healthCheck() {
+        const report = await this.healthService.check();
+        const body = {
+            ...report,
             service: 'ChatbotService',
             version: '1.0.0'
         };
+
+        // Componentes críticos fora do ar respondem 503 para o balanceador retirar a instância
+        if (report.status === 'unhealthy') {
+            throw new HttpException(body, HttpStatus.SERVICE_UNAVAILABLE);
+        }
+
+        return body;
     }
 }
@@ -0,0 +1,173 @@
+import {
+    Controller,
+    Post,
+    Body,
+    Get,
+    Param,
+    UseGuards,
+    HttpStatus,
+    HttpException,
+    Logger
+} from '@nestjs/common';
+import { FlowService } from '../services/flow.service';
+import { FlowDefinitionError } from '../services/flow-loader.service';
+import { ConversationStateService } from '../services/conversation-state.service';
+import { AdminApiKeyGuard } from '../../common/guards/admin-api-key.guard';
+
+@Controller('chatbot/admin/flows')
+@UseGuards(AdminApiKeyGuard)
+export class FlowAdminController {
+    private readonly logger = new Logger(FlowAdminController.name);
+
+    constructor(
+        private readonly flowService: FlowService,
+        private readonly conversationState: ConversationStateService
+    ) { }
+
+    /**
+     * Lista versões registradas e quantas conversas estão fixadas em cada uma
+     */
+    @Get()
+    async listVersions() {
+        return {
+            activeVersion: this.flowService.getActiveVersion(),
+            versions: this.flowService.listVersions(),
+            conversationsByVersion: await this.conversationState.getFlowVersionUsage()
+        };
+    }
+
+    /**
+     * Envia uma nova versão de fluxo (validada, mas ainda não publicada)
+     */
+    @Post()
+    uploadVersion(@Body() definition: Record<string, any>) {
+        const registered = this.runFlowOperation(() => this.flowService.registerVersion(definition));
+
+        return {
+            success: true,
+            version: registered.version,
+            diff: this.flowService.diffWithActive(registered.version)
+        };
+    }
+
+    /**
+     * Recarrega o arquivo de fluxo configurado e publica sua versão
+     */
+    @Post('reload')
+    reload() {
+        const definition = this.runFlowOperation(() => this.flowService.reloadFromFile());
+
+        return {
+            success: true,
+            activeVersion: definition.version
+        };
+    }
+
+    /**
+     * Volta para a versão publicada anteriormente
+     */
+    @Post('rollback')
+    rollback() {
+        const version = this.flowService.rollback();
+
+        if (!version) {
+            throw new HttpException(
+                {
+                    message: 'Não há versão anterior para rollback',
+                    error: 'Conflict'
+                },
+                HttpStatus.CONFLICT
+            );
+        }
+
+        return {
+            success: true,
+            activeVersion: version
+        };
+    }
+
+    /**
+     * Obtém a definição de uma versão
+     */
+    @Get(':version')
+    getVersion(@Param('version') version: string) {
+        const definition = this.flowService.getDefinition(version);
+
+        if (!definition) {
+            throw this.versionNotFound(version);
+        }
+
+        return definition;
+    }
+
+    /**
+     * Compara uma versão com a versão ativa
+     */
+    @Get(':version/diff')
+    diffVersion(@Param('version') version: string) {
+        const diff = this.flowService.diffWithActive(version);
+
+        if (!diff) {
+            throw this.versionNotFound(version);
+        }
+
+        return diff;
+    }
+
+    /**
+     * Publica uma versão registrada
+     */
+    @Post(':version/publish')
+    publishVersion(@Param('version') version: string) {
+        if (!this.flowService.publishVersion(version)) {
+            throw this.versionNotFound(version);
+        }
+
+        this.logger.log(`Fluxo ${version} publicado via API administrativa`);
+
+        return {
+            success: true,
+            activeVersion: version
+        };
+    }
+
+    /**
+     * Executa uma operação de fluxo convertendo erros de definição em 400
+     */
+    private runFlowOperation<T>(operation: () => T): T {
+        try {
+            return operation();
+        } catch (error) {
+            if (error instanceof FlowDefinitionError) {
+                throw new HttpException(
+                    {
+                        message: 'Definição de fluxo inválida',
+                        error: 'Bad Request',
+                        issues: error.issues
+                    },
+                    HttpStatus.BAD_REQUEST
+                );
+            }
+
+            this.logger.error('Erro ao processar definição de fluxo:', error);
+
+            throw new HttpException(
+                {
+                    message: 'Erro ao processar definição de fluxo',
+                    error: 'Internal Server Error'
+                },
+                HttpStatus.INTERNAL_SERVER_ERROR
+            );
+        }
+    }
+
+    private versionNotFound(version: string): HttpException {
+        return new HttpException(
+            {
+                message: `Versão de fluxo ${version} não encontrada`,
+                error: 'Not Found'
+            },
+            HttpStatus.NOT_FOUND
+        );
+    }
+}
@@ -1,4 +1,6 @@
 import { IsString, IsNotEmpty, IsOptional, IsDateString } from 'class-validator';
+import type { InteractiveContent, OutboundAttachment } from '../interfaces/conversation.interface';
+import type { RenderedMessage } from '../interfaces/rendering.interface';
 
 export class IncomingMessageDto {
     @IsString()
@@ -22,6 +24,16 @@ export class ChatbotResponseDto {
     @IsOptional()
     options?: string[];
 
+    @IsOptional()
+    interactive?: InteractiveContent;
+
+    @IsOptional()
+    attachments?: OutboundAttachment[];
+
+    /** A resposta já montada para envio, uma entrada por mensagem */
+    @IsOptional()
+    messages?: RenderedMessage[];
+
     @IsOptional()
     shouldEnd?: boolean;
 
@@ -35,5 +47,6 @@ export class ConversationStatsDto {
     stepHistory: string[];
     lastMessageTime: Date;
     isActive: boolean;
+    handedOff: boolean;
     attempts: number;
 }
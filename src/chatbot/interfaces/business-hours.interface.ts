@@ -0,0 +1,29 @@
+/**
+ * Dias da semana aceitos no arquivo de horários
+ */
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * Intervalos "HH:MM-HH:MM" de atendimento por dia da semana
+ */
+export type WeeklyHoursDefinition = Partial<Record<Weekday, string[]>>;
+
+/**
+ * Arquivo de horários de atendimento (YAML ou JSON)
+ */
+export interface BusinessHoursDefinition {
+    timezone?: string;
+    nationalHolidays?: boolean;
+    holidays?: string[];
+    schedules: Record<string, WeeklyHoursDefinition>;
+}
+
+/**
+ * Intervalo em minutos desde a meia-noite
+ */
+export interface TimeRange {
+    start: number;
+    end: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Token de injeção do backend de armazenamento de conversas
+ */
+export const CONVERSATION_STORE = Symbol('CONVERSATION_STORE');
+
+/**
+ * Armazenamento chave/valor com expiração usado pelo estado das conversas.
+ * Os valores são serializados em JSON, então datas voltam como string.
+ */
+export interface ConversationStore {
+    get<T>(key: string): Promise<T | undefined>;
+    set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+    /**
+     * Grava o valor só se a chave não existir, de forma atômica; retorna se gravou
+     */
+    setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean>;
+    delete(key: string): Promise<void>;
+    keys(prefix: string): Promise<string[]>;
+    close(): Promise<void>;
+}
@@ -1,3 +1,5 @@
+import { ControlKeyword } from './locale.interface';
+
 export interface ConversationState {
     userId: string;
     currentStep: string;
@@ -7,6 +9,59 @@ export interface ConversationState {
     data: Record<string, any>;
     waitingFor?: string;
     attempts: number;
+    flowVersion?: string;
+    locale?: string;
+    context?: MessageContext;
+    handoff?: HandoffState;
+}
+
+/**
+ * Conversa transferida para atendimento humano: enquanto presente, o bot fica em silêncio
+ */
+export interface HandoffState {
+    startedAt: number;
+    lastActivityAt: number;
+    ticketId?: number;
+}
+
+/**
+ * Dados do canal de origem da mensagem (contato, ticket), atualizados a cada mensagem
+ */
+export interface MessageContext {
+    /** Canal de origem da conversa (ex.: `gosac`, `telegram`) */
+    channel?: string;
+    /** Idioma informado pelo canal, usado antes do código de país do número */
+    language?: string;
+    contactId?: number;
+    contactName?: string;
+    contactNumber?: string;
+    ticketId?: number;
+    ticketStatus?: string;
+    ticketProtocol?: string;
+    queueId?: number;
+}
+
+/**
+ * Tipos de mídia que podem chegar pelo canal
+ */
+export type MediaType = 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location';
+
+/**
+ * Mídia recebida junto com a mensagem. Arquivos trazem a referência no canal
+ * (`url`/`path`); localizações trazem as coordenadas
+ */
+export interface InboundMedia {
+    type: MediaType;
+    url?: string;
+    path?: string;
+    caption?: string;
+    location?: GeoLocation;
+}
+
+export interface GeoLocation {
+    latitude: number;
+    longitude: number;
+    address?: string;
 }
 
 export interface ChatMessage {
@@ -22,16 +77,114 @@ export interface FlowStep {
     message: string;
     options?: FlowOption[];
     validation?: ValidationRule;
-    nextStep?: string | ((userInput: string, state: ConversationState) => string);
+    media?: MediaRequirement;
+    attachments?: OutboundAttachment[];
+    collect?: DataCollection;
+    guards?: FlowCondition[];
+    onEnter?: StepEntryAction;
+    handoff?: boolean;
+    nextStep?: string | FlowTransition | ((userInput: string, state: ConversationState) => string);
     action?: (userInput: string, state: ConversationState) => Promise<void>;
     allowBack?: boolean;
     allowRestart?: boolean;
+    /** Desativa as intenções globais no passo: `true` para todas as do fluxo, ou uma lista de ids */
+    disableIntents?: boolean | string[];
+    translations?: Record<string, StepTranslation>;
+}
+
+/**
+ * Textos do passo em outro idioma; o que não for traduzido usa o texto original
+ */
+export interface StepTranslation {
+    message?: string;
+    /** Texto das opções, pela `key` da opção */
+    options?: Record<string, string>;
+    errorMessage?: string;
 }
 
 export interface FlowOption {
     key: string;
     text: string;
     nextStep: string;
+    /** Outras formas de escrever a opção, aceitas em qualquer idioma */
+    synonyms?: string[];
+}
+
+/**
+ * Intenção global: reconhecida em qualquer passo antes do processamento do próprio passo.
+ * Deve ter `nextStep`, `command` ou `action` (esta pode acompanhar `nextStep`)
+ */
+export interface FlowIntent {
+    id: string;
+    /** Frases que ativam a intenção quando digitadas sozinhas (sem diferenciar acentos ou maiúsculas) */
+    keywords?: string[];
+    /** Expressões testadas contra a mensagem inteira */
+    patterns?: RegExp[];
+    nextStep?: string;
+    /** Comando de controle executado no lugar de um passo */
+    command?: ControlKeyword;
+    /** Ação de fluxo executada antes de seguir para `nextStep` (ou de reexibir o passo atual) */
+    action?: string;
+    /** Intenções de maior prioridade são avaliadas primeiro; empates seguem a ordem de declaração */
+    priority?: number;
+}
+
+/**
+ * Ação nomeada executada ao entrar no passo; em caso de falha a conversa
+ * segue para `onError` (ou para o passo `error`)
+ */
+export interface StepEntryAction {
+    action: string;
+    onError?: string;
+}
+
+/**
+ * Contexto recebido pelas ações de fluxo
+ */
+export interface FlowActionContext {
+    userId: string;
+    input: string;
+    state: ConversationState;
+    step: FlowStep;
+}
+
+/**
+ * Ação de fluxo: retorna dados a mesclar em `ConversationState.data` ou lança erro
+ */
+export type FlowActionHandler = (context: FlowActionContext) => Promise<Record<string, any> | void>;
+
+/**
+ * Passo que espera uma mídia em vez de texto; com `collect`, a referência
+ * recebida (`InboundMedia`) é salva no campo
+ */
+export interface MediaRequirement {
+    accept: MediaType[];
+    errorMessage?: string;
+}
+
+/**
+ * Declara que a resposta do passo deve ser salva em `ConversationState.data[field]`
+ */
+export interface DataCollection {
+    field: string;
+    normalizers?: InputNormalizer[];
+}
+
+export type InputNormalizer = 'trim' | 'lowercase' | 'uppercase' | 'capitalize' | 'digitsOnly' | 'maskCpf' | 'maskPhone';
+
+/**
+ * Transição declarativa entre passos (substitui closures em fluxos carregados de arquivo)
+ */
+export type FlowTransition =
+    | { type: 'previous'; fallback: string }
+    | { type: 'conditional'; conditions: FlowCondition[]; default: string };
+
+export interface FlowCondition {
+    field: string;
+    equals?: string | number | boolean;
+    matches?: string;
+    exists?: boolean;
+    nextStep: string;
 }
 
 export interface ValidationRule {
@@ -47,6 +200,38 @@ export interface ValidationRule {
 export interface ChatbotResponse {
     message: string;
     options?: string[];
+    /** As mesmas escolhas de `options` para canais com botões ou listas */
+    interactive?: InteractiveContent;
+    attachments?: OutboundAttachment[];
     shouldEnd?: boolean;
     data?: Record<string, any>;
+    silent?: boolean; // Nada deve ser enviado ao usuário (conversa com atendente)
 }
+
+/**
+ * Arquivo enviado depois do texto da resposta (ex.: manual em PDF)
+ */
+export interface OutboundAttachment {
+    type: 'image' | 'video' | 'audio' | 'document';
+    url: string;
+    filename?: string;
+    caption?: string;
+}
+
+/**
+ * Escolha interativa; `id` é o que o usuário digitaria (número da opção, `0` ou `#`),
+ * então o toque no botão chega ao fluxo como uma resposta de texto comum
+ */
+export interface InteractiveChoice {
+    id: string;
+    title: string;
+}
+
+export type InteractiveContent =
+    | { type: 'buttons'; buttons: InteractiveChoice[] }
+    | { type: 'list'; buttonText: string; rows: InteractiveChoice[] };
+
+/**
+ * Entrega assíncrona de uma resposta ao canal de origem
+ */
+export type ResponseDelivery = (response: ChatbotResponse) => Promise<void>;
@@ -0,0 +1,97 @@
+import {
+    DataCollection,
+    FlowCondition,
+    FlowIntent,
+    FlowOption,
+    FlowStep,
+    FlowTransition,
+    MediaRequirement,
+    OutboundAttachment,
+    StepEntryAction,
+    StepTranslation
+} from './conversation.interface';
+
+/**
+ * Definição de fluxo carregada de arquivo JSON/YAML
+ */
+export interface FlowDefinition {
+    id: string;
+    version: string;
+    description?: string;
+    intents?: FlowIntentDefinition[];
+    steps: FlowStepDefinition[];
+}
+
+/**
+ * Intenção global serializável: `patterns` são strings de RegExp
+ */
+export interface FlowIntentDefinition extends Omit<FlowIntent, 'patterns'> {
+    patterns?: string[];
+}
+
+export interface FlowStepDefinition {
+    id: string;
+    name: string;
+    message: string;
+    options?: FlowOption[];
+    validation?: ValidationRuleDefinition;
+    media?: MediaRequirement;
+    attachments?: OutboundAttachment[];
+    collect?: DataCollection;
+    guards?: FlowCondition[];
+    onEnter?: StepEntryAction;
+    handoff?: boolean;
+    nextStep?: string | FlowTransition;
+    allowBack?: boolean;
+    allowRestart?: boolean;
+    disableIntents?: boolean | string[];
+    translations?: Record<string, StepTranslation>;
+}
+
+/**
+ * Regra de validação serializável: `pattern` é uma string de RegExp e
+ * `validator` referencia um validador nomeado em vez de uma função
+ */
+export interface ValidationRuleDefinition {
+    type: 'number' | 'text' | 'email' | 'phone' | 'option' | 'custom';
+    required?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    validator?: string;
+    errorMessage?: string;
+}
+
+export interface FlowValidationIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Versão registrada de um fluxo, já compilada
+ */
+export interface FlowVersion {
+    definition: FlowDefinition;
+    steps: Map<string, FlowStep>;
+    intents: FlowIntent[];
+    uploadedAt: Date;
+    publishedAt?: Date;
+}
+
+export interface FlowVersionSummary {
+    version: string;
+    id: string;
+    description?: string;
+    totalSteps: number;
+    uploadedAt: Date;
+    publishedAt?: Date;
+    active: boolean;
+}
+
+export interface FlowDiff {
+    from: string;
+    to: string;
+    added: string[];
+    removed: string[];
+    changed: { stepId: string; fields: string[] }[];
+}
@@ -0,0 +1,39 @@
+import type { MessageKey } from '../services/i18n.service';
+
+/**
+ * Situação de um componente: no ar, funcionando com restrições ou fora do ar
+ */
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+export interface HealthCheckResult {
+    status: HealthStatus;
+    /** Texto curto do relatório de saúde, ex.: "Online" */
+    summary: string;
+    details?: Record<string, any>;
+}
+
+/**
+ * Verificação registrada no HealthService
+ */
+export interface HealthCheck {
+    name: string;
+    /** Nome exibido no relatório de saúde, ex.: "Sistema GOSAC" */
+    label: string;
+    /** Chave do nome exibido ao usuário no passo de status; sem ela, usa `label` */
+    labelKey?: MessageKey;
+    /** Componentes críticos fora do ar deixam o serviço como unhealthy */
+    critical?: boolean;
+    run: () => Promise<HealthCheckResult>;
+}
+
+export interface HealthCheckReport extends HealthCheckResult {
+    name: string;
+    label: string;
+    latency: number;
+}
+
+export interface HealthReport {
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    checkedAt: string;
+    checks: HealthCheckReport[];
+}
@@ -0,0 +1,28 @@
+/**
+ * Palavras-chave de controle reconhecidas em qualquer passo
+ */
+export type ControlKeyword = 'back' | 'restart';
+
+/**
+ * Pacote de idioma carregado de arquivo JSON/YAML
+ */
+export interface LocaleDefinition {
+    locale: string;
+    name: string;
+    /** Códigos de país (DDI) cujos contatos usam este idioma por padrão */
+    dialCodes?: string[];
+    keywords: Record<ControlKeyword, string[]>;
+    /** Textos aninhados; as chaves são acessadas com ponto (`validation.required`) */
+    messages: Record<string, any>;
+}
+
+/**
+ * Pacote de idioma pronto para uso, com as chaves de mensagens achatadas
+ */
+export interface LocaleBundle {
+    locale: string;
+    name: string;
+    dialCodes: string[];
+    keywords: Record<ControlKeyword, string[]>;
+    messages: Record<string, string>;
+}
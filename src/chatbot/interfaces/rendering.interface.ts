@@ -0,0 +1,29 @@
+import { InteractiveContent, OutboundAttachment } from './conversation.interface';
+
+/**
+ * Marcação de texto aceita pelo canal: `whatsapp` mantém `*negrito*`, `_itálico_`
+ * e `~tachado~`; `plain` remove a marcação
+ */
+export type TextMarkup = 'whatsapp' | 'plain';
+
+/**
+ * Como um canal exibe as respostas do chatbot
+ */
+export interface RenderProfile {
+    markup: TextMarkup;
+    /** Tamanho máximo de cada mensagem; textos maiores são divididos em várias */
+    maxLength: number;
+    /** Tamanho máximo da legenda dos anexos (padrão: `maxLength`) */
+    maxCaptionLength?: number;
+    /** Envia as escolhas como botões ou lista em vez de escrevê-las no texto */
+    interactive: boolean;
+}
+
+/**
+ * Uma mensagem pronta para envio: texto (com botões ou lista) ou um anexo com legenda
+ */
+export interface RenderedMessage {
+    text: string;
+    interactive?: InteractiveContent;
+    attachment?: OutboundAttachment;
+}
@@ -0,0 +1,290 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DateUtils } from '../../common/utils';
+import {
+    BusinessHoursDefinition,
+    TimeRange,
+    Weekday,
+    WEEKDAYS,
+    WeeklyHoursDefinition
+} from '../interfaces/business-hours.interface';
+import { I18nService, MessageKey } from './i18n.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_LABELS: MessageKey[] = [
+    'businessHours.weekdays.sun',
+    'businessHours.weekdays.mon',
+    'businessHours.weekdays.tue',
+    'businessHours.weekdays.wed',
+    'businessHours.weekdays.thu',
+    'businessHours.weekdays.fri',
+    'businessHours.weekdays.sat'
+];
+
+/**
+ * Erro lançado quando o arquivo de horários é inválido
+ */
+export class BusinessHoursConfigError extends Error {
+    constructor(
+        readonly source: string,
+        readonly issues: string[]
+    ) {
+        super(`Horários de atendimento inválidos (${source}):\n` + issues.map(issue => `  - ${issue}`).join('\n'));
+        this.name = 'BusinessHoursConfigError';
+    }
+}
+
+/**
+ * Calendário do atendimento humano: horários semanais por fila, feriados
+ * nacionais e datas extras, no fuso configurado
+ */
+@Injectable()
+export class BusinessHoursService {
+    private readonly logger = new Logger(BusinessHoursService.name);
+    private readonly timeZone: string;
+    private readonly nationalHolidays: boolean;
+    private readonly holidays: string[];
+    private readonly handoffQueue?: string;
+    private readonly schedules = new Map<string, TimeRange[][]>();
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly i18n: I18nService
+    ) {
+        const filePath = this.configService.get<string>(
+            'CHATBOT_BUSINESS_HOURS_FILE',
+            join(__dirname, '..', 'schedule', 'business-hours.yaml')
+        );
+        const definition = this.load(filePath);
+
+        this.timeZone = definition.timezone || 'America/Sao_Paulo';
+        this.nationalHolidays = definition.nationalHolidays !== false;
+        this.holidays = definition.holidays || [];
+        this.handoffQueue = this.configService.get<string>('GOSAC_HANDOFF_QUEUE_ID') || undefined;
+
+        for (const [queue, weekly] of Object.entries(definition.schedules)) {
+            this.schedules.set(queue, WEEKDAYS.map(day =>
+                (weekly[day] || []).map(range => DateUtils.parseTimeRange(range)!)
+            ));
+        }
+
+        this.logger.log(`Horários de atendimento carregados de ${filePath} (${this.schedules.size} agenda(s))`);
+    }
+
+    /**
+     * Fuso horário do calendário
+     */
+    getTimeZone(): string {
+        return this.timeZone;
+    }
+
+    /**
+     * Fila que recebe as conversas transferidas para atendentes (GOSAC_HANDOFF_QUEUE_ID),
+     * cuja agenda vale para o atendimento humano
+     */
+    getHandoffQueue(): string | undefined {
+        return this.handoffQueue;
+    }
+
+    /**
+     * Verifica se a data é feriado (nacional ou configurado)
+     */
+    isHoliday(date: Date = new Date()): boolean {
+        return DateUtils.isHoliday(date, this.timeZone, this.holidays, this.nationalHolidays);
+    }
+
+    /**
+     * Verifica se o atendimento da fila (ou o padrão) está aberto no instante informado
+     */
+    isOpen(date: Date = new Date(), queue?: string): boolean {
+        if (this.isHoliday(date)) {
+            return false;
+        }
+
+        const { weekday, hour, minute } = DateUtils.getZonedParts(date, this.timeZone);
+        const now = hour * 60 + minute;
+
+        return this.getSchedule(queue)[weekday].some(range => now >= range.start && now < range.end);
+    }
+
+    /**
+     * Próximo instante em que o atendimento abre (o próprio instante se já estiver aberto),
+     * procurando nas próximas duas semanas
+     */
+    getNextOpening(date: Date = new Date(), queue?: string): Date | undefined {
+        if (this.isOpen(date, queue)) {
+            return date;
+        }
+
+        const schedule = this.getSchedule(queue);
+
+        for (let offset = 0; offset <= 14; offset++) {
+            const day = new Date(date.getTime() + offset * DAY_MS);
+            if (this.isHoliday(day)) continue;
+
+            const { weekday, hour, minute } = DateUtils.getZonedParts(day, this.timeZone);
+            const dayMinutes = hour * 60 + minute;
+            const opening = schedule[weekday]
+                .map(range => range.start)
+                .filter(start => offset > 0 || start > dayMinutes)
+                .sort((a, b) => a - b)[0];
+
+            if (opening !== undefined) {
+                // Mesmo horário de parede do dia analisado, deslocado até a abertura
+                return new Date(day.getTime() + (opening - dayMinutes) * 60 * 1000 - day.getSeconds() * 1000 - day.getMilliseconds());
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Descreve a próxima abertura no idioma informado, ex.: "terça-feira, 20/10 às 08:00"
+     */
+    describeNextOpening(date: Date = new Date(), queue?: string, locale?: string): string {
+        const opening = this.getNextOpening(date, queue);
+
+        if (!opening) {
+            return this.i18n.t('businessHours.soon', locale);
+        }
+        if (opening === date) {
+            return this.i18n.t('businessHours.now', locale);
+        }
+
+        const intlLocale = this.i18n.resolveLocale(locale);
+        return this.i18n.t('businessHours.nextOpening', locale, {
+            weekday: opening.toLocaleDateString(intlLocale, { timeZone: this.timeZone, weekday: 'long' }),
+            date: opening.toLocaleDateString(intlLocale, { timeZone: this.timeZone, day: '2-digit', month: '2-digit' }),
+            time: opening.toLocaleTimeString(intlLocale, { timeZone: this.timeZone, hour: '2-digit', minute: '2-digit' })
+        });
+    }
+
+    /**
+     * Descreve os horários semanais no idioma informado agrupando dias iguais,
+     * ex.: "Seg a Sex: 08:00 às 18:00"
+     */
+    describeWeeklyHours(queue?: string, locale?: string): string {
+        const schedule = this.getSchedule(queue);
+        const intlLocale = this.i18n.resolveLocale(locale);
+        // Horário de parede, sem fuso: formata os minutos do dia como um instante em UTC
+        const format = (minutes: number) => new Date(minutes * 60 * 1000)
+            .toLocaleTimeString(intlLocale, { timeZone: 'UTC', hour: '2-digit', minute: '2-digit' });
+        const describeDay = (weekday: number) => schedule[weekday]
+            .map(range => this.i18n.t('businessHours.timeRange', locale, { start: format(range.start), end: format(range.end) }))
+            .join(', ');
+        const label = (weekday: number) => this.i18n.t(WEEKDAY_LABELS[weekday], locale);
+
+        // Semana começando na segunda-feira
+        const order = [1, 2, 3, 4, 5, 6, 0];
+        const lines: string[] = [];
+
+        for (let index = 0; index < order.length;) {
+            const hours = describeDay(order[index]);
+            let last = index;
+
+            while (last + 1 < order.length && describeDay(order[last + 1]) === hours) {
+                last++;
+            }
+
+            if (hours) {
+                const days = last > index
+                    ? this.i18n.t('businessHours.dayRange', locale, { first: label(order[index]), last: label(order[last]) })
+                    : label(order[index]);
+                lines.push(`${days}: ${hours}`);
+            }
+
+            index = last + 1;
+        }
+
+        return lines.length > 0 ? lines.join('\n') : this.i18n.t('businessHours.noSchedule', locale);
+    }
+
+    private getSchedule(queue?: string): TimeRange[][] {
+        return (queue && this.schedules.get(queue)) || this.schedules.get('default')!;
+    }
+
+    /**
+     * Lê e valida o arquivo de horários
+     */
+    private load(filePath: string): BusinessHoursDefinition {
+        let raw: unknown;
+
+        try {
+            const content = readFileSync(filePath, 'utf8');
+            raw = extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+        } catch (error) {
+            throw new BusinessHoursConfigError(filePath, [`não foi possível ler o arquivo: ${(error as Error).message}`]);
+        }
+
+        if (!this.isObject(raw) || !this.isObject(raw.schedules)) {
+            throw new BusinessHoursConfigError(filePath, ['"schedules" deve ser um objeto']);
+        }
+
+        const issues: string[] = [];
+        const definition: BusinessHoursDefinition = { schedules: {} };
+
+        if (!raw.schedules.default) {
+            issues.push('agenda "default" ausente em "schedules"');
+        }
+
+        if (typeof raw.timezone === 'string') {
+            try {
+                new Intl.DateTimeFormat('pt-BR', { timeZone: raw.timezone });
+                definition.timezone = raw.timezone;
+            } catch {
+                issues.push(`fuso horário desconhecido "${raw.timezone}"`);
+            }
+        } else if (raw.timezone !== undefined) {
+            issues.push('"timezone" deve ser um texto (ex.: America/Sao_Paulo)');
+        }
+
+        if (raw.nationalHolidays !== undefined) {
+            if (typeof raw.nationalHolidays === 'boolean') {
+                definition.nationalHolidays = raw.nationalHolidays;
+            } else {
+                issues.push('"nationalHolidays" deve ser true ou false');
+            }
+        }
+
+        const holidays: unknown[] = Array.isArray(raw.holidays) ? raw.holidays : [];
+        definition.holidays = holidays.map(holiday => String(holiday));
+
+        for (const holiday of definition.holidays) {
+            if (!/^(\d{4}-)?\d{2}-\d{2}$/.test(holiday)) {
+                issues.push(`data extra inválida "${holiday}" (use AAAA-MM-DD ou MM-DD)`);
+            }
+        }
+
+        for (const [queue, weekly] of Object.entries(raw.schedules)) {
+            const schedule: WeeklyHoursDefinition = {};
+            definition.schedules[queue] = schedule;
+
+            for (const [day, ranges] of Object.entries(this.isObject(weekly) ? weekly : {})) {
+                if (!this.isWeekday(day)) {
+                    issues.push(`schedules.${queue}: dia desconhecido "${day}" (use ${WEEKDAYS.join(', ')})`);
+                } else if (!Array.isArray(ranges) || ranges.some(range => !DateUtils.parseTimeRange(String(range)))) {
+                    issues.push(`schedules.${queue}.${day}: use uma lista de intervalos "HH:MM-HH:MM"`);
+                } else {
+                    schedule[day] = ranges.map(range => String(range));
+                }
+            }
+        }
+
+        if (issues.length > 0) {
+            throw new BusinessHoursConfigError(filePath, issues);
+        }
+
+        return definition;
+    }
+
+    private isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    private isWeekday(day: string): day is Weekday {
+        return (WEEKDAYS as readonly string[]).includes(day);
+    }
+}
@@ -1,58 +1,160 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ConversationStateService } from './conversation-state.service';
 import { ValidationService } from './validation.service';
 import { FlowService } from './flow.service';
+import { UserMessageQueueService, UserQueueFullError } from './user-message-queue.service';
+import { MessageAggregatorService } from './message-aggregator.service';
+import { FlowActionError, FlowActionService } from './flow-action.service';
+import { I18nService } from './i18n.service';
+import { IntentService } from './intent.service';
 import {
     ChatbotResponse,
     ChatMessage,
-    ConversationState
+    ConversationState,
+    FlowIntent,
+    FlowStep,
+    InboundMedia,
+    MessageContext,
+    ResponseDelivery
 } from '../interfaces/conversation.interface';
 
 @Injectable()
-export class ChatbotService {
+export class ChatbotService implements OnModuleInit {
     private readonly logger = new Logger(ChatbotService.name);
-    private readonly DEBOUNCE_TIME = 2000; // 2 segundos
-    private readonly MAX_ATTEMPTS = 3;
+    private readonly DEBOUNCE_TIME: number;
+    private readonly MAX_ATTEMPTS: number;
+    private readonly MAX_ENTRY_REDIRECTS = 5;
+    private readonly HANDOFF_IDLE_TIMEOUT: number;
 
     constructor(
         private readonly conversationState: ConversationStateService,
         private readonly validation: ValidationService,
-        private readonly flow: FlowService
-    ) { }
+        private readonly flow: FlowService,
+        private readonly messageQueue: UserMessageQueueService,
+        private readonly aggregator: MessageAggregatorService,
+        private readonly flowActions: FlowActionService,
+        private readonly i18n: I18nService,
+        private readonly intents: IntentService,
+        private readonly configService: ConfigService
+    ) {
+        this.DEBOUNCE_TIME = Number(this.configService.get('CHATBOT_DEBOUNCE_TIME', 2000)); // 2 segundos
+        this.MAX_ATTEMPTS = Number(this.configService.get('CHATBOT_MAX_ATTEMPTS', 3));
+        this.HANDOFF_IDLE_TIMEOUT = Number(this.configService.get('CHATBOT_HANDOFF_IDLE_TIMEOUT', 30 * 60 * 1000)); // 30 minutos
+    }
+
+    onModuleInit(): void {
+        this.flowActions.register('setLocale', context => this.setLocale(context.userId, context.state));
+    }
+
+    /**
+     * Processa mensagem do usuário e retorna resposta. Mensagens do mesmo usuário
+     * são processadas uma de cada vez, na ordem de chegada. O contexto do canal
+     * (contato, ticket) fica disponível para as ações do fluxo; a mídia recebida
+     * (se houver) é conferida contra o que o passo espera
+     */
+    async processMessage(
+        userId: string,
+        message: string,
+        context?: MessageContext,
+        media?: InboundMedia
+    ): Promise<ChatbotResponse> {
+        try {
+            return await this.messageQueue.run(userId, () => this.handleMessage(userId, message, context, media));
+        } catch (error) {
+            if (error instanceof UserQueueFullError) {
+                return this.createSimpleResponse(this.i18n.t('conversation.queueFull', this.i18n.detectLocale(context)));
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Recebe mensagem de um canal assíncrono (webhook). No modo de agregação a
+     * mensagem fica no buffer e a resposta é entregue quando a janela fechar;
+     * caso contrário é processada e entregue imediatamente. Mídias não são
+     * agrupadas: o texto que estiver no buffer é processado antes delas
+     */
+    async submitMessage(
+        userId: string,
+        message: string,
+        deliver: ResponseDelivery,
+        context?: MessageContext,
+        media?: InboundMedia
+    ): Promise<'processed' | 'buffered'> {
+        if (this.aggregator.isEnabled()) {
+            if (!media) {
+                this.aggregator.add(userId, message, async combined => {
+                    await deliver(await this.processMessage(userId, combined, context));
+                });
+                return 'buffered';
+            }
+
+            await this.aggregator.flush(userId);
+        }
+
+        await deliver(await this.processMessage(userId, message, context, media));
+        return 'processed';
+    }
 
     /**
-     * Processa mensagem do usuário e retorna resposta
+     * Executa o processamento de uma mensagem (já serializado por usuário)
      */
-    async processMessage(userId: string, message: string): Promise<ChatbotResponse> {
+    private async handleMessage(
+        userId: string,
+        message: string,
+        context?: MessageContext,
+        media?: InboundMedia
+    ): Promise<ChatbotResponse> {
         try {
             // Sanitiza entrada
             const sanitizedMessage = this.validation.sanitizeInput(message);
 
-            // Registra mensagem recebida
-            this.addIncomingMessage(userId, sanitizedMessage);
+            // Registra mensagem recebida (mídias aparecem no histórico pelo tipo)
+            await this.addIncomingMessage(userId, media ? `[${media.type}] ${sanitizedMessage}`.trim() : sanitizedMessage);
 
-            // Verifica debounce
-            if (this.conversationState.shouldDebounce(userId, this.DEBOUNCE_TIME)) {
-                this.logger.debug(`Mensagem ignorada por debounce: usuário ${userId}`);
-                return this.createSimpleResponse('⏱️ Por favor, aguarde um momento antes de enviar outra mensagem.');
+            // Obtém estado da conversa, fixando a versão do fluxo em que ela começou
+            const state = await this.conversationState.getConversationState(userId);
+            if (!state.flowVersion) {
+                state.flowVersion = this.flow.getActiveVersion();
+                await this.conversationState.updateConversationState(userId, {
+                    flowVersion: this.flow.getActiveVersion()
+                });
+            }
+
+            if (context) {
+                state.context = { ...state.context, ...context };
+                await this.conversationState.updateConversationState(userId, { context: state.context });
             }
 
-            // Obtém estado da conversa
-            const state = this.conversationState.getConversationState(userId);
+            // O idioma é detectado pelo contato na primeira mensagem e mantido até ser trocado no menu
+            if (!state.locale) {
+                state.locale = this.i18n.detectLocale(state.context);
+                await this.conversationState.updateConversationState(userId, { locale: state.locale });
+            }
 
-            // Verifica palavras-chave de controle
-            const controlCheck = this.validation.isControlKeyword(sanitizedMessage);
+            // Conversa com atendente humano: o bot só responde quando retoma o controle
+            if (state.handoff) {
+                return await this.handleHandoffMessage(userId, state, context);
+            }
 
-            if (controlCheck.type === 'back') {
-                return this.handleBackCommand(userId, state);
+            // Verifica debounce (no modo de agregação as mensagens já chegam combinadas)
+            if (!this.aggregator.isEnabled() &&
+                await this.conversationState.shouldDebounce(userId, this.DEBOUNCE_TIME)) {
+                this.logger.debug(`Mensagem ignorada por debounce: usuário ${userId}`);
+                return this.createSimpleResponse(this.i18n.t('conversation.debounce', state.locale));
             }
 
-            if (controlCheck.type === 'restart') {
-                return this.handleRestartCommand(userId);
+            // Intenções globais (inclusive voltar e recomeçar) têm precedência sobre o passo atual
+            const currentStep = this.flow.getStep(state.currentStep, state.flowVersion);
+            const intent = media ? undefined : this.intents.match(sanitizedMessage, state, currentStep);
+
+            if (intent) {
+                return await this.handleIntent(userId, intent, sanitizedMessage, state);
             }
 
             // Processa mensagem normal
-            return this.processNormalMessage(userId, sanitizedMessage, state);
+            return await this.processNormalMessage(userId, sanitizedMessage, state, media);
 
         } catch (error) {
             this.logger.error(`Erro ao processar mensagem do usuário ${userId}:`, error);
@@ -66,13 +168,14 @@ export class ChatbotService {
     private async processNormalMessage(
         userId: string,
         message: string,
-        state: ConversationState
+        state: ConversationState,
+        media?: InboundMedia
     ): Promise<ChatbotResponse> {
-        const currentStep = this.flow.getStep(state.currentStep);
+        const currentStep = this.flow.getStep(state.currentStep, state.flowVersion);
 
         if (!currentStep) {
             this.logger.error(`Passo não encontrado: ${state.currentStep} para usuário ${userId}`);
-            this.conversationState.restartConversation(userId);
+            await this.conversationState.restartConversation(userId);
             return this.getWelcomeResponse(userId);
         }
 
@@ -81,25 +184,43 @@ export class ChatbotService {
         if (state.currentStep === 'welcome' && state.stepHistory.length === 0) {
             const isNumericOption = /^[1-9]\d*$/.test(message.trim());
             if (!isNumericOption) {
-                const response = this.flow.buildStepResponse(currentStep);
-                this.addOutgoingMessage(userId, response.message);
+                const response = this.flow.buildStepResponse(currentStep, state);
+                await this.addOutgoingMessage(userId, response.message);
                 return response;
             }
         }
 
+        // Passos que esperam mídia recusam texto e tipos não aceitos; os demais recusam mídia
+        if (currentStep.media || media) {
+            const requirement = this.flow.localize(currentStep, state.locale).media;
+            const validation = this.validation.validateMedia(media, requirement, state.locale);
+
+            if (!validation.isValid) {
+                return this.handleValidationError(userId, validation.errorMessage!, state.locale);
+            }
+        }
+
         // Valida entrada se há regras de validação
         if (currentStep.validation) {
-            const validation = this.validation.validateInput(message, currentStep.validation);
+            const rule = this.flow.localize(currentStep, state.locale).validation!;
+            const validation = this.validation.validateInput(message, rule, state.locale);
 
             if (!validation.isValid) {
-                return this.handleValidationError(userId, validation.errorMessage!);
+                return this.handleValidationError(userId, validation.errorMessage!, state.locale);
             }
         }
 
+        // Salva a resposta se o passo coleta dados
+        if (currentStep.collect) {
+            await this.collectAnswer(userId, currentStep, message, state, media);
+        }
+
         // Executa ação do passo se houver
         if (currentStep.action) {
             try {
                 await currentStep.action(message, state);
+                // O estado é uma cópia do armazenamento: persiste o que a ação alterou
+                await this.conversationState.updateConversationState(userId, { data: state.data });
             } catch (error) {
                 this.logger.error(`Erro ao executar ação do passo ${currentStep.id}:`, error);
                 return this.handleError(userId);
@@ -107,102 +228,280 @@ export class ChatbotService {
         }
 
         // Processa entrada e obtém próximo passo
-        const { nextStepId, response } = this.flow.processUserInput(message, state.currentStep, state);
+        const processed = this.flow.processUserInput(message, state.currentStep, state);
+        const nextStepId = processed.nextStepId;
+        let response = processed.response;
+
+        // Entrada ambígua: continua no passo atual aguardando a escolha
+        if (processed.ambiguous) {
+            await this.addOutgoingMessage(userId, response.message);
+            return response;
+        }
 
         // Se o próximo passo é validation_error, incrementa tentativas
         if (nextStepId === 'validation_error') {
-            const attempts = this.conversationState.incrementAttempts(userId);
+            const attempts = await this.conversationState.incrementAttempts(userId);
 
             if (attempts >= this.MAX_ATTEMPTS) {
                 this.logger.warn(`Usuário ${userId} excedeu máximo de tentativas (${attempts})`);
-                this.conversationState.restartConversation(userId);
-                return this.createSimpleResponse(
-                    `🚫 Muitas tentativas inválidas. Vamos recomeçar do início.\n\n${this.getWelcomeMessage()}`
-                );
+                await this.conversationState.restartConversation(userId);
+                return this.createSimpleResponse(this.buildTooManyAttemptsMessage(state.locale));
             }
 
             // Personaliza mensagem de erro baseado no número de tentativas
-            const errorMessage = this.buildValidationErrorMessage(attempts);
+            const errorMessage = this.buildValidationErrorMessage(attempts, state.locale);
             response.message = errorMessage;
         } else {
-            // Move para o próximo passo
-            this.conversationState.moveToStep(userId, nextStepId);
+            response = await this.goToStep(userId, nextStepId, message, state);
         }
 
         // Registra resposta
-        this.addOutgoingMessage(userId, response.message);
+        await this.addOutgoingMessage(userId, response.message);
+
+        return response;
+    }
+
+    /**
+     * Executa uma intenção global: um comando de controle, ou a ação da intenção
+     * seguida do passo de destino (sem destino, o passo atual é reexibido)
+     */
+    private async handleIntent(
+        userId: string,
+        intent: FlowIntent,
+        message: string,
+        state: ConversationState
+    ): Promise<ChatbotResponse> {
+        this.logger.debug(`Intenção "${intent.id}" reconhecida no passo ${state.currentStep} (usuário ${userId})`);
+
+        if (intent.command === 'back') {
+            return this.handleBackCommand(userId, state.locale);
+        }
+
+        if (intent.command === 'restart') {
+            return this.handleRestartCommand(userId, state.locale);
+        }
+
+        const currentStep = this.flow.getStep(state.currentStep, state.flowVersion)
+            || this.flow.getStep('welcome', state.flowVersion)!;
+
+        if (intent.action) {
+            try {
+                const data = await this.flowActions.execute(intent.action, { userId, input: message, state, step: currentStep });
+
+                if (data) {
+                    Object.assign(state.data, data);
+                    await this.conversationState.updateConversationState(userId, { data: state.data });
+                }
+            } catch (error) {
+                this.logger.error(`Erro na ação "${intent.action}" da intenção ${intent.id}:`, error);
+                return this.handleError(userId);
+            }
+        }
+
+        const response = intent.nextStep
+            ? await this.goToStep(userId, intent.nextStep, message, state)
+            : this.flow.buildStepResponse(currentStep, state);
 
+        await this.addOutgoingMessage(userId, response.message);
+        return response;
+    }
+
+    /**
+     * Entra no passo (condições e ação `onEnter`), move a conversa para o passo
+     * em que ela parou e monta a resposta dele
+     */
+    private async goToStep(userId: string, stepId: string, input: string, state: ConversationState): Promise<ChatbotResponse> {
+        const enteredStepId = await this.enterStep(userId, stepId, input, state);
+        const step = this.flow.getStep(enteredStepId, state.flowVersion)
+            || this.flow.getStep('welcome', state.flowVersion)!;
+
+        await this.conversationState.moveToStep(userId, step.id);
+
+        if (step.collect) {
+            await this.conversationState.updateConversationState(userId, { waitingFor: step.collect.field });
+        }
+
+        if (step.handoff) {
+            await this.conversationState.startHandoff(userId, state.context?.ticketId);
+        }
+
+        return this.flow.buildStepResponse(step, state);
+    }
+
+    /**
+     * Avalia as condições de entrada e executa a ação `onEnter` do passo (se houver),
+     * retornando o passo em que a conversa deve parar: o próprio passo, o destino de
+     * uma condição atendida ou o `onError` da ação
+     */
+    private async enterStep(userId: string, stepId: string, input: string, state: ConversationState): Promise<string> {
+        let currentId = stepId;
+
+        for (let redirect = 0; redirect <= this.MAX_ENTRY_REDIRECTS; redirect++) {
+            const step = this.flow.getStep(currentId, state.flowVersion);
+            if (!step) {
+                return currentId;
+            }
+
+            // Condições de entrada desviam a conversa antes de qualquer ação
+            const guardTarget = this.flow.resolveGuards(step, input, state);
+            if (guardTarget) {
+                currentId = guardTarget;
+                continue;
+            }
+
+            if (!step.onEnter) {
+                return currentId;
+            }
+
+            try {
+                const data = await this.flowActions.execute(step.onEnter.action, { userId, input, state, step });
+
+                if (data) {
+                    Object.assign(state.data, data);
+                    await this.conversationState.updateConversationState(userId, { data: state.data });
+                }
+                return currentId;
+            } catch (error) {
+                this.logger.error(`Erro na ação "${step.onEnter.action}" do passo ${step.id}:`, error);
+
+                if (error instanceof FlowActionError) {
+                    Object.assign(state.data, error.data);
+                    await this.conversationState.updateConversationState(userId, { data: state.data });
+                }
+                currentId = step.onEnter.onError || 'error';
+            }
+        }
+
+        this.logger.error(`Fluxo desviado mais de ${this.MAX_ENTRY_REDIRECTS} vezes ao entrar em ${stepId}`);
+        return 'error';
+    }
+
+    /**
+     * Normaliza e salva a resposta de um passo de coleta. Em passos com opções
+     * é salva a chave da opção escolhida e, em passos de mídia, a referência recebida
+     */
+    private async collectAnswer(
+        userId: string,
+        step: FlowStep,
+        message: string,
+        state: ConversationState,
+        media?: InboundMedia
+    ): Promise<void> {
+        const { field, normalizers } = step.collect!;
+        const value = step.media
+            ? media
+            : step.options?.length
+                ? this.flow.findOption(message, step, state)?.key
+                : this.validation.applyNormalizers(message, normalizers);
+
+        if (value === undefined) {
+            return;
+        }
+
+        state.data[field] = value;
+        await this.conversationState.addData(userId, field, value);
+    }
+
+    /**
+     * Mensagem recebida durante o atendimento humano. O bot retoma a conversa quando
+     * o ticket volta para `pending` ou após o período de inatividade configurado;
+     * caso contrário permanece em silêncio
+     */
+    private async handleHandoffMessage(
+        userId: string,
+        state: ConversationState,
+        context?: MessageContext
+    ): Promise<ChatbotResponse> {
+        const returnedToBot = context?.ticketStatus === 'pending';
+        const idle = Date.now() - state.handoff!.lastActivityAt >= this.HANDOFF_IDLE_TIMEOUT;
+
+        if (!returnedToBot && !idle) {
+            await this.conversationState.touchHandoff(userId);
+            this.logger.debug(`Mensagem do usuário ${userId} ignorada: conversa com atendente`);
+            return { message: '', silent: true };
+        }
+
+        this.logger.log(`Bot retomando a conversa do usuário ${userId} (${returnedToBot ? 'ticket devolvido' : 'inatividade'})`);
+        await this.conversationState.restartConversation(userId);
+
+        const response = await this.getWelcomeResponse(userId);
+        response.message = `${this.i18n.t('conversation.handoffEnded', state.locale)}\n\n${response.message}`;
+
+        await this.addOutgoingMessage(userId, response.message);
         return response;
     }
 
     /**
      * Manipula comando de voltar
      */
-    private handleBackCommand(userId: string, state: ConversationState): ChatbotResponse {
-        const canGoBack = this.conversationState.goBackToPreviousStep(userId);
+    private async handleBackCommand(userId: string, locale?: string): Promise<ChatbotResponse> {
+        const canGoBack = await this.conversationState.goBackToPreviousStep(userId);
 
         if (!canGoBack) {
-            return this.createSimpleResponse(
-                '⚠️ Não é possível voltar mais. Você já está no início.\n\nVamos continuar daqui:'
-            );
+            return this.createSimpleResponse(this.i18n.t('conversation.cannotGoBack', locale));
         }
 
-        const newState = this.conversationState.getConversationState(userId);
-        const currentStep = this.flow.getStep(newState.currentStep);
+        const newState = await this.conversationState.getConversationState(userId);
+        const currentStep = this.flow.getStep(newState.currentStep, newState.flowVersion);
 
         if (!currentStep) {
-            this.conversationState.restartConversation(userId);
+            await this.conversationState.restartConversation(userId);
             return this.getWelcomeResponse(userId);
         }
 
-        const response = this.flow.buildStepResponse(currentStep);
-        response.message = `⬅️ *Voltando...*\n\n${response.message}`;
+        const response = this.flow.buildStepResponse(currentStep, newState);
+        response.message = `${this.i18n.t('conversation.goingBack', locale)}\n\n${response.message}`;
 
-        this.addOutgoingMessage(userId, response.message);
+        await this.addOutgoingMessage(userId, response.message);
         return response;
     }
 
     /**
      * Manipula comando de reiniciar
      */
-    private handleRestartCommand(userId: string): ChatbotResponse {
-        this.conversationState.restartConversation(userId);
-        const response = this.getWelcomeResponse(userId);
-        response.message = `🔄 *Reiniciando conversa...*\n\n${response.message}`;
+    private async handleRestartCommand(userId: string, locale?: string): Promise<ChatbotResponse> {
+        await this.conversationState.restartConversation(userId);
+        const response = await this.getWelcomeResponse(userId);
+        response.message = `${this.i18n.t('conversation.restarting', locale)}\n\n${response.message}`;
 
-        this.addOutgoingMessage(userId, response.message);
+        await this.addOutgoingMessage(userId, response.message);
         return response;
     }
 
     /**
      * Manipula erro de validação
      */
-    private handleValidationError(userId: string, errorMessage: string): ChatbotResponse {
-        const attempts = this.conversationState.incrementAttempts(userId);
+    private async handleValidationError(userId: string, errorMessage: string, locale?: string): Promise<ChatbotResponse> {
+        const attempts = await this.conversationState.incrementAttempts(userId);
 
         if (attempts >= this.MAX_ATTEMPTS) {
-            this.conversationState.restartConversation(userId);
-            return this.createSimpleResponse(
-                `🚫 Muitas tentativas inválidas. Vamos recomeçar do início.\n\n${this.getWelcomeMessage()}`
-            );
+            await this.conversationState.restartConversation(userId);
+            return this.createSimpleResponse(this.buildTooManyAttemptsMessage(locale));
         }
 
-        const fullMessage = this.buildValidationErrorMessage(attempts, errorMessage);
-        this.addOutgoingMessage(userId, fullMessage);
+        const fullMessage = this.buildValidationErrorMessage(attempts, locale, errorMessage);
+        await this.addOutgoingMessage(userId, fullMessage);
 
         return this.createSimpleResponse(fullMessage);
     }
 
     /**
-     * Manipula erros gerais
+     * Manipula erros gerais. A conversa recomeça na mesma versão do fluxo em que
+     * estava fixada
      */
-    private handleError(userId: string): ChatbotResponse {
-        this.conversationState.restartConversation(userId);
-        const errorStep = this.flow.getStep('error');
+    private async handleError(userId: string): Promise<ChatbotResponse> {
+        const { flowVersion } = await this.conversationState.getConversationState(userId);
+        await this.conversationState.restartConversation(userId);
+        if (flowVersion) {
+            await this.conversationState.updateConversationState(userId, { flowVersion });
+        }
+
+        const errorStep = this.flow.getStep('error', flowVersion);
 
         if (errorStep) {
-            const response = this.flow.buildStepResponse(errorStep);
-            this.addOutgoingMessage(userId, response.message);
+            const state = await this.conversationState.getConversationState(userId);
+            const response = this.flow.buildStepResponse(errorStep, state);
+            await this.addOutgoingMessage(userId, response.message);
             return response;
         }
 
@@ -212,38 +511,56 @@ export class ChatbotService {
     /**
      * Obtém resposta de boas-vindas
      */
-    private getWelcomeResponse(userId: string): ChatbotResponse {
-        const welcomeStep = this.flow.getStep('welcome');
+    private async getWelcomeResponse(userId: string): Promise<ChatbotResponse> {
+        const state = await this.conversationState.getConversationState(userId);
+        const welcomeStep = this.flow.getStep('welcome', state.flowVersion);
         if (welcomeStep) {
-            const response = this.flow.buildStepResponse(welcomeStep);
-            this.addOutgoingMessage(userId, response.message);
+            const response = this.flow.buildStepResponse(welcomeStep, state);
+            await this.addOutgoingMessage(userId, response.message);
             return response;
         }
 
-        return this.createSimpleResponse(this.getWelcomeMessage());
+        return this.createSimpleResponse(this.i18n.t('conversation.welcome', state.locale));
     }
 
     /**
      * Constrói mensagem de erro de validação
      */
-    private buildValidationErrorMessage(attempts: number, customError?: string): string {
-        let message = customError || '❌ Opção inválida.';
+    private buildValidationErrorMessage(attempts: number, locale?: string, customError?: string): string {
+        const message = customError || this.i18n.t('validation.invalidOption', locale);
 
         if (attempts === 1) {
-            message += '\n\nPor favor, digite uma das opções listadas.';
-        } else if (attempts === 2) {
-            message += '\n\n⚠️ Atenção: Digite apenas o *número* da opção desejada.';
-        } else {
-            message += '\n\n🚨 Última tentativa! Use apenas os números das opções.';
+            return `${message}\n\n${this.i18n.t('validation.hints.first', locale)}`;
+        }
+        if (attempts === 2) {
+            return `${message}\n\n${this.i18n.t('validation.hints.second', locale)}`;
         }
+        return `${message}\n\n${this.i18n.t('validation.hints.last', locale)}`;
+    }
 
-        return message;
+    /**
+     * Mensagem exibida quando as tentativas se esgotam e a conversa recomeça
+     */
+    private buildTooManyAttemptsMessage(locale?: string): string {
+        return `${this.i18n.t('conversation.tooManyAttempts', locale)}\n\n${this.i18n.t('conversation.welcome', locale)}`;
+    }
+
+    /**
+     * Ação de fluxo `setLocale`: troca o idioma da conversa pelo escolhido em `data.locale`
+     */
+    private async setLocale(userId: string, state: ConversationState): Promise<Record<string, any>> {
+        const chosen: unknown = state.data.locale;
+        state.locale = this.i18n.resolveLocale(typeof chosen === 'string' ? chosen : undefined);
+        await this.conversationState.updateConversationState(userId, { locale: state.locale });
+
+        this.logger.debug(`Idioma da conversa do usuário ${userId} alterado para ${state.locale}`);
+        return { locale: state.locale };
     }
 
     /**
      * Adiciona mensagem recebida ao histórico
      */
-    private addIncomingMessage(userId: string, message: string): void {
+    private async addIncomingMessage(userId: string, message: string): Promise<void> {
         const chatMessage: ChatMessage = {
             userId,
             message,
@@ -251,15 +568,15 @@ export class ChatbotService {
             messageType: 'incoming'
         };
 
-        this.conversationState.addMessage(userId, chatMessage);
+        await this.conversationState.addMessage(userId, chatMessage);
     }
 
     /**
      * Adiciona mensagem enviada ao histórico
      */
-    private addOutgoingMessage(userId: string, message: string): void {
+    private async addOutgoingMessage(userId: string, message: string): Promise<void> {
         // Verifica se não é mensagem repetida
-        if (this.conversationState.isRepeatedMessage(userId, message)) {
+        if (await this.conversationState.isRepeatedMessage(userId, message)) {
             this.logger.debug(`Mensagem repetida evitada para usuário ${userId}`);
             return;
         }
@@ -271,7 +588,7 @@ export class ChatbotService {
             messageType: 'outgoing'
         };
 
-        this.conversationState.addMessage(userId, chatMessage);
+        await this.conversationState.addMessage(userId, chatMessage);
     }
 
     /**
@@ -281,28 +598,15 @@ export class ChatbotService {
         return { message };
     }
 
-    /**
-     * Obtém mensagem de boas-vindas padrão
-     */
-    private getWelcomeMessage(): string {
-        return `🤖 *Olá! Bem-vindo(a) ao Verador Bot!*
-
-Sou seu assistente virtual para gerenciamento de tickets e atendimento.
-
-*Como posso ajudá-lo hoje?*
-
-1. 🎫 Gerenciar Tickets
-2. 📊 Status do Sistema  
-3. ❓ Ajuda`;
-    }
-
     /**
      * Obtém estatísticas do chatbot
      */
-    getStatistics() {
+    async getStatistics() {
         return {
-            ...this.conversationState.getStats(),
+            ...(await this.conversationState.getStats()),
             totalSteps: this.flow.getAllSteps().size,
+            messageQueue: this.messageQueue.getMetrics(),
+            aggregationPending: this.aggregator.getPendingCount(),
             service: 'ChatbotService'
         };
     }
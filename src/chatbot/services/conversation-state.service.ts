@@ -1,41 +1,49 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConversationState, ChatMessage } from '../interfaces/conversation.interface';
+import { CONVERSATION_STORE } from '../interfaces/conversation-store.interface';
+import type { ConversationStore } from '../interfaces/conversation-store.interface';
+
+/**
+ * Id da conversa de um contato no canal (`gosac:123`, `telegram:456`); contatos
+ * de canais diferentes nunca compartilham conversa, mesmo com o mesmo id
+ */
+export function toConversationKey(channel: string, contactId: string): string {
+    return `${channel}:${contactId}`;
+}
 
 @Injectable()
-export class ConversationStateService {
+export class ConversationStateService implements OnModuleDestroy {
     private readonly logger = new Logger(ConversationStateService.name);
-    private readonly conversations = new Map<string, ConversationState>();
-    private readonly messageHistory = new Map<string, ChatMessage[]>();
     private readonly CONVERSATION_TIMEOUT = 30 * 60 * 1000; // 30 minutos
+    private readonly MAX_HISTORY = 50;
+
+    constructor(@Inject(CONVERSATION_STORE) private readonly store: ConversationStore) { }
 
-    constructor() {
-        // Limpeza automática de conversas expiradas a cada 5 minutos
-        setInterval(() => {
-            this.cleanupExpiredConversations();
-        }, 5 * 60 * 1000);
+    async onModuleDestroy(): Promise<void> {
+        await this.store.close();
     }
 
     /**
      * Obtém o estado da conversa para um usuário
      */
-    getConversationState(userId: string): ConversationState {
-        if (!this.conversations.has(userId)) {
-            this.initializeConversation(userId);
-        }
+    async getConversationState(userId: string): Promise<ConversationState> {
+        const stored = await this.store.get<ConversationState>(this.stateKey(userId));
+        const state = stored ? this.hydrateState(stored) : await this.initializeConversation(userId);
 
-        const state = this.conversations.get(userId)!;
+        // Cada acesso renova a expiração da conversa
         state.lastMessageTime = new Date();
+        await this.saveState(state);
         return state;
     }
 
     /**
      * Atualiza o estado da conversa
      */
-    updateConversationState(userId: string, updates: Partial<ConversationState>): void {
-        const state = this.getConversationState(userId);
+    async updateConversationState(userId: string, updates: Partial<ConversationState>): Promise<void> {
+        const state = await this.getConversationState(userId);
         Object.assign(state, updates);
         state.lastMessageTime = new Date();
-        this.conversations.set(userId, state);
+        await this.saveState(state);
 
         this.logger.debug(`Estado atualizado para usuário ${userId}: ${JSON.stringify(updates)}`);
     }
@@ -43,8 +51,8 @@ export class ConversationStateService {
     /**
      * Move para o próximo passo e atualiza o histórico
      */
-    moveToStep(userId: string, stepId: string): void {
-        const state = this.getConversationState(userId);
+    async moveToStep(userId: string, stepId: string): Promise<void> {
+        const state = await this.getConversationState(userId);
 
         if (state.currentStep !== stepId) {
             state.stepHistory.push(state.currentStep);
@@ -53,14 +61,14 @@ export class ConversationStateService {
             state.waitingFor = undefined;
         }
 
-        this.updateConversationState(userId, state);
+        await this.updateConversationState(userId, state);
     }
 
     /**
      * Volta para o passo anterior
      */
-    goBackToPreviousStep(userId: string): boolean {
-        const state = this.getConversationState(userId);
+    async goBackToPreviousStep(userId: string): Promise<boolean> {
+        const state = await this.getConversationState(userId);
 
         if (state.stepHistory.length > 0) {
             const previousStep = state.stepHistory.pop()!;
@@ -68,7 +76,7 @@ export class ConversationStateService {
             state.attempts = 0;
             state.waitingFor = undefined;
 
-            this.updateConversationState(userId, state);
+            await this.updateConversationState(userId, state);
             this.logger.debug(`Usuário ${userId} voltou para o passo: ${previousStep}`);
             return true;
         }
@@ -77,69 +85,96 @@ export class ConversationStateService {
     }
 
     /**
-     * Reinicia a conversa do início
+     * Reinicia a conversa do início, mantendo o idioma escolhido
      */
-    restartConversation(userId: string): void {
-        this.initializeConversation(userId);
+    async restartConversation(userId: string): Promise<void> {
+        const previous = await this.store.get<ConversationState>(this.stateKey(userId));
+        await this.initializeConversation(userId, previous?.locale);
+        await this.store.set(this.historyKey(userId), [], this.CONVERSATION_TIMEOUT);
         this.logger.debug(`Conversa reiniciada para usuário ${userId}`);
     }
 
+    /**
+     * Marca a conversa como transferida para atendimento humano
+     */
+    async startHandoff(userId: string, ticketId?: number): Promise<void> {
+        const now = Date.now();
+        await this.updateConversationState(userId, {
+            handoff: { startedAt: now, lastActivityAt: now, ...(ticketId && { ticketId }) }
+        });
+        this.logger.log(`Conversa do usuário ${userId} transferida para atendimento humano`);
+    }
+
+    /**
+     * Registra atividade do usuário durante o atendimento humano
+     */
+    async touchHandoff(userId: string): Promise<void> {
+        const state = await this.getConversationState(userId);
+        if (!state.handoff) return;
+
+        state.handoff.lastActivityAt = Date.now();
+        await this.saveState(state);
+    }
+
     /**
      * Incrementa tentativas de entrada inválida
      */
-    incrementAttempts(userId: string): number {
-        const state = this.getConversationState(userId);
+    async incrementAttempts(userId: string): Promise<number> {
+        const state = await this.getConversationState(userId);
         state.attempts += 1;
-        this.updateConversationState(userId, state);
+        await this.updateConversationState(userId, state);
         return state.attempts;
     }
 
     /**
      * Adiciona dados à conversa
      */
-    addData(userId: string, key: string, value: any): void {
-        const state = this.getConversationState(userId);
+    async addData(userId: string, key: string, value: any): Promise<void> {
+        const state = await this.getConversationState(userId);
         state.data[key] = value;
-        this.updateConversationState(userId, state);
+        await this.updateConversationState(userId, state);
     }
 
     /**
      * Obtém dados da conversa
      */
-    getData(userId: string, key?: string): any {
-        const state = this.getConversationState(userId);
+    async getData(userId: string, key?: string): Promise<any> {
+        const state = await this.getConversationState(userId);
         return key ? state.data[key] : state.data;
     }
 
     /**
      * Adiciona mensagem ao histórico
      */
-    addMessage(userId: string, message: ChatMessage): void {
-        if (!this.messageHistory.has(userId)) {
-            this.messageHistory.set(userId, []);
-        }
-
-        const history = this.messageHistory.get(userId)!;
+    async addMessage(userId: string, message: ChatMessage): Promise<void> {
+        const history = await this.getMessageHistory(userId);
         history.push(message);
 
         // Mantém apenas as últimas 50 mensagens
-        if (history.length > 50) {
-            history.splice(0, history.length - 50);
+        if (history.length > this.MAX_HISTORY) {
+            history.splice(0, history.length - this.MAX_HISTORY);
         }
+
+        await this.store.set(this.historyKey(userId), history, this.CONVERSATION_TIMEOUT);
     }
 
     /**
      * Obtém histórico de mensagens
      */
-    getMessageHistory(userId: string): ChatMessage[] {
-        return this.messageHistory.get(userId) || [];
+    async getMessageHistory(userId: string): Promise<ChatMessage[]> {
+        const history = await this.store.get<ChatMessage[]>(this.historyKey(userId));
+
+        return (history || []).map(message => ({
+            ...message,
+            timestamp: new Date(message.timestamp)
+        }));
     }
 
     /**
      * Verifica se o usuário enviou a última mensagem recentemente (debounce)
      */
-    shouldDebounce(userId: string, debounceMs: number = 2000): boolean {
-        const history = this.getMessageHistory(userId);
+    async shouldDebounce(userId: string, debounceMs: number = 2000): Promise<boolean> {
+        const history = await this.getMessageHistory(userId);
         const incomingMessages = history.filter(msg => msg.messageType === 'incoming');
 
         // Se não há mensagens ou só há uma mensagem, não faz debounce
@@ -157,8 +192,8 @@ export class ConversationStateService {
     /**
      * Verifica se a última mensagem foi repetida
      */
-    isRepeatedMessage(userId: string, message: string): boolean {
-        const history = this.getMessageHistory(userId);
+    async isRepeatedMessage(userId: string, message: string): Promise<boolean> {
+        const history = await this.getMessageHistory(userId);
         const outgoingMessages = history
             .filter(msg => msg.messageType === 'outgoing')
             .slice(-2); // Últimas 2 mensagens enviadas
@@ -169,29 +204,26 @@ export class ConversationStateService {
     }
 
     /**
-     * Limpa conversas expiradas
+     * Conta conversas ativas por versão de fluxo fixada
      */
-    private cleanupExpiredConversations(): void {
-        const now = Date.now();
-        let cleanedCount = 0;
-
-        for (const [userId, state] of this.conversations.entries()) {
-            if (now - state.lastMessageTime.getTime() > this.CONVERSATION_TIMEOUT) {
-                this.conversations.delete(userId);
-                this.messageHistory.delete(userId);
-                cleanedCount++;
-            }
-        }
+    async getFlowVersionUsage(): Promise<Record<string, number>> {
+        const usage: Record<string, number> = {};
 
-        if (cleanedCount > 0) {
-            this.logger.debug(`Limpeza automática: ${cleanedCount} conversas expiradas removidas`);
+        for (const key of await this.store.keys('conversation:')) {
+            const state = await this.store.get<ConversationState>(key);
+            if (!state) continue;
+
+            const version = state.flowVersion || 'unpinned';
+            usage[version] = (usage[version] || 0) + 1;
         }
+
+        return usage;
     }
 
     /**
      * Inicializa uma nova conversa
      */
-    private initializeConversation(userId: string): void {
+    private async initializeConversation(userId: string, locale?: string): Promise<ConversationState> {
         const state: ConversationState = {
             userId,
             currentStep: 'welcome',
@@ -199,20 +231,51 @@ export class ConversationStateService {
             lastMessageTime: new Date(),
             isActive: true,
             data: {},
-            attempts: 0
+            attempts: 0,
+            ...(locale && { locale })
+        };
+
+        await this.saveState(state);
+        return state;
+    }
+
+    /**
+     * Grava o estado; conversas sem atividade expiram pelo TTL do armazenamento
+     */
+    private async saveState(state: ConversationState): Promise<void> {
+        await this.store.set(this.stateKey(state.userId), state, this.CONVERSATION_TIMEOUT);
+    }
+
+    /**
+     * Restaura tipos perdidos na serialização
+     */
+    private hydrateState(stored: ConversationState): ConversationState {
+        return {
+            ...stored,
+            lastMessageTime: new Date(stored.lastMessageTime)
         };
+    }
+
+    private stateKey(userId: string): string {
+        return `conversation:${userId}`;
+    }
 
-        this.conversations.set(userId, state);
-        this.messageHistory.set(userId, []);
+    private historyKey(userId: string): string {
+        return `history:${userId}`;
     }
 
     /**
      * Obtém estatísticas das conversas ativas
      */
-    getStats() {
+    async getStats() {
+        const [conversations, histories] = await Promise.all([
+            this.store.keys('conversation:'),
+            this.store.keys('history:')
+        ]);
+
         return {
-            activeConversations: this.conversations.size,
-            totalUsers: this.messageHistory.size,
+            activeConversations: conversations.length,
+            totalUsers: histories.length,
             timestamp: new Date()
         };
     }
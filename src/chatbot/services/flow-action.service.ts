@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FlowActionContext, FlowActionHandler } from '../interfaces/conversation.interface';
+
+/**
+ * Falha de uma ação de fluxo que carrega dados para o passo de erro
+ * (por exemplo, uma mensagem amigável a ser exibida com `{{campo}}`)
+ */
+export class FlowActionError extends Error {
+    constructor(
+        message: string,
+        readonly data: Record<string, any> = {}
+    ) {
+        super(message);
+        this.name = 'FlowActionError';
+    }
+}
+
+/**
+ * Registro de ações nomeadas que os passos do fluxo podem executar ao serem
+ * acessados (`onEnter`). Outros módulos registram suas ações na inicialização.
+ */
+@Injectable()
+export class FlowActionService {
+    private readonly logger = new Logger(FlowActionService.name);
+    private readonly actions = new Map<string, FlowActionHandler>();
+
+    /**
+     * Registra uma ação; registrar o mesmo nome novamente substitui a anterior
+     */
+    register(name: string, handler: FlowActionHandler): void {
+        if (this.actions.has(name)) {
+            this.logger.warn(`Ação de fluxo "${name}" substituída`);
+        }
+
+        this.actions.set(name, handler);
+        this.logger.log(`Ação de fluxo registrada: ${name}`);
+    }
+
+    /**
+     * Verifica se existe uma ação com o nome informado
+     */
+    has(name: string): boolean {
+        return this.actions.has(name);
+    }
+
+    /**
+     * Lista os nomes das ações registradas
+     */
+    list(): string[] {
+        return [...this.actions.keys()];
+    }
+
+    /**
+     * Executa a ação e retorna os dados que devem ser mesclados na conversa
+     */
+    async execute(name: string, context: FlowActionContext): Promise<Record<string, any> | void> {
+        const handler = this.actions.get(name);
+
+        if (!handler) {
+            throw new Error(`Ação de fluxo não registrada: ${name}`);
+        }
+
+        return handler(context);
+    }
+}
@@ -0,0 +1,765 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ValidationUtils } from '../../common/utils';
+import { TemplateEngine } from '../../common/template-engine';
+import { INPUT_NORMALIZERS } from './validation.service';
+import { CONTROL_KEYWORDS } from './i18n.service';
+import { FlowIntent, FlowStep, MediaType, ValidationRule } from '../interfaces/conversation.interface';
+import {
+    FlowDefinition,
+    FlowIntentDefinition,
+    FlowStepDefinition,
+    FlowValidationIssue,
+    ValidationRuleDefinition
+} from '../interfaces/flow-definition.interface';
+
+/**
+ * Passos dos quais o motor de conversa depende diretamente
+ */
+export const RESERVED_STEPS = ['welcome', 'validation_error', 'error'];
+
+const VALIDATION_TYPES = ['number', 'text', 'email', 'phone', 'option', 'custom'];
+
+const MEDIA_TYPES: MediaType[] = ['image', 'video', 'audio', 'document', 'sticker', 'location'];
+
+const ATTACHMENT_TYPES = ['image', 'video', 'audio', 'document'];
+
+/**
+ * Variáveis de sistema disponíveis em condições e mensagens; as de horário
+ * aceitam uma fila como sufixo (ex.: `$businessHours.3`)
+ */
+export const SYSTEM_VARIABLE_PATTERN = /^\$(input|now|businessHours|nextOpening|openingHours)(\.[\w-]+)?$/;
+
+/**
+ * Validadores nomeados disponíveis para regras do tipo `custom`
+ */
+const NAMED_VALIDATORS: Record<string, (value: string) => boolean> = {
+    cpf: (value) => ValidationUtils.isValidCPF(value),
+    cnpj: (value) => ValidationUtils.isValidCNPJ(value),
+    brazilianPhone: (value) => ValidationUtils.isValidBrazilianPhone(value)
+};
+
+/**
+ * Erro lançado quando uma definição de fluxo é inválida
+ */
+export class FlowDefinitionError extends Error {
+    constructor(
+        readonly source: string,
+        readonly issues: FlowValidationIssue[]
+    ) {
+        super(
+            `Definição de fluxo inválida (${source}):\n` +
+            issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')
+        );
+        this.name = 'FlowDefinitionError';
+    }
+}
+
+@Injectable()
+export class FlowLoaderService {
+    private readonly logger = new Logger(FlowLoaderService.name);
+
+    constructor(private readonly configService: ConfigService) { }
+
+    /**
+     * Caminho do arquivo de fluxo configurado
+     */
+    getFlowFilePath(): string {
+        return this.configService.get<string>(
+            'CHATBOT_FLOW_FILE',
+            join(__dirname, '..', 'flow', 'default.flow.yaml')
+        );
+    }
+
+    /**
+     * Carrega e valida o fluxo configurado
+     */
+    loadConfiguredFlow(): FlowDefinition {
+        return this.loadFromFile(this.getFlowFilePath());
+    }
+
+    /**
+     * Carrega e valida uma definição de fluxo a partir de arquivo JSON ou YAML
+     */
+    loadFromFile(filePath: string): FlowDefinition {
+        let raw: unknown;
+
+        try {
+            const content = readFileSync(filePath, 'utf8');
+            raw = extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+        } catch (error) {
+            throw new FlowDefinitionError(filePath, [
+                { path: '$', message: `não foi possível ler o arquivo: ${error.message}` }
+            ]);
+        }
+
+        const definition = this.parse(raw, filePath);
+        this.logger.log(`Fluxo ${definition.id}@${definition.version} carregado de ${filePath}`);
+        return definition;
+    }
+
+    /**
+     * Valida um objeto já desserializado e o retorna tipado
+     */
+    parse(raw: unknown, source: string = 'inline'): FlowDefinition {
+        const issues = this.validate(raw);
+
+        if (issues.length > 0) {
+            throw new FlowDefinitionError(source, issues);
+        }
+
+        return raw as FlowDefinition;
+    }
+
+    /**
+     * Valida estrutura, referências entre passos e alcançabilidade
+     */
+    validate(raw: unknown): FlowValidationIssue[] {
+        const issues: FlowValidationIssue[] = [];
+
+        if (!this.isObject(raw)) {
+            return [{ path: '$', message: 'a definição deve ser um objeto' }];
+        }
+
+        this.requireString(raw, 'id', '$', issues);
+        this.requireString(raw, 'version', '$', issues);
+
+        if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+            issues.push({ path: '$.steps', message: 'deve ser uma lista não vazia de passos' });
+            return issues;
+        }
+
+        const stepIds = new Set<string>();
+        const intentIds = this.validateIntents(raw.intents, issues);
+
+        raw.steps.forEach((step: unknown, index: number) => {
+            const path = `$.steps[${index}]`;
+
+            if (!this.isObject(step)) {
+                issues.push({ path, message: 'o passo deve ser um objeto' });
+                return;
+            }
+
+            if (typeof step.id === 'string' && step.id !== '') {
+                if (stepIds.has(step.id)) {
+                    issues.push({ path: `${path}.id`, message: `id duplicado "${step.id}"` });
+                }
+                stepIds.add(step.id);
+            }
+
+            this.validateStep(step, path, intentIds, issues);
+        });
+
+        for (const reserved of RESERVED_STEPS) {
+            if (!stepIds.has(reserved)) {
+                issues.push({ path: '$.steps', message: `passo obrigatório "${reserved}" ausente` });
+            }
+        }
+
+        // Só verifica o grafo se a estrutura está íntegra
+        if (issues.length === 0) {
+            this.validateGraph(raw.steps as FlowStepDefinition[], (raw.intents || []) as FlowIntentDefinition[], issues);
+        }
+
+        return issues;
+    }
+
+    /**
+     * Converte a definição em passos executáveis pelo FlowService
+     */
+    compile(definition: FlowDefinition): FlowStep[] {
+        return definition.steps.map(step => ({
+            id: step.id,
+            name: step.name,
+            message: step.message,
+            ...(step.options && {
+                options: step.options.map(option => ({ ...option, ...(option.synonyms && { synonyms: [...option.synonyms] }) }))
+            }),
+            ...(step.validation && { validation: this.compileValidation(step.validation) }),
+            ...(step.media && { media: { ...step.media, accept: [...step.media.accept] } }),
+            ...(step.attachments && { attachments: step.attachments.map(attachment => ({ ...attachment })) }),
+            ...(step.collect && { collect: { ...step.collect } }),
+            ...(step.guards && { guards: step.guards.map(guard => ({ ...guard })) }),
+            ...(step.onEnter && { onEnter: { ...step.onEnter } }),
+            ...(step.handoff !== undefined && { handoff: step.handoff }),
+            ...(step.nextStep !== undefined && { nextStep: step.nextStep }),
+            ...(step.allowBack !== undefined && { allowBack: step.allowBack }),
+            ...(step.allowRestart !== undefined && { allowRestart: step.allowRestart }),
+            ...(step.disableIntents !== undefined && {
+                disableIntents: Array.isArray(step.disableIntents) ? [...step.disableIntents] : step.disableIntents
+            }),
+            ...(step.translations && { translations: structuredClone(step.translations) })
+        }));
+    }
+
+    /**
+     * Converte as intenções globais da definição, compilando as expressões
+     */
+    compileIntents(definition: FlowDefinition): FlowIntent[] {
+        return (definition.intents || []).map(({ patterns, ...intent }) => ({
+            ...intent,
+            ...(intent.keywords && { keywords: [...intent.keywords] }),
+            ...(patterns && { patterns: patterns.map(pattern => new RegExp(pattern, 'i')) })
+        }));
+    }
+
+    /**
+     * Lista os ids de passos referenciados por um passo
+     */
+    getReferencedSteps(step: FlowStepDefinition): string[] {
+        const references = (step.options || []).map(option => option.nextStep);
+
+        if (typeof step.nextStep === 'string') {
+            references.push(step.nextStep);
+        } else if (step.nextStep?.type === 'previous') {
+            references.push(step.nextStep.fallback);
+        } else if (step.nextStep?.type === 'conditional') {
+            references.push(...step.nextStep.conditions.map(condition => condition.nextStep));
+            references.push(step.nextStep.default);
+        }
+
+        if (step.onEnter?.onError) {
+            references.push(step.onEnter.onError);
+        }
+
+        references.push(...(step.guards || []).map(guard => guard.nextStep));
+
+        return references;
+    }
+
+    /**
+     * Lista as ações nomeadas usadas pela definição que não estão entre as conhecidas
+     */
+    findUnknownActions(definition: FlowDefinition, knownActions: string[]): FlowValidationIssue[] {
+        const issues: FlowValidationIssue[] = [];
+
+        definition.steps.forEach((step, index) => {
+            if (step.onEnter && !knownActions.includes(step.onEnter.action)) {
+                issues.push({
+                    path: `$.steps[${index}].onEnter.action`,
+                    message: `ação desconhecida "${step.onEnter.action}"; registradas: ${knownActions.join(', ') || 'nenhuma'}`
+                });
+            }
+        });
+
+        (definition.intents || []).forEach((intent, index) => {
+            if (intent.action && !knownActions.includes(intent.action)) {
+                issues.push({
+                    path: `$.intents[${index}].action`,
+                    message: `ação desconhecida "${intent.action}"; registradas: ${knownActions.join(', ') || 'nenhuma'}`
+                });
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Lista as traduções de passos em idiomas que não estão entre os disponíveis
+     */
+    findUnknownLocales(definition: FlowDefinition, knownLocales: string[]): FlowValidationIssue[] {
+        const issues: FlowValidationIssue[] = [];
+
+        definition.steps.forEach((step, index) => {
+            for (const locale of Object.keys(step.translations || {})) {
+                if (!knownLocales.includes(locale)) {
+                    issues.push({
+                        path: `$.steps[${index}].translations.${locale}`,
+                        message: `idioma desconhecido "${locale}"; disponíveis: ${knownLocales.join(', ')}`
+                    });
+                }
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Lista os passos sem tradução para cada um dos idiomas informados
+     */
+    findMissingTranslations(definition: FlowDefinition, locales: string[]): FlowValidationIssue[] {
+        const issues: FlowValidationIssue[] = [];
+
+        definition.steps.forEach((step, index) => {
+            const missing = locales.filter(locale => !step.translations?.[locale]);
+
+            if (missing.length > 0) {
+                issues.push({
+                    path: `$.steps[${index}].translations`,
+                    message: `passo "${step.id}" sem tradução para ${missing.join(', ')}`
+                });
+            }
+        });
+
+        return issues;
+    }
+
+    private validateStep(step: Record<string, any>, path: string, intentIds: string[], issues: FlowValidationIssue[]): void {
+        this.requireString(step, 'id', path, issues);
+        this.requireString(step, 'name', path, issues);
+        this.requireString(step, 'message', path, issues);
+        this.validateTemplate(step.message, `${path}.message`, issues);
+
+        for (const flag of ['allowBack', 'allowRestart', 'handoff']) {
+            if (step[flag] !== undefined && typeof step[flag] !== 'boolean') {
+                issues.push({ path: `${path}.${flag}`, message: 'deve ser booleano' });
+            }
+        }
+
+        if (step.options !== undefined) {
+            if (!Array.isArray(step.options) || step.options.length === 0) {
+                issues.push({ path: `${path}.options`, message: 'deve ser uma lista não vazia' });
+            } else {
+                step.options.forEach((option: unknown, index: number) => {
+                    const optionPath = `${path}.options[${index}]`;
+                    if (!this.isObject(option)) {
+                        issues.push({ path: optionPath, message: 'a opção deve ser um objeto' });
+                        return;
+                    }
+                    this.requireString(option, 'key', optionPath, issues);
+                    this.requireString(option, 'text', optionPath, issues);
+                    this.validateTemplate(option.text, `${optionPath}.text`, issues);
+                    this.requireString(option, 'nextStep', optionPath, issues);
+                    if (option.synonyms !== undefined && (!Array.isArray(option.synonyms) ||
+                        option.synonyms.some((synonym: unknown) => typeof synonym !== 'string' || synonym.trim() === ''))) {
+                        issues.push({ path: `${optionPath}.synonyms`, message: 'deve ser uma lista de strings não vazias' });
+                    }
+                });
+            }
+        }
+
+        if (step.nextStep !== undefined) {
+            this.validateTransition(step.nextStep, `${path}.nextStep`, issues);
+        } else if (step.options === undefined) {
+            issues.push({ path, message: 'o passo precisa de "options" ou "nextStep"' });
+        }
+
+        if (step.validation !== undefined) {
+            this.validateRule(step.validation, `${path}.validation`, issues);
+        }
+
+        if (step.media !== undefined) {
+            this.validateMedia(step.media, `${path}.media`, issues);
+            if (step.validation !== undefined) {
+                issues.push({ path, message: 'use "media" ou "validation", não os dois' });
+            }
+        }
+
+        if (step.attachments !== undefined) {
+            this.validateAttachments(step.attachments, `${path}.attachments`, issues);
+        }
+
+        if (step.collect !== undefined) {
+            this.validateCollect(step.collect, `${path}.collect`, issues);
+        }
+
+        if (step.guards !== undefined) {
+            this.validateConditions(step.guards, `${path}.guards`, issues);
+        }
+
+        if (step.onEnter !== undefined) {
+            if (!this.isObject(step.onEnter)) {
+                issues.push({ path: `${path}.onEnter`, message: 'deve ser um objeto' });
+            } else {
+                this.requireString(step.onEnter, 'action', `${path}.onEnter`, issues);
+                if (step.onEnter.onError !== undefined) {
+                    this.requireString(step.onEnter, 'onError', `${path}.onEnter`, issues);
+                }
+            }
+        }
+
+        if (step.disableIntents !== undefined && typeof step.disableIntents !== 'boolean') {
+            if (!Array.isArray(step.disableIntents)) {
+                issues.push({ path: `${path}.disableIntents`, message: 'deve ser booleano ou uma lista de ids de intenções' });
+            } else {
+                step.disableIntents.forEach((id: unknown, index: number) => {
+                    if (!intentIds.includes(id as string) && !(CONTROL_KEYWORDS as unknown[]).includes(id)) {
+                        issues.push({ path: `${path}.disableIntents[${index}]`, message: `intenção desconhecida "${String(id)}"` });
+                    }
+                });
+            }
+        }
+
+        if (step.translations !== undefined) {
+            this.validateTranslations(step, `${path}.translations`, issues);
+        }
+    }
+
+    /**
+     * Valida as intenções globais e retorna seus ids. Os ids dos comandos de
+     * controle são reservados; um fluxo que queira outras palavras para eles
+     * declara uma intenção própria com `command`
+     */
+    private validateIntents(intents: unknown, issues: FlowValidationIssue[]): string[] {
+        const ids: string[] = [];
+
+        if (intents === undefined) {
+            return ids;
+        }
+
+        if (!Array.isArray(intents)) {
+            issues.push({ path: '$.intents', message: 'deve ser uma lista' });
+            return ids;
+        }
+
+        intents.forEach((intent: unknown, index: number) => {
+            const path = `$.intents[${index}]`;
+
+            if (!this.isObject(intent)) {
+                issues.push({ path, message: 'a intenção deve ser um objeto' });
+                return;
+            }
+
+            this.requireString(intent, 'id', path, issues);
+            if (typeof intent.id === 'string' && intent.id !== '') {
+                if ((CONTROL_KEYWORDS as string[]).includes(intent.id)) {
+                    issues.push({ path: `${path}.id`, message: `id reservado "${intent.id}"` });
+                } else if (ids.includes(intent.id)) {
+                    issues.push({ path: `${path}.id`, message: `id duplicado "${intent.id}"` });
+                }
+                ids.push(intent.id);
+            }
+
+            if (intent.keywords !== undefined && (!Array.isArray(intent.keywords) ||
+                intent.keywords.some((keyword: unknown) => typeof keyword !== 'string' || keyword.trim() === ''))) {
+                issues.push({ path: `${path}.keywords`, message: 'deve ser uma lista de strings não vazias' });
+            }
+
+            if (intent.patterns !== undefined) {
+                if (!Array.isArray(intent.patterns)) {
+                    issues.push({ path: `${path}.patterns`, message: 'deve ser uma lista' });
+                } else {
+                    intent.patterns.forEach((pattern: unknown, patternIndex: number) =>
+                        this.requireRegExp(pattern, `${path}.patterns[${patternIndex}]`, issues));
+                }
+            }
+
+            if (!intent.keywords?.length && !intent.patterns?.length) {
+                issues.push({ path, message: 'a intenção precisa de "keywords" ou "patterns"' });
+            }
+
+            for (const field of ['nextStep', 'action']) {
+                if (intent[field] !== undefined) {
+                    this.requireString(intent, field, path, issues);
+                }
+            }
+
+            if (intent.command !== undefined) {
+                if (!(CONTROL_KEYWORDS as unknown[]).includes(intent.command)) {
+                    issues.push({ path: `${path}.command`, message: `deve ser um de: ${CONTROL_KEYWORDS.join(', ')}` });
+                }
+                if (intent.nextStep !== undefined || intent.action !== undefined) {
+                    issues.push({ path, message: '"command" não pode ser combinado com "nextStep" ou "action"' });
+                }
+            } else if (intent.nextStep === undefined && intent.action === undefined) {
+                issues.push({ path, message: 'a intenção precisa de "nextStep", "command" ou "action"' });
+            }
+
+            if (intent.priority !== undefined && !Number.isInteger(intent.priority)) {
+                issues.push({ path: `${path}.priority`, message: 'deve ser um inteiro' });
+            }
+        });
+
+        return ids;
+    }
+
+    /**
+     * Traduções aceitam `message`, `errorMessage` e textos de opções existentes no passo
+     */
+    private validateTranslations(step: Record<string, any>, path: string, issues: FlowValidationIssue[]): void {
+        if (!this.isObject(step.translations)) {
+            issues.push({ path, message: 'deve ser um objeto indexado pelo idioma' });
+            return;
+        }
+
+        const optionKeys = Array.isArray(step.options) ? step.options.map((option: any) => option?.key) : [];
+
+        for (const [locale, translation] of Object.entries(step.translations)) {
+            const localePath = `${path}.${locale}`;
+
+            if (!this.isObject(translation)) {
+                issues.push({ path: localePath, message: 'deve ser um objeto' });
+                continue;
+            }
+
+            for (const field of ['message', 'errorMessage']) {
+                if (translation[field] !== undefined) {
+                    this.requireString(translation, field, localePath, issues);
+                }
+            }
+            this.validateTemplate(translation.message, `${localePath}.message`, issues);
+
+            if (translation.options === undefined) continue;
+
+            if (!this.isObject(translation.options)) {
+                issues.push({ path: `${localePath}.options`, message: 'deve ser um objeto indexado pela key da opção' });
+                continue;
+            }
+
+            for (const [key, text] of Object.entries(translation.options)) {
+                if (!optionKeys.includes(key)) {
+                    issues.push({ path: `${localePath}.options.${key}`, message: `opção "${key}" não existe no passo` });
+                } else if (typeof text !== 'string' || text === '') {
+                    issues.push({ path: `${localePath}.options.${key}`, message: 'deve ser uma string não vazia' });
+                } else {
+                    this.validateTemplate(text, `${localePath}.options.${key}`, issues);
+                }
+            }
+        }
+    }
+
+    /**
+     * Verifica a sintaxe do template e se as variáveis de sistema usadas existem
+     */
+    private validateTemplate(template: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (typeof template !== 'string') return;
+
+        const { issues: templateIssues, variables } = TemplateEngine.validate(template);
+
+        issues.push(...templateIssues.map(message => ({ path, message })));
+
+        for (const variable of variables) {
+            if (variable.startsWith('$') && !SYSTEM_VARIABLE_PATTERN.test(variable)) {
+                issues.push({ path, message: `variável de sistema desconhecida "${variable}"` });
+            }
+        }
+    }
+
+    private validateMedia(media: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (!this.isObject(media)) {
+            issues.push({ path, message: 'deve ser um objeto' });
+            return;
+        }
+
+        if (!Array.isArray(media.accept) || media.accept.length === 0 ||
+            media.accept.some((type: unknown) => !(MEDIA_TYPES as unknown[]).includes(type))) {
+            issues.push({ path: `${path}.accept`, message: `deve ser uma lista não vazia com: ${MEDIA_TYPES.join(', ')}` });
+        }
+
+        if (media.errorMessage !== undefined) {
+            this.requireString(media, 'errorMessage', path, issues);
+            this.validateTemplate(media.errorMessage, `${path}.errorMessage`, issues);
+        }
+    }
+
+    /**
+     * Anexos precisam de tipo e URL; URL e legenda aceitam templates
+     */
+    private validateAttachments(attachments: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (!Array.isArray(attachments) || attachments.length === 0) {
+            issues.push({ path, message: 'deve ser uma lista não vazia' });
+            return;
+        }
+
+        attachments.forEach((attachment: unknown, index: number) => {
+            const attachmentPath = `${path}[${index}]`;
+
+            if (!this.isObject(attachment)) {
+                issues.push({ path: attachmentPath, message: 'o anexo deve ser um objeto' });
+                return;
+            }
+
+            if (!ATTACHMENT_TYPES.includes(String(attachment.type))) {
+                issues.push({ path: `${attachmentPath}.type`, message: `deve ser um de: ${ATTACHMENT_TYPES.join(', ')}` });
+            }
+
+            this.requireString(attachment, 'url', attachmentPath, issues);
+            this.validateTemplate(attachment.url, `${attachmentPath}.url`, issues);
+
+            for (const field of ['filename', 'caption']) {
+                if (attachment[field] !== undefined) {
+                    this.requireString(attachment, field, attachmentPath, issues);
+                }
+            }
+            this.validateTemplate(attachment.caption, `${attachmentPath}.caption`, issues);
+        });
+    }
+
+    private validateCollect(collect: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (!this.isObject(collect)) {
+            issues.push({ path, message: 'deve ser um objeto' });
+            return;
+        }
+
+        this.requireString(collect, 'field', path, issues);
+
+        if (collect.normalizers === undefined) {
+            return;
+        }
+
+        if (!Array.isArray(collect.normalizers)) {
+            issues.push({ path: `${path}.normalizers`, message: 'deve ser uma lista' });
+            return;
+        }
+
+        collect.normalizers.forEach((normalizer: unknown, index: number) => {
+            if (typeof normalizer !== 'string' || !(normalizer in INPUT_NORMALIZERS)) {
+                issues.push({
+                    path: `${path}.normalizers[${index}]`,
+                    message: `normalizador desconhecido; use um de: ${Object.keys(INPUT_NORMALIZERS).join(', ')}`
+                });
+            }
+        });
+    }
+
+    private validateTransition(transition: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (typeof transition === 'string') {
+            if (transition === '') {
+                issues.push({ path, message: 'não pode ser vazio' });
+            }
+            return;
+        }
+
+        if (!this.isObject(transition)) {
+            issues.push({ path, message: 'deve ser um id de passo ou um objeto de transição' });
+            return;
+        }
+
+        if (transition.type === 'previous') {
+            this.requireString(transition, 'fallback', path, issues);
+        } else if (transition.type === 'conditional') {
+            this.requireString(transition, 'default', path, issues);
+            this.validateConditions(transition.conditions, `${path}.conditions`, issues);
+        } else {
+            issues.push({ path: `${path}.type`, message: 'deve ser "previous" ou "conditional"' });
+        }
+    }
+
+    private validateConditions(conditions: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (!Array.isArray(conditions) || conditions.length === 0) {
+            issues.push({ path, message: 'deve ser uma lista não vazia' });
+            return;
+        }
+
+        conditions.forEach((condition: unknown, index: number) => {
+            const conditionPath = `${path}[${index}]`;
+            if (!this.isObject(condition)) {
+                issues.push({ path: conditionPath, message: 'a condição deve ser um objeto' });
+                return;
+            }
+            this.requireString(condition, 'field', conditionPath, issues);
+            this.requireString(condition, 'nextStep', conditionPath, issues);
+            if (typeof condition.field === 'string' && condition.field.startsWith('$') &&
+                !SYSTEM_VARIABLE_PATTERN.test(condition.field)) {
+                issues.push({ path: `${conditionPath}.field`, message: `variável de sistema desconhecida "${condition.field}"` });
+            }
+            if (condition.matches !== undefined) {
+                this.requireRegExp(condition.matches, `${conditionPath}.matches`, issues);
+            }
+        });
+    }
+
+    private validateRule(rule: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (!this.isObject(rule)) {
+            issues.push({ path, message: 'deve ser um objeto' });
+            return;
+        }
+
+        if (!VALIDATION_TYPES.includes(String(rule.type))) {
+            issues.push({ path: `${path}.type`, message: `deve ser um de: ${VALIDATION_TYPES.join(', ')}` });
+        }
+
+        for (const field of ['minLength', 'maxLength']) {
+            if (rule[field] !== undefined && (!Number.isInteger(rule[field]) || rule[field] < 0)) {
+                issues.push({ path: `${path}.${field}`, message: 'deve ser um inteiro não negativo' });
+            }
+        }
+
+        if (rule.pattern !== undefined) {
+            this.requireRegExp(rule.pattern, `${path}.pattern`, issues);
+        }
+
+        if (rule.type === 'custom' && !NAMED_VALIDATORS[String(rule.validator)]) {
+            issues.push({
+                path: `${path}.validator`,
+                message: `validador desconhecido; use um de: ${Object.keys(NAMED_VALIDATORS).join(', ')}`
+            });
+        }
+    }
+
+    /**
+     * Rejeita referências pendentes e passos inalcançáveis; destinos de
+     * intenções globais são alcançáveis de qualquer passo
+     */
+    private validateGraph(steps: FlowStepDefinition[], intents: FlowIntentDefinition[], issues: FlowValidationIssue[]): void {
+        const byId = new Map(steps.map(step => [step.id, step]));
+
+        steps.forEach((step, index) => {
+            for (const reference of this.getReferencedSteps(step)) {
+                if (!byId.has(reference)) {
+                    issues.push({
+                        path: `$.steps[${index}]`,
+                        message: `passo "${step.id}" referencia passo inexistente "${reference}"`
+                    });
+                }
+            }
+        });
+
+        const intentTargets = intents.filter(intent => intent.nextStep).map(intent => intent.nextStep!);
+
+        intents.forEach((intent, index) => {
+            if (intent.nextStep && !byId.has(intent.nextStep)) {
+                issues.push({
+                    path: `$.intents[${index}].nextStep`,
+                    message: `intenção "${intent.id}" referencia passo inexistente "${intent.nextStep}"`
+                });
+            }
+        });
+
+        const reachable = new Set<string>();
+        const pending = [...RESERVED_STEPS, ...intentTargets];
+
+        while (pending.length > 0) {
+            const stepId = pending.pop()!;
+            const step = byId.get(stepId);
+            if (reachable.has(stepId) || !step) continue;
+
+            reachable.add(stepId);
+            pending.push(...this.getReferencedSteps(step));
+        }
+
+        steps.forEach((step, index) => {
+            if (!reachable.has(step.id)) {
+                issues.push({ path: `$.steps[${index}]`, message: `passo "${step.id}" é inalcançável` });
+            }
+        });
+    }
+
+    private compileValidation(rule: ValidationRuleDefinition): ValidationRule {
+        return {
+            type: rule.type,
+            ...(rule.required !== undefined && { required: rule.required }),
+            ...(rule.minLength !== undefined && { minLength: rule.minLength }),
+            ...(rule.maxLength !== undefined && { maxLength: rule.maxLength }),
+            ...(rule.pattern && { pattern: new RegExp(rule.pattern) }),
+            ...(rule.validator && { customValidator: NAMED_VALIDATORS[rule.validator] }),
+            ...(rule.errorMessage && { errorMessage: rule.errorMessage })
+        };
+    }
+
+    private requireString(target: Record<string, any>, field: string, path: string, issues: FlowValidationIssue[]): void {
+        if (typeof target[field] !== 'string' || target[field] === '') {
+            issues.push({ path: `${path}.${field}`, message: 'deve ser uma string não vazia' });
+        }
+    }
+
+    private requireRegExp(value: unknown, path: string, issues: FlowValidationIssue[]): void {
+        if (typeof value !== 'string') {
+            issues.push({ path, message: 'deve ser uma string' });
+            return;
+        }
+
+        try {
+            new RegExp(value);
+        } catch {
+            issues.push({ path, message: 'expressão regular inválida' });
+        }
+    }
+
+    private isObject(value: unknown): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
@@ -1,69 +1,300 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap, Optional } from '@nestjs/common';
 import {
     FlowStep,
     ConversationState,
     ChatbotResponse,
-    ValidationRule
+    FlowCondition,
+    FlowIntent,
+    FlowOption,
+    FlowTransition,
+    InteractiveChoice,
+    InteractiveContent
 } from '../interfaces/conversation.interface';
+import {
+    FlowDefinition,
+    FlowDiff,
+    FlowStepDefinition,
+    FlowVersion,
+    FlowVersionSummary
+} from '../interfaces/flow-definition.interface';
+import { FlowActionService } from './flow-action.service';
+import { BusinessHoursService } from './business-hours.service';
+import { I18nService } from './i18n.service';
+import { FlowDefinitionError, FlowLoaderService } from './flow-loader.service';
+import { TemplateEngine } from '../../common/template-engine';
+import { OptionMatch, OptionMatcher } from '../../common/option-matcher';
+import { DateUtils, MessageFormatter, StringUtils } from '../../common/utils';
+
+/**
+ * Limites das mensagens interativas (botões e listas do WhatsApp); acima de
+ * `rows` escolhas a resposta segue só como texto
+ */
+const INTERACTIVE_LIMITS = {
+    buttons: 3,
+    rows: 10,
+    buttonTitle: 20,
+    rowTitle: 24
+};
 
 @Injectable()
-export class FlowService {
+export class FlowService implements OnApplicationBootstrap {
     private readonly logger = new Logger(FlowService.name);
-    private readonly flows = new Map<string, FlowStep>();
-
-    constructor() {
+    private readonly versions = new Map<string, FlowVersion>();
+    private readonly publishHistory: string[] = [];
+    private activeVersion: string;
+    private actionsReady = false;
+
+    constructor(
+        private readonly flowLoader: FlowLoaderService,
+        private readonly i18n: I18nService,
+        @Optional() private readonly flowActions?: FlowActionService,
+        @Optional() private readonly businessHours?: BusinessHoursService
+    ) {
         this.initializeFlows();
     }
 
     /**
-     * Obtém um passo do fluxo
+     * As ações são registradas pelos módulos durante a inicialização; só
+     * depois disso é possível conferir as ações usadas pelas versões já carregadas
+     */
+    onApplicationBootstrap(): void {
+        this.actionsReady = true;
+
+        for (const flowVersion of this.versions.values()) {
+            this.checkActions(flowVersion.definition, `versão ${flowVersion.definition.version}`);
+        }
+    }
+
+    /**
+     * Obtém a versão de fluxo ativa (usada por novas conversas)
+     */
+    getActiveVersion(): string {
+        return this.activeVersion;
+    }
+
+    /**
+     * Obtém um passo do fluxo na versão informada (ou na versão ativa)
      */
-    getStep(stepId: string): FlowStep | undefined {
-        return this.flows.get(stepId);
+    getStep(stepId: string, version?: string): FlowStep | undefined {
+        return this.resolveVersion(version).steps.get(stepId);
     }
 
     /**
-     * Obtém todos os passos disponíveis
+     * Obtém todos os passos disponíveis na versão ativa
      */
     getAllSteps(): Map<string, FlowStep> {
-        return new Map(this.flows);
+        return new Map(this.resolveVersion().steps);
     }
 
     /**
-     * Adiciona ou atualiza um passo no fluxo
+     * Lista os campos coletados pelos passos da versão, com o nome do passo como rótulo
      */
-    addStep(step: FlowStep): void {
-        this.flows.set(step.id, step);
-        this.logger.debug(`Passo adicionado/atualizado: ${step.id}`);
+    getCollectedFields(version?: string): { field: string; label: string }[] {
+        return [...this.resolveVersion(version).steps.values()]
+            .filter(step => step.collect)
+            .map(step => ({ field: step.collect!.field, label: step.name }));
     }
 
     /**
-     * Remove um passo do fluxo
+     * Obtém as intenções globais declaradas na versão informada (ou na versão ativa)
      */
-    removeStep(stepId: string): boolean {
-        const removed = this.flows.delete(stepId);
-        if (removed) {
-            this.logger.debug(`Passo removido: ${stepId}`);
+    getIntents(version?: string): FlowIntent[] {
+        return this.resolveVersion(version).intents;
+    }
+
+    /**
+     * Adiciona ou atualiza um passo. As versões registradas não mudam: a alteração
+     * gera e publica uma nova versão derivada da ativa, validada como qualquer
+     * outra. Retorna a versão criada
+     */
+    addStep(step: FlowStepDefinition): string {
+        const version = this.deriveVersion(steps => [...steps.filter(existing => existing.id !== step.id), step]);
+        this.logger.debug(`Passo adicionado/atualizado: ${step.id} (versão ${version})`);
+        return version;
+    }
+
+    /**
+     * Remove um passo gerando e publicando uma nova versão derivada da ativa.
+     * Retorna a versão criada, ou `undefined` se o passo não existe
+     */
+    removeStep(stepId: string): string | undefined {
+        if (!this.resolveVersion().steps.has(stepId)) {
+            return undefined;
         }
-        return removed;
+
+        const version = this.deriveVersion(steps => steps.filter(step => step.id !== stepId));
+        this.logger.debug(`Passo removido: ${stepId} (versão ${version})`);
+        return version;
+    }
+
+    /**
+     * Verifica se uma versão de fluxo já foi registrada
+     */
+    hasVersion(version: string): boolean {
+        return this.versions.has(version);
+    }
+
+    /**
+     * Obtém a definição de uma versão registrada
+     */
+    getDefinition(version: string): FlowDefinition | undefined {
+        return this.versions.get(version)?.definition;
+    }
+
+    /**
+     * Lista as versões registradas
+     */
+    listVersions(): FlowVersionSummary[] {
+        return [...this.versions.values()].map(flowVersion => ({
+            version: flowVersion.definition.version,
+            id: flowVersion.definition.id,
+            description: flowVersion.definition.description,
+            totalSteps: flowVersion.steps.size,
+            uploadedAt: flowVersion.uploadedAt,
+            publishedAt: flowVersion.publishedAt,
+            active: flowVersion.definition.version === this.activeVersion
+        }));
+    }
+
+    /**
+     * Valida e registra uma nova versão sem publicá-la
+     */
+    registerVersion(raw: unknown, source: string = 'admin'): FlowDefinition {
+        const definition = this.flowLoader.parse(raw, source);
+        this.checkLocales(definition, source);
+        if (this.actionsReady) {
+            this.checkActions(definition, source);
+        }
+
+        const existing = this.versions.get(definition.version);
+
+        // Versões são imutáveis: conversas fixadas nelas não podem mudar de fluxo
+        if (existing) {
+            if (JSON.stringify(existing.definition) === JSON.stringify(definition)) {
+                return existing.definition;
+            }
+            throw new FlowDefinitionError(source, [
+                { path: '$.version', message: `versão "${definition.version}" já registrada com conteúdo diferente` }
+            ]);
+        }
+
+        this.versions.set(definition.version, {
+            definition,
+            steps: new Map(this.flowLoader.compile(definition).map(step => [step.id, step])),
+            intents: this.flowLoader.compileIntents(definition),
+            uploadedAt: new Date()
+        });
+
+        this.logger.log(`Versão de fluxo registrada: ${definition.id}@${definition.version}`);
+        return definition;
     }
 
     /**
-     * Processa entrada do usuário e retorna próximo passo
+     * Publica uma versão registrada. A troca é atômica: novas conversas passam a
+     * usar a versão publicada e as conversas em andamento seguem na versão fixada
+     */
+    publishVersion(version: string): boolean {
+        const flowVersion = this.versions.get(version);
+        if (!flowVersion) {
+            return false;
+        }
+
+        if (this.activeVersion && this.activeVersion !== version) {
+            this.publishHistory.push(this.activeVersion);
+        }
+
+        flowVersion.publishedAt = new Date();
+        this.activeVersion = version;
+
+        this.logger.log(`Versão de fluxo publicada: ${version}`);
+        return true;
+    }
+
+    /**
+     * Volta para a versão publicada anteriormente
+     */
+    rollback(): string | undefined {
+        const previous = this.publishHistory.pop();
+        if (!previous) {
+            return undefined;
+        }
+
+        this.versions.get(previous)!.publishedAt = new Date();
+        this.activeVersion = previous;
+
+        this.logger.log(`Rollback do fluxo para a versão ${previous}`);
+        return previous;
+    }
+
+    /**
+     * Compara uma versão com a versão ativa, passo a passo
+     */
+    diffWithActive(version: string): FlowDiff | undefined {
+        const target = this.versions.get(version);
+        if (!target) {
+            return undefined;
+        }
+
+        const toMap = (definition: FlowDefinition) =>
+            new Map(definition.steps.map(step => [step.id, step as unknown as Record<string, unknown>]));
+
+        const activeSteps = toMap(this.resolveVersion().definition);
+        const targetSteps = toMap(target.definition);
+
+        const diff: FlowDiff = {
+            from: this.activeVersion,
+            to: version,
+            added: [...targetSteps.keys()].filter(stepId => !activeSteps.has(stepId)),
+            removed: [...activeSteps.keys()].filter(stepId => !targetSteps.has(stepId)),
+            changed: []
+        };
+
+        for (const [stepId, step] of targetSteps) {
+            const activeStep = activeSteps.get(stepId);
+            if (!activeStep) continue;
+
+            const fields = [...new Set([...Object.keys(activeStep), ...Object.keys(step)])]
+                .filter(field => JSON.stringify(activeStep[field]) !== JSON.stringify(step[field]));
+
+            if (fields.length > 0) {
+                diff.changed.push({ stepId, fields });
+            }
+        }
+
+        return diff;
+    }
+
+    /**
+     * Recarrega o arquivo de fluxo configurado e publica sua versão
+     */
+    reloadFromFile(): FlowDefinition {
+        const definition = this.registerVersion(
+            this.flowLoader.loadConfiguredFlow(),
+            this.flowLoader.getFlowFilePath()
+        );
+
+        this.publishVersion(definition.version);
+        return definition;
+    }
+
+    /**
+     * Processa entrada do usuário e retorna próximo passo. Quando a entrada corresponde
+     * a mais de uma opção, a conversa fica no passo atual (`ambiguous`) e a resposta
+     * pede que o usuário escolha entre elas
      */
     processUserInput(
         userInput: string,
         currentStepId: string,
         state: ConversationState
-    ): { nextStepId: string; response: ChatbotResponse } {
-        const currentStep = this.getStep(currentStepId);
+    ): { nextStepId: string; response: ChatbotResponse; ambiguous?: boolean } {
+        const currentStep = this.getStep(currentStepId, state.flowVersion);
 
         if (!currentStep) {
             this.logger.error(`Passo não encontrado: ${currentStepId}`);
             return {
                 nextStepId: 'welcome',
                 response: {
-                    message: 'Ops! Algo deu errado. Vamos recomeçar do início.',
+                    message: this.i18n.t('flow.stepNotFound', state.locale),
                     shouldEnd: false
                 }
             };
@@ -76,12 +307,26 @@ export class FlowService {
             nextStepId = currentStep.nextStep(userInput, state);
         } else if (typeof currentStep.nextStep === 'string') {
             nextStepId = currentStep.nextStep;
+        } else if (currentStep.nextStep) {
+            nextStepId = this.resolveTransition(currentStep.nextStep, userInput, state);
         } else {
             // Se não há próximo passo definido, processa opções
-            nextStepId = this.processStepOptions(userInput, currentStep);
+            const match = this.matchOption(userInput, currentStep, state);
+
+            if (match.status === 'ambiguous') {
+                return {
+                    nextStepId: currentStepId,
+                    response: this.buildDisambiguationResponse(currentStep, match.options, state),
+                    ambiguous: true
+                };
+            }
+
+            nextStepId = match.status === 'matched'
+                ? match.option.nextStep
+                : currentStep.options?.length ? 'validation_error' : 'error';
         }
 
-        const nextStep = this.getStep(nextStepId);
+        const nextStep = this.getStep(nextStepId, state.flowVersion);
         if (!nextStep) {
             this.logger.error(`Próximo passo não encontrado: ${nextStepId}`);
             nextStepId = 'welcome';
@@ -89,217 +334,329 @@ export class FlowService {
 
         return {
             nextStepId,
-            response: this.buildStepResponse(nextStep || this.getStep('welcome')!)
+            response: this.buildStepResponse(nextStep || this.getStep('welcome', state.flowVersion)!, state)
         };
     }
 
     /**
-     * Constrói resposta para um passo
+     * Avalia as condições de entrada do passo e retorna o passo para onde a
+     * conversa deve ser desviada, se alguma delas for atendida
      */
-    buildStepResponse(step: FlowStep): ChatbotResponse {
+    resolveGuards(step: FlowStep, userInput: string, state: ConversationState): string | undefined {
+        return step.guards?.find(guard => this.matchesCondition(guard, userInput, state))?.nextStep;
+    }
+
+    /**
+     * Constrói resposta para um passo, no idioma da conversa: opções numeradas em
+     * texto, as mesmas escolhas em formato interativo e os anexos do passo
+     */
+    buildStepResponse(step: FlowStep, state?: ConversationState): ChatbotResponse {
+        const localized = this.localize(step, state?.locale);
+        const scope = this.buildTemplateScope(state);
         const response: ChatbotResponse = {
-            message: step.message
+            message: this.renderTemplate(localized.message, scope, state?.locale)
         };
 
-        // Adiciona opções se existirem
-        if (step.options && step.options.length > 0) {
-            response.options = step.options.map((option, index) =>
-                `${index + 1}. ${option.text}`
-            );
-        }
-
-        // Adiciona opções de controle se permitido
-        const controlOptions: string[] = [];
+        // Opções do passo seguidas das opções de controle, se permitidas
+        const choices: InteractiveChoice[] = (localized.options || []).map((option, index) => ({
+            id: String(index + 1),
+            title: this.renderTemplate(option.text, scope, state?.locale)
+        }));
 
         if (step.allowBack !== false) {
-            controlOptions.push('0. ⬅️ Voltar');
+            choices.push({ id: '0', title: this.i18n.t('flow.controls.back', state?.locale) });
         }
 
         if (step.allowRestart !== false) {
-            controlOptions.push('#. 🔄 Recomeçar');
+            choices.push({ id: '#', title: this.i18n.t('flow.controls.restart', state?.locale) });
         }
 
-        if (controlOptions.length > 0) {
-            response.options = [...(response.options || []), ...controlOptions];
+        if (choices.length > 0) {
+            response.options = choices.map(choice => `${choice.id}. ${choice.title}`);
+            response.interactive = this.buildInteractive(choices, state?.locale);
+        }
+
+        if (localized.attachments) {
+            response.attachments = localized.attachments.map(attachment => ({
+                ...attachment,
+                url: this.renderTemplate(attachment.url, scope, state?.locale),
+                ...(attachment.caption && { caption: this.renderTemplate(attachment.caption, scope, state?.locale) })
+            }));
         }
 
         return response;
     }
 
     /**
-     * Processa opções de um passo
+     * Aplica a tradução do passo para o idioma (mensagem, opções e mensagem de erro
+     * da validação ou da mídia);
+     * sem tradução, o passo é retornado como está
      */
-    private processStepOptions(userInput: string, step: FlowStep): string {
-        if (!step.options || step.options.length === 0) {
-            return 'error';
+    localize(step: FlowStep, locale?: string): FlowStep {
+        const translation = locale ? step.translations?.[locale] : undefined;
+        if (!translation) {
+            return step;
+        }
+
+        return {
+            ...step,
+            message: translation.message ?? step.message,
+            ...(step.options && {
+                options: step.options.map(option => ({ ...option, text: translation.options?.[option.key] ?? option.text }))
+            }),
+            ...(step.validation && {
+                validation: { ...step.validation, errorMessage: translation.errorMessage ?? step.validation.errorMessage }
+            }),
+            ...(step.media && {
+                media: { ...step.media, errorMessage: translation.errorMessage ?? step.media.errorMessage }
+            })
+        };
+    }
+
+    /**
+     * Encontra a opção escolhida pelo usuário; entradas ambíguas não retornam opção
+     */
+    findOption(userInput: string, step: FlowStep, state?: ConversationState): FlowOption | undefined {
+        const match = this.matchOption(userInput, step, state);
+        return match.status === 'matched' ? match.option : undefined;
+    }
+
+    /**
+     * Compara a entrada com as opções do passo: pelo número, ou pelo texto no idioma da
+     * conversa, pela chave e pelos sinônimos (sem acentos, emojis e tolerando erros de digitação)
+     */
+    matchOption(userInput: string, step: FlowStep, state?: ConversationState): OptionMatch<FlowOption> {
+        const { options } = this.localize(step, state?.locale);
+        if (!options || options.length === 0) {
+            return { status: 'none' };
         }
 
         const input = userInput.trim();
         const inputNumber = parseInt(input);
 
         // Verifica se é um número válido para as opções
-        if (!isNaN(inputNumber) && inputNumber >= 1 && inputNumber <= step.options.length) {
-            return step.options[inputNumber - 1].nextStep;
+        if (!isNaN(inputNumber) && inputNumber >= 1 && inputNumber <= options.length) {
+            return { status: 'matched', option: options[inputNumber - 1] };
         }
 
-        // Verifica se o texto corresponde a alguma opção
-        const normalizedInput = input.toLowerCase();
-        for (const option of step.options) {
-            if (option.text.toLowerCase().includes(normalizedInput) ||
-                option.key.toLowerCase() === normalizedInput) {
-                return option.nextStep;
-            }
-        }
+        return OptionMatcher.match(input, options, option => [option.text, option.key, ...(option.synonyms || [])]);
+    }
 
-        // Se não encontrou correspondência, retorna erro de validação
-        return 'validation_error';
+    /**
+     * Pede que o usuário escolha entre as opções empatadas, mantendo a numeração do passo
+     */
+    private buildDisambiguationResponse(step: FlowStep, candidates: FlowOption[], state: ConversationState): ChatbotResponse {
+        const scope = this.buildTemplateScope(state);
+        const { options } = this.localize(step, state.locale);
+        const keys = candidates.map(option => option.key);
+        const choices = options!
+            .map((option, index) => ({ option, id: String(index + 1) }))
+            .filter(({ option }) => keys.includes(option.key))
+            .map(({ option, id }) => ({ id, title: this.renderTemplate(option.text, scope, state.locale) }));
+
+        return {
+            message: this.i18n.t('flow.ambiguousOption', state.locale),
+            options: choices.map(choice => `${choice.id}. ${choice.title}`),
+            interactive: this.buildInteractive(choices, state.locale)
+        };
     }
 
     /**
-     * Inicializa os fluxos básicos do chatbot
+     * Até 3 escolhas viram botões e até 10 viram uma lista; títulos longos são encurtados
      */
-    private initializeFlows(): void {
-        // Passo de boas-vindas
-        this.addStep({
-            id: 'welcome',
-            name: 'Boas-vindas',
-            message: `🤖 *Olá! Bem-vindo(a) ao Verador Bot!*
-
-Sou seu assistente virtual para gerenciamento de tickets e atendimento.
-
-*Como posso ajudá-lo hoje?*`,
-            options: [
-                { key: 'tickets', text: '🎫 Gerenciar Tickets', nextStep: 'tickets_menu' },
-                { key: 'status', text: '📊 Status do Sistema', nextStep: 'system_status' },
-                { key: 'help', text: '❓ Ajuda', nextStep: 'help_menu' }
-            ],
-            allowBack: false,
-            allowRestart: false
-        });
+    private buildInteractive(choices: InteractiveChoice[], locale?: string): InteractiveContent | undefined {
+        const fit = (title: string, max: number) => title.length > max ? MessageFormatter.truncate(title, max - 3) : title;
 
-        // Menu de tickets
-        this.addStep({
-            id: 'tickets_menu',
-            name: 'Menu de Tickets',
-            message: `🎫 *Gerenciamento de Tickets*
-
-Escolha uma das opções abaixo:`,
-            options: [
-                { key: 'create', text: '➕ Criar Novo Ticket', nextStep: 'create_ticket' },
-                { key: 'list', text: '📋 Listar Meus Tickets', nextStep: 'list_tickets' },
-                { key: 'update', text: '✏️ Atualizar Status', nextStep: 'update_ticket' }
-            ]
-        });
+        if (choices.length <= INTERACTIVE_LIMITS.buttons) {
+            return {
+                type: 'buttons',
+                buttons: choices.map(({ id, title }) => ({ id, title: fit(title, INTERACTIVE_LIMITS.buttonTitle) }))
+            };
+        }
 
-        // Status do sistema
-        this.addStep({
-            id: 'system_status',
-            name: 'Status do Sistema',
-            message: `📊 *Status do Sistema*
+        if (choices.length <= INTERACTIVE_LIMITS.rows) {
+            return {
+                type: 'list',
+                buttonText: this.i18n.t('flow.interactive.listButton', locale),
+                rows: choices.map(({ id, title }) => ({ id, title: fit(title, INTERACTIVE_LIMITS.rowTitle) }))
+            };
+        }
 
-✅ Sistema GOSAC: Online
-✅ Base de Dados: Conectada
-✅ Chatbot: Funcionando
+        return undefined;
+    }
 
-🕐 Última verificação: ${new Date().toLocaleString('pt-BR')}
+    /**
+     * Renderiza um template de mensagem no idioma da conversa e no fuso do calendário;
+     * templates inválidos (já barrados na carga do fluxo) são exibidos sem alteração
+     */
+    private renderTemplate(text: string, scope: Record<string, any>, locale?: string): string {
+        try {
+            return TemplateEngine.render(text, scope, {
+                locale: this.i18n.resolveLocale(locale),
+                timeZone: this.businessHours?.getTimeZone(),
+                resolveSystemVariable: name => this.resolveSystemVariable(name, locale)
+            });
+        } catch (error) {
+            this.logger.error(`Erro ao renderizar mensagem: ${error.message}`);
+            return text;
+        }
+    }
 
-*O sistema está funcionando normalmente.*`,
-            nextStep: 'welcome'
-        });
+    /**
+     * Variáveis dos templates: dados coletados na conversa e o contexto do webhook
+     * em `contact`, `ticket` e `queue`
+     */
+    private buildTemplateScope(state?: ConversationState): Record<string, any> {
+        const context = state?.context || {};
 
-        // Menu de ajuda
-        this.addStep({
-            id: 'help_menu',
-            name: 'Menu de Ajuda',
-            message: `❓ *Central de Ajuda*
+        return {
+            ...state?.data,
+            contact: { id: context.contactId, name: context.contactName, number: context.contactNumber },
+            ticket: { id: context.ticketId, status: context.ticketStatus, protocol: context.ticketProtocol },
+            queue: { id: context.queueId }
+        };
+    }
 
-*Como usar o bot:*
+    /**
+     * Resolve uma transição declarativa para o id do próximo passo
+     */
+    private resolveTransition(transition: FlowTransition, userInput: string, state: ConversationState): string {
+        if (transition.type === 'previous') {
+            // Retorna para o passo anterior se houver histórico
+            if (state.stepHistory.length > 0) {
+                return state.stepHistory[state.stepHistory.length - 1];
+            }
+            return transition.fallback;
+        }
 
-• Digite o número da opção desejada
-• Use *0* para voltar ao passo anterior
-• Use *#* para recomeçar do início
-• Todas as opções são numeradas para facilitar
+        const matched = transition.conditions.find(condition =>
+            this.matchesCondition(condition, userInput, state)
+        );
 
-*Comandos disponíveis:*
-- Números (1, 2, 3...) para navegar
-- 0 para voltar
-- # para recomeçar
+        return matched ? matched.nextStep : transition.default;
+    }
 
-*Precisa de mais ajuda?* Entre em contato com nosso suporte.`,
-            nextStep: 'welcome'
-        });
+    /**
+     * Avalia uma condição sobre os dados da conversa (ou `$input` para a entrada atual)
+     */
+    private matchesCondition(condition: FlowCondition, userInput: string, state: ConversationState): boolean {
+        const value: unknown = condition.field === '$input'
+            ? userInput.trim()
+            : condition.field.startsWith('$') ? this.resolveSystemVariable(condition.field, state.locale) : state.data[condition.field];
 
-        // Passo de criação de ticket (placeholder)
-        this.addStep({
-            id: 'create_ticket',
-            name: 'Criar Ticket',
-            message: `➕ *Criar Novo Ticket*
+        if (condition.exists !== undefined && (value !== undefined && value !== null) !== condition.exists) {
+            return false;
+        }
 
-Esta funcionalidade será implementada em breve.
+        if (condition.equals !== undefined && value !== condition.equals) {
+            return false;
+        }
 
-Por enquanto, você pode usar as outras opções do menu principal.`,
-            nextStep: 'tickets_menu'
-        });
+        if (condition.matches !== undefined && !new RegExp(condition.matches, 'i').test(StringUtils.fromValue(value))) {
+            return false;
+        }
+
+        return true;
+    }
 
-        // Passo de listagem de tickets (placeholder)
-        this.addStep({
-            id: 'list_tickets',
-            name: 'Listar Tickets',
-            message: `📋 *Seus Tickets*
+    /**
+     * Resolve variáveis de sistema, calculadas a cada renderização: `$now` (data e hora
+     * atuais), `$businessHours` ("open"/"closed"), `$nextOpening` e `$openingHours`,
+     * estas com fila opcional como sufixo (sem ela, a fila do atendimento humano);
+     * datas e horários saem no idioma informado
+     */
+    private resolveSystemVariable(name: string, locale?: string): string | undefined {
+        const [variable, suffix] = name.split('.');
 
-Esta funcionalidade será implementada em breve.
+        if (variable === '$now') {
+            return DateUtils.formatDateTime(new Date(), this.i18n.resolveLocale(locale), this.businessHours?.getTimeZone());
+        }
 
-Aqui você poderá visualizar todos os seus tickets ativos e histórico.`,
-            nextStep: 'tickets_menu'
-        });
+        if (!this.businessHours) {
+            return undefined;
+        }
 
-        // Passo de atualização de ticket (placeholder)
-        this.addStep({
-            id: 'update_ticket',
-            name: 'Atualizar Ticket',
-            message: `✏️ *Atualizar Status do Ticket*
+        const queue = suffix ?? this.businessHours.getHandoffQueue();
+
+        switch (variable) {
+            case '$businessHours':
+                return this.businessHours.isOpen(new Date(), queue) ? 'open' : 'closed';
+            case '$nextOpening':
+                return this.businessHours.describeNextOpening(new Date(), queue, locale);
+            case '$openingHours':
+                return this.businessHours.describeWeeklyHours(queue, locale);
+            default:
+                return undefined;
+        }
+    }
 
-Esta funcionalidade será implementada em breve.
+    /**
+     * Obtém a versão informada, caindo para a ativa se ela não existir mais
+     */
+    private resolveVersion(version?: string): FlowVersion {
+        return (version && this.versions.get(version)) || this.versions.get(this.activeVersion)!;
+    }
 
-Aqui você poderá alterar o status dos seus tickets.`,
-            nextStep: 'tickets_menu'
-        });
+    /**
+     * Registra e publica uma cópia da versão ativa com os passos alterados, como
+     * `<versão>+<n>`; conversas fixadas na versão original não são afetadas
+     */
+    private deriveVersion(change: (steps: FlowStepDefinition[]) => FlowStepDefinition[]): string {
+        const base = this.resolveVersion().definition;
+        let revision = 1;
 
-        // Passo de erro de validação
-        this.addStep({
-            id: 'validation_error',
-            name: 'Erro de Validação',
-            message: `❌ *Opção inválida*
+        while (this.versions.has(`${base.version}+${revision}`)) {
+            revision++;
+        }
 
-Por favor, escolha uma das opções listadas acima digitando o número correspondente.
+        const version = `${base.version}+${revision}`;
+        this.registerVersion({ ...base, version, steps: change(base.steps) }, `edição de ${base.version}`);
+        this.publishVersion(version);
+        return version;
+    }
 
-*Exemplo:* Digite *1* para a primeira opção, *2* para a segunda, etc.
+    /**
+     * Rejeita definições com traduções em idiomas não disponíveis e avisa dos passos
+     * sem tradução para algum idioma carregado (esses passos usam o texto original)
+     */
+    private checkLocales(definition: FlowDefinition, source: string): void {
+        const locales = this.i18n.getLocales().map(({ locale }) => locale);
+        const issues = this.flowLoader.findUnknownLocales(definition, locales);
 
-Ou use:
-• *0* para voltar
-• *#* para recomeçar`,
-            nextStep: (userInput: string, state: ConversationState) => {
-                // Retorna para o passo anterior se houver histórico
-                if (state.stepHistory.length > 0) {
-                    return state.stepHistory[state.stepHistory.length - 1];
-                }
-                return 'welcome';
-            }
-        });
+        if (issues.length > 0) {
+            throw new FlowDefinitionError(source, issues);
+        }
+
+        const untranslated = this.flowLoader.findMissingTranslations(
+            definition,
+            locales.filter(locale => locale !== this.i18n.getDefaultLocale())
+        );
 
-        // Passo de erro genérico
-        this.addStep({
-            id: 'error',
-            name: 'Erro',
-            message: `🚫 *Ops! Algo deu errado*
+        if (untranslated.length > 0) {
+            this.logger.warn(
+                `Fluxo ${definition.version} (${source}) com passos sem tradução:\n` +
+                untranslated.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')
+            );
+        }
+    }
 
-Ocorreu um erro inesperado. Vamos recomeçar do início para garantir que tudo funcione corretamente.
+    /**
+     * Rejeita definições que usam ações de fluxo não registradas
+     */
+    private checkActions(definition: FlowDefinition, source: string): void {
+        if (!this.flowActions) return;
 
-Não se preocupe, seus dados estão seguros! 😊`,
-            nextStep: 'welcome',
-            allowBack: false
-        });
+        const issues = this.flowLoader.findUnknownActions(definition, this.flowActions.list());
+        if (issues.length > 0) {
+            throw new FlowDefinitionError(source, issues);
+        }
+    }
 
-        this.logger.debug(`${this.flows.size} passos de fluxo inicializados`);
+    /**
+     * Carrega e publica a definição de fluxo configurada
+     */
+    private initializeFlows(): void {
+        const definition = this.reloadFromFile();
+        this.logger.debug(`${definition.steps.length} passos de fluxo inicializados (versão ${definition.version})`);
     }
 }
@@ -0,0 +1,172 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CONVERSATION_STORE } from '../interfaces/conversation-store.interface';
+import type { ConversationStore } from '../interfaces/conversation-store.interface';
+import {
+    HealthCheck,
+    HealthCheckReport,
+    HealthCheckResult,
+    HealthReport,
+    HealthStatus
+} from '../interfaces/health.interface';
+import { FlowActionService } from './flow-action.service';
+import { UserMessageQueueService } from './user-message-queue.service';
+import { MessageAggregatorService } from './message-aggregator.service';
+import { I18nService } from './i18n.service';
+
+const STATUS_ICONS: Record<HealthStatus, string> = {
+    up: '✅',
+    degraded: '⚠️',
+    down: '❌'
+};
+
+/**
+ * Agrega verificações de saúde dos componentes (armazenamento, filas e
+ * integrações registradas por outros módulos). Cada consulta executa as
+ * verificações novamente; nada é guardado entre chamadas.
+ */
+@Injectable()
+export class HealthService implements OnModuleInit {
+    private readonly logger = new Logger(HealthService.name);
+    private readonly checks = new Map<string, HealthCheck>();
+    private readonly checkTimeout: number;
+    private readonly queueBacklogLimit: number;
+
+    constructor(
+        @Inject(CONVERSATION_STORE) private readonly store: ConversationStore,
+        private readonly messageQueue: UserMessageQueueService,
+        private readonly aggregator: MessageAggregatorService,
+        private readonly flowActions: FlowActionService,
+        private readonly i18n: I18nService,
+        private readonly configService: ConfigService
+    ) {
+        this.checkTimeout = Number(this.configService.get('CHATBOT_HEALTH_CHECK_TIMEOUT', 5000));
+        this.queueBacklogLimit = Number(this.configService.get('CHATBOT_HEALTH_QUEUE_BACKLOG', 50));
+    }
+
+    onModuleInit(): void {
+        this.register({
+            name: 'storage',
+            label: 'Base de Dados',
+            labelKey: 'health.components.storage',
+            critical: true,
+            run: () => this.checkStorage()
+        });
+        this.register({
+            name: 'chatbot',
+            label: 'Chatbot',
+            labelKey: 'health.components.chatbot',
+            run: () => Promise.resolve(this.checkQueues())
+        });
+
+        this.flowActions.register('checkSystemHealth', ({ state }) => this.describeForUser(state?.locale));
+    }
+
+    /**
+     * Registra uma verificação; registrar o mesmo nome novamente substitui a anterior
+     */
+    register(check: HealthCheck): void {
+        this.checks.set(check.name, check);
+        this.logger.log(`Verificação de saúde registrada: ${check.name}`);
+    }
+
+    /**
+     * Executa todas as verificações em paralelo e consolida o resultado
+     */
+    async check(): Promise<HealthReport> {
+        const checks = await Promise.all([...this.checks.values()].map(check => this.runCheck(check)));
+        const critical = new Set([...this.checks.values()].filter(check => check.critical).map(check => check.name));
+
+        let status: HealthReport['status'] = 'healthy';
+        if (checks.some(check => check.status === 'down' && critical.has(check.name))) {
+            status = 'unhealthy';
+        } else if (checks.some(check => check.status !== 'up')) {
+            status = 'degraded';
+        }
+
+        return {
+            status,
+            checkedAt: new Date().toISOString(),
+            checks
+        };
+    }
+
+    /**
+     * Ação de fluxo `checkSystemHealth`: linhas de status para exibir ao usuário, no
+     * idioma da conversa (os resumos técnicos ficam só no relatório de saúde)
+     */
+    private async describeForUser(locale?: string): Promise<Record<string, any>> {
+        const report = await this.check();
+        const labelKeys = new Map([...this.checks.values()].map(check => [check.name, check.labelKey]));
+
+        return {
+            systemStatus: report.checks
+                .map(check => {
+                    const labelKey = labelKeys.get(check.name);
+                    const label = labelKey ? this.i18n.t(labelKey, locale) : check.label;
+                    return `${STATUS_ICONS[check.status]} ${label}: ${this.i18n.t(`health.status.${check.status}`, locale)}`;
+                })
+                .join('\n'),
+            systemStatusSummary: this.i18n.t(`health.summary.${report.status}`, locale)
+        };
+    }
+
+    /**
+     * Executa uma verificação com tempo limite; exceções contam como fora do ar
+     */
+    private async runCheck(check: HealthCheck): Promise<HealthCheckReport> {
+        const startedAt = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+
+        const timeout = new Promise<HealthCheckResult>(resolve => {
+            timer = setTimeout(() => resolve({ status: 'down', summary: 'Sem resposta' }), this.checkTimeout);
+        });
+
+        let result: HealthCheckResult;
+        try {
+            result = await Promise.race([check.run(), timeout]);
+        } catch (error) {
+            this.logger.warn(`Verificação ${check.name} falhou: ${error.message}`);
+            result = { status: 'down', summary: 'Indisponível', details: { error: error.message } };
+        } finally {
+            clearTimeout(timer);
+        }
+
+        return {
+            name: check.name,
+            label: check.label,
+            latency: Date.now() - startedAt,
+            ...result
+        };
+    }
+
+    /**
+     * Grava, lê e remove uma chave de teste no armazenamento das conversas
+     */
+    private async checkStorage(): Promise<HealthCheckResult> {
+        const key = 'health:probe';
+        const value = Date.now();
+
+        await this.store.set(key, value, 10000);
+        const read = await this.store.get<number>(key);
+        await this.store.delete(key);
+
+        const backend = this.configService.get<string>('CONVERSATION_STORE', 'memory');
+
+        return read === value
+            ? { status: 'up', summary: 'Conectada', details: { backend } }
+            : { status: 'down', summary: 'Leitura inconsistente', details: { backend } };
+    }
+
+    /**
+     * Verifica o acúmulo de mensagens aguardando processamento
+     */
+    private checkQueues(): HealthCheckResult {
+        const queue = this.messageQueue.getMetrics();
+        const details = { ...queue, aggregationPending: this.aggregator.getPendingCount() };
+
+        return queue.queuedMessages > this.queueBacklogLimit
+            ? { status: 'degraded', summary: `Lento (${queue.queuedMessages} mensagens na fila)`, details }
+            : { status: 'up', summary: 'Funcionando', details };
+    }
+}
@@ -0,0 +1,351 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { TemplateEngine } from '../../common/template-engine';
+import { MessageContext } from '../interfaces/conversation.interface';
+import { ControlKeyword, LocaleBundle, LocaleDefinition } from '../interfaces/locale.interface';
+
+/**
+ * Chaves das mensagens exibidas ao usuário (motor de conversa, ações de fluxo e
+ * status do sistema); todo idioma precisa defini-las
+ */
+export const MESSAGE_KEYS = [
+    'flow.stepNotFound',
+    'flow.ambiguousOption',
+    'flow.controls.back',
+    'flow.controls.restart',
+    'flow.interactive.listButton',
+    'conversation.queueFull',
+    'conversation.debounce',
+    'conversation.tooManyAttempts',
+    'conversation.handoffEnded',
+    'conversation.cannotGoBack',
+    'conversation.goingBack',
+    'conversation.restarting',
+    'conversation.welcome',
+    'validation.invalidOption',
+    'validation.hints.first',
+    'validation.hints.second',
+    'validation.hints.last',
+    'validation.required',
+    'validation.minLength',
+    'validation.maxLength',
+    'validation.number',
+    'validation.numberFormat',
+    'validation.email',
+    'validation.emailFormat',
+    'validation.phone',
+    'validation.phoneFormat',
+    'validation.option',
+    'validation.textFormat',
+    'validation.invalid',
+    'media.expected',
+    'media.wrongType',
+    'media.unexpected',
+    'media.types.image',
+    'media.types.video',
+    'media.types.audio',
+    'media.types.document',
+    'media.types.sticker',
+    'media.types.location',
+    'tickets.status.open',
+    'tickets.status.pending',
+    'tickets.status.closed',
+    'tickets.list.empty',
+    'tickets.list.page',
+    'tickets.list.noMessages',
+    'tickets.list.choose',
+    'tickets.list.next',
+    'tickets.list.previous',
+    'tickets.details.title',
+    'tickets.details.status',
+    'tickets.details.createdAt',
+    'tickets.details.updatedAt',
+    'tickets.details.queue',
+    'tickets.details.agent',
+    'tickets.details.lastMessage',
+    'tickets.statusChange.close',
+    'tickets.statusChange.closed',
+    'tickets.statusChange.reopen',
+    'tickets.statusChange.reopened',
+    'tickets.errors.currentTicket',
+    'tickets.errors.noPendingChange',
+    'tickets.errors.notListed',
+    'tickets.errors.notOwned',
+    'tickets.errors.contactNotFound',
+    'gosac.errors.notFound',
+    'gosac.errors.forbidden',
+    'gosac.errors.circuitOpen',
+    'gosac.errors.timeout',
+    'gosac.errors.rejected',
+    'gosac.errors.unknown',
+    'handoff.errors.unavailable',
+    'handoff.errors.notRegistered',
+    'businessHours.now',
+    'businessHours.soon',
+    'businessHours.nextOpening',
+    'businessHours.timeRange',
+    'businessHours.dayRange',
+    'businessHours.noSchedule',
+    'businessHours.weekdays.sun',
+    'businessHours.weekdays.mon',
+    'businessHours.weekdays.tue',
+    'businessHours.weekdays.wed',
+    'businessHours.weekdays.thu',
+    'businessHours.weekdays.fri',
+    'businessHours.weekdays.sat',
+    'callback.periods.morning',
+    'callback.periods.afternoon',
+    'callback.periods.any',
+    'health.components.storage',
+    'health.components.chatbot',
+    'health.components.gosac',
+    'health.components.outbound',
+    'health.status.up',
+    'health.status.degraded',
+    'health.status.down',
+    'health.summary.healthy',
+    'health.summary.degraded',
+    'health.summary.unhealthy'
+] as const;
+
+export type MessageKey = typeof MESSAGE_KEYS[number];
+
+/**
+ * Comandos de controle; cada idioma define as palavras que os ativam
+ */
+export const CONTROL_KEYWORDS: ControlKeyword[] = ['back', 'restart'];
+const LOCALE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Erro lançado quando os pacotes de idioma são inválidos ou incompletos
+ */
+export class LocaleBundleError extends Error {
+    constructor(
+        readonly source: string,
+        readonly issues: string[]
+    ) {
+        super(`Pacotes de idioma inválidos (${source}):\n` + issues.map(issue => `  - ${issue}`).join('\n'));
+        this.name = 'LocaleBundleError';
+    }
+}
+
+/**
+ * Textos do motor de conversa por idioma. Os pacotes são carregados na
+ * inicialização e conferidos contra MESSAGE_KEYS: chaves ausentes impedem o boot
+ */
+@Injectable()
+export class I18nService {
+    private readonly logger = new Logger(I18nService.name);
+    private readonly bundles = new Map<string, LocaleBundle>();
+    private readonly defaultLocale: string;
+
+    constructor(private readonly configService: ConfigService) {
+        const directory = this.configService.get<string>('CHATBOT_LOCALES_DIR', join(__dirname, '..', 'i18n'));
+        this.defaultLocale = this.configService.get<string>('CHATBOT_DEFAULT_LOCALE', 'pt-BR');
+
+        this.load(directory);
+        this.logger.log(`Idiomas carregados de ${directory}: ${[...this.bundles.keys()].join(', ')} (padrão ${this.defaultLocale})`);
+    }
+
+    /**
+     * Idioma usado quando a conversa não tem um definido
+     */
+    getDefaultLocale(): string {
+        return this.defaultLocale;
+    }
+
+    /**
+     * Lista os idiomas disponíveis
+     */
+    getLocales(): { locale: string; name: string }[] {
+        return [...this.bundles.values()].map(({ locale, name }) => ({ locale, name }));
+    }
+
+    /**
+     * Converte um código informado (`en-US`, `pt`, `ES`) em um idioma disponível,
+     * caindo para o idioma padrão
+     */
+    resolveLocale(candidate?: string): string {
+        if (!candidate) {
+            return this.defaultLocale;
+        }
+
+        const normalized = candidate.toLowerCase();
+        const language = normalized.split('-')[0];
+        const locales = [...this.bundles.keys()];
+
+        return locales.find(locale => locale.toLowerCase() === normalized)
+            || locales.find(locale => locale.toLowerCase().split('-')[0] === language)
+            || this.defaultLocale;
+    }
+
+    /**
+     * Detecta o idioma pelo idioma informado pelo canal ou, na falta dele, pelo
+     * código de país do número do contato
+     */
+    detectLocale(context?: MessageContext): string {
+        if (context?.language) {
+            return this.resolveLocale(context.language);
+        }
+
+        const digits = (context?.contactNumber || '').replace(/\D/g, '');
+        let detected: string | undefined;
+        let matchedLength = 0;
+
+        for (const bundle of this.bundles.values()) {
+            for (const dialCode of bundle.dialCodes) {
+                if (dialCode.length > matchedLength && digits.startsWith(dialCode)) {
+                    detected = bundle.locale;
+                    matchedLength = dialCode.length;
+                }
+            }
+        }
+
+        return detected || this.defaultLocale;
+    }
+
+    /**
+     * Obtém o texto da chave no idioma informado, preenchendo os parâmetros
+     */
+    t(key: MessageKey, locale?: string, params: Record<string, any> = {}): string {
+        const bundle = this.bundles.get(this.resolveLocale(locale))!;
+        return TemplateEngine.render(bundle.messages[key], params, { locale: bundle.locale });
+    }
+
+    /**
+     * Palavras que ativam os comandos de controle no idioma
+     */
+    getKeywords(locale?: string): Record<ControlKeyword, string[]> {
+        return this.bundles.get(this.resolveLocale(locale))!.keywords;
+    }
+
+    /**
+     * Carrega todos os pacotes do diretório e confere se estão completos
+     */
+    private load(directory: string): void {
+        const issues: string[] = [];
+        let files: string[];
+
+        try {
+            files = readdirSync(directory).filter(file => LOCALE_FILE_EXTENSIONS.includes(extname(file))).sort();
+        } catch (error) {
+            throw new LocaleBundleError(directory, [`não foi possível ler o diretório: ${error.message}`]);
+        }
+
+        for (const file of files) {
+            let raw: unknown;
+
+            try {
+                const content = readFileSync(join(directory, file), 'utf8');
+                raw = extname(file) === '.json' ? JSON.parse(content) : parseYaml(content);
+            } catch (error) {
+                issues.push(`${file}: não foi possível ler o arquivo: ${error.message}`);
+                continue;
+            }
+
+            const bundle = this.parseBundle(raw, file, issues);
+            if (!bundle) continue;
+
+            if (this.bundles.has(bundle.locale)) {
+                issues.push(`${file}: idioma "${bundle.locale}" duplicado`);
+                continue;
+            }
+            this.bundles.set(bundle.locale, bundle);
+        }
+
+        if (issues.length === 0 && !this.bundles.has(this.defaultLocale)) {
+            issues.push(`idioma padrão "${this.defaultLocale}" não encontrado`);
+        }
+
+        if (issues.length > 0) {
+            throw new LocaleBundleError(directory, issues);
+        }
+    }
+
+    private parseBundle(raw: unknown, file: string, issues: string[]): LocaleBundle | undefined {
+        if (!this.isObject(raw)) {
+            issues.push(`${file}: o pacote deve ser um objeto`);
+            return undefined;
+        }
+
+        const definition = raw as Partial<LocaleDefinition>;
+        const before = issues.length;
+
+        for (const field of ['locale', 'name'] as const) {
+            if (typeof definition[field] !== 'string' || definition[field] === '') {
+                issues.push(`${file}: "${field}" deve ser uma string não vazia`);
+            }
+        }
+
+        const dialCodes = definition.dialCodes ?? [];
+        if (!Array.isArray(dialCodes) || dialCodes.some(code => !/^\d+$/.test(String(code)))) {
+            issues.push(`${file}: "dialCodes" deve ser uma lista de códigos numéricos`);
+        }
+
+        for (const keyword of CONTROL_KEYWORDS) {
+            const words = definition.keywords?.[keyword];
+            if (!Array.isArray(words) || words.length === 0) {
+                issues.push(`${file}: "keywords.${keyword}" deve ser uma lista não vazia`);
+            }
+        }
+
+        const messages = this.isObject(definition.messages) ? this.flatten(definition.messages) : {};
+
+        for (const key of MESSAGE_KEYS) {
+            if (typeof messages[key] !== 'string') {
+                issues.push(`${file}: chave "messages.${key}" ausente`);
+                continue;
+            }
+
+            for (const issue of TemplateEngine.validate(messages[key]).issues) {
+                issues.push(`${file}: "messages.${key}": ${issue}`);
+            }
+        }
+
+        const unknownKeys = Object.keys(messages).filter(key => !(MESSAGE_KEYS as readonly string[]).includes(key));
+        if (unknownKeys.length > 0) {
+            this.logger.warn(`${file}: chaves não utilizadas ignoradas: ${unknownKeys.join(', ')}`);
+        }
+
+        if (issues.length > before) {
+            return undefined;
+        }
+
+        return {
+            locale: definition.locale!,
+            name: definition.name!,
+            dialCodes: dialCodes.map(String),
+            keywords: {
+                back: definition.keywords!.back.map(String),
+                restart: definition.keywords!.restart.map(String)
+            },
+            messages
+        };
+    }
+
+    /**
+     * Achata `{ a: { b: 'x' } }` em `{ 'a.b': 'x' }`
+     */
+    private flatten(messages: Record<string, any>, prefix = ''): Record<string, string> {
+        const flat: Record<string, string> = {};
+
+        for (const [key, value] of Object.entries(messages)) {
+            const path = prefix ? `${prefix}.${key}` : key;
+
+            if (this.isObject(value)) {
+                Object.assign(flat, this.flatten(value, path));
+            } else {
+                flat[path] = value;
+            }
+        }
+
+        return flat;
+    }
+
+    private isObject(value: unknown): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConversationState, FlowIntent, FlowStep } from '../interfaces/conversation.interface';
+import { OptionMatcher } from '../../common/option-matcher';
+import { FlowService } from './flow.service';
+import { CONTROL_KEYWORDS, I18nService } from './i18n.service';
+
+/**
+ * Prioridade dos comandos de controle (`back` e `restart`), cujas palavras vêm do
+ * pacote de idioma da conversa; intenções sem prioridade valem 0
+ */
+export const CONTROL_INTENT_PRIORITY = 100;
+
+/**
+ * Registro de intenções globais: frases ou expressões reconhecidas em qualquer
+ * passo, antes das opções e validações do passo atual. Reúne os comandos de
+ * controle, as intenções declaradas na versão do fluxo da conversa e as
+ * registradas por outros módulos na inicialização.
+ */
+@Injectable()
+export class IntentService {
+    private readonly logger = new Logger(IntentService.name);
+    private readonly intents = new Map<string, FlowIntent>();
+
+    constructor(
+        private readonly flow: FlowService,
+        private readonly i18n: I18nService
+    ) { }
+
+    /**
+     * Registra uma intenção válida em todas as versões do fluxo; registrar o
+     * mesmo id novamente substitui a anterior
+     */
+    register(intent: FlowIntent): void {
+        if (this.intents.has(intent.id)) {
+            this.logger.warn(`Intenção "${intent.id}" substituída`);
+        }
+
+        this.intents.set(intent.id, intent);
+        this.logger.log(`Intenção registrada: ${intent.id}`);
+    }
+
+    /**
+     * Lista as intenções ativas no passo, na ordem de avaliação: maior prioridade
+     * primeiro e, em empate, comandos de controle, intenções do fluxo e registradas.
+     * `disableIntents: true` desativa todas exceto os comandos de controle, que só
+     * são desativados pelo id
+     */
+    list(state: ConversationState, step?: FlowStep): FlowIntent[] {
+        const keywords = this.i18n.getKeywords(state.locale);
+        const controls: FlowIntent[] = CONTROL_KEYWORDS.map(command => ({
+            id: command,
+            keywords: keywords[command],
+            command,
+            priority: CONTROL_INTENT_PRIORITY
+        }));
+
+        const disabled = step?.disableIntents;
+        const isEnabled = (intent: FlowIntent) => Array.isArray(disabled)
+            ? !disabled.includes(intent.id)
+            : !disabled || (CONTROL_KEYWORDS as string[]).includes(intent.id);
+
+        return [...controls, ...this.flow.getIntents(state.flowVersion), ...this.intents.values()]
+            .filter(isEnabled)
+            .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    }
+
+    /**
+     * Procura a primeira intenção que corresponde à mensagem inteira
+     */
+    match(input: string, state: ConversationState, step?: FlowStep): FlowIntent | undefined {
+        const text = input.trim();
+        if (!text) {
+            return undefined;
+        }
+
+        const normalized = this.normalize(text);
+
+        return this.list(state, step).find(intent =>
+            (intent.keywords || []).some(keyword => this.normalize(keyword) === normalized) ||
+            (intent.patterns || []).some(pattern => pattern.test(text))
+        );
+    }
+
+    /**
+     * Compara sem acentos, maiúsculas e pontuação; palavras feitas só de
+     * símbolos (como `#`) são comparadas como estão
+     */
+    private normalize(text: string): string {
+        return OptionMatcher.normalize(text) || text.trim();
+    }
+}
@@ -0,0 +1,93 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+interface PendingBatch {
+    messages: string[];
+    firstReceivedAt: number;
+    timer: NodeJS.Timeout;
+    onFlush: (combined: string) => Promise<void>;
+}
+
+/**
+ * Agrupa mensagens enviadas em sequência pelo mesmo usuário.
+ * A janela é reiniciada a cada nova mensagem, limitada a um tempo máximo de espera;
+ * ao fechar, as mensagens são entregues como uma única entrada.
+ */
+@Injectable()
+export class MessageAggregatorService implements OnModuleDestroy {
+    private readonly logger = new Logger(MessageAggregatorService.name);
+    private readonly pending = new Map<string, PendingBatch>();
+    private readonly enabled: boolean;
+    private readonly windowMs: number;
+    private readonly maxWaitMs: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.enabled = this.configService.get<string>('CHATBOT_DEBOUNCE_MODE', 'reject') === 'aggregate';
+        this.windowMs = Number(this.configService.get('CHATBOT_AGGREGATION_WINDOW', 3000));
+        this.maxWaitMs = Number(this.configService.get('CHATBOT_AGGREGATION_MAX_WAIT', 10000));
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        // Processa o que ainda estiver no buffer antes de encerrar
+        await Promise.all([...this.pending.keys()].map(userId => this.flush(userId)));
+    }
+
+    /**
+     * Indica se o modo de agregação está ativo (CHATBOT_DEBOUNCE_MODE=aggregate)
+     */
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Adiciona uma mensagem ao buffer do usuário. `onFlush` recebe a entrada
+     * combinada quando a janela fechar (vale o callback mais recente)
+     */
+    add(userId: string, message: string, onFlush: (combined: string) => Promise<void>): void {
+        const now = Date.now();
+        const batch = this.pending.get(userId);
+
+        if (batch) {
+            clearTimeout(batch.timer);
+            batch.messages.push(message);
+            batch.onFlush = onFlush;
+        }
+
+        const current = batch || { messages: [message], firstReceivedAt: now, onFlush } as PendingBatch;
+        const remaining = Math.max(0, current.firstReceivedAt + this.maxWaitMs - now);
+
+        current.timer = setTimeout(() => void this.flush(userId), Math.min(this.windowMs, remaining));
+        this.pending.set(userId, current);
+
+        this.logger.debug(`Mensagem agrupada para usuário ${userId} (${current.messages.length} no buffer)`);
+    }
+
+    /**
+     * Quantidade de usuários com mensagens aguardando o fechamento da janela
+     */
+    getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Fecha a janela do usuário e entrega a entrada combinada
+     */
+    async flush(userId: string): Promise<void> {
+        const batch = this.pending.get(userId);
+        if (!batch) return;
+
+        clearTimeout(batch.timer);
+        this.pending.delete(userId);
+
+        const combined = batch.messages
+            .map(message => message.trim())
+            .filter(message => message !== '')
+            .join(' ');
+
+        try {
+            await batch.onFlush(combined);
+        } catch (error) {
+            this.logger.error(`Erro ao processar mensagens agrupadas do usuário ${userId}:`, error);
+        }
+    }
+}
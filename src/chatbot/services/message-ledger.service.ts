@@ -0,0 +1,88 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CONVERSATION_STORE } from '../interfaces/conversation-store.interface';
+import type { ConversationStore } from '../interfaces/conversation-store.interface';
+
+/**
+ * Registro de uma mensagem recebida no livro de mensagens processadas
+ */
+export interface ProcessedMessageEntry<T = unknown> {
+    status: 'processing' | 'completed';
+    startedAt: number;
+    completedAt?: number;
+    outcome?: T;
+}
+
+/**
+ * Resultado do processamento idempotente de uma mensagem
+ */
+export interface LedgerResult<T> {
+    /** Resultado da execução (ou o original, quando a mensagem já foi processada) */
+    outcome?: T;
+    /** A mensagem já tinha sido recebida antes */
+    duplicate: boolean;
+}
+
+/**
+ * Livro de mensagens processadas: garante que cada `messageId` seja executado
+ * uma única vez e guarda o resultado para responder às reentregas do webhook.
+ * Usa o mesmo armazenamento do estado das conversas, então vale entre réplicas.
+ */
+@Injectable()
+export class MessageLedgerService {
+    private readonly logger = new Logger(MessageLedgerService.name);
+    private readonly ttl: number;
+    // Prazo da marcação "em processamento"; se o processo cair, a reentrega é executada depois dele
+    private readonly PROCESSING_TIMEOUT = 2 * 60 * 1000;
+
+    constructor(
+        @Inject(CONVERSATION_STORE) private readonly store: ConversationStore,
+        private readonly configService: ConfigService
+    ) {
+        this.ttl = Number(this.configService.get('GOSAC_WEBHOOK_DEDUP_TTL', 24 * 60 * 60 * 1000));
+    }
+
+    /**
+     * Executa o handler apenas na primeira entrega da mensagem. Reentregas recebem o
+     * resultado registrado (ou nenhum, se a primeira ainda estiver em andamento).
+     * Se o handler falhar, a marcação é removida para que a reentrega seja executada.
+     */
+    async process<T>(messageId: string, handler: () => Promise<T>): Promise<LedgerResult<T>> {
+        const key = this.entryKey(messageId);
+        const startedAt = Date.now();
+
+        // A marcação é gravada atomicamente: entre entregas simultâneas (inclusive em
+        // réplicas diferentes) só uma executa o handler
+        const claimed = await this.store.setIfAbsent<ProcessedMessageEntry<T>>(
+            key,
+            { status: 'processing', startedAt },
+            this.PROCESSING_TIMEOUT
+        );
+
+        if (!claimed) {
+            const previous = await this.store.get<ProcessedMessageEntry<T>>(key);
+            this.logger.log(`Mensagem ${messageId} já recebida (${previous?.status ?? 'expirada'}); reentrega ignorada`);
+            return { outcome: previous?.outcome, duplicate: true };
+        }
+
+        let outcome: T;
+        try {
+            outcome = await handler();
+        } catch (error) {
+            await this.store.delete(key);
+            throw error;
+        }
+
+        await this.store.set<ProcessedMessageEntry<T>>(
+            key,
+            { status: 'completed', startedAt, completedAt: Date.now(), outcome },
+            this.ttl
+        );
+
+        return { outcome, duplicate: false };
+    }
+
+    private entryKey(messageId: string): string {
+        return `processed:${messageId}`;
+    }
+}
@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import { MessageFormatter } from '../../common/utils';
+import { ChatbotResponse } from '../interfaces/conversation.interface';
+import { RenderedMessage, RenderProfile, TextMarkup } from '../interfaces/rendering.interface';
+
+/**
+ * Perfil usado quando o canal não informa o seu: marcação do WhatsApp, escolhas
+ * interativas e o limite de texto de uma mensagem do WhatsApp
+ */
+export const DEFAULT_RENDER_PROFILE: RenderProfile = {
+    markup: 'whatsapp',
+    maxLength: 4096,
+    interactive: true
+};
+
+/**
+ * Trechos menores que essa fração do limite não são cortados em parágrafo ou
+ * linha; o corte procura um separador menor
+ */
+const MIN_CHUNK_RATIO = 0.5;
+
+/**
+ * Converte a resposta do chatbot nas mensagens que o canal envia: organiza o texto,
+ * ajusta a marcação, escreve as escolhas no texto (ou as mantém como botões/lista),
+ * divide textos acima do limite do canal e acrescenta um envio por anexo.
+ * Todo caminho de entrega passa por aqui, então o usuário vê a mesma resposta em
+ * qualquer canal, respeitados os recursos de cada um.
+ */
+@Injectable()
+export class ResponseRendererService {
+    /**
+     * Monta as mensagens de uma resposta; respostas silenciosas não geram envio
+     */
+    render(response: ChatbotResponse, profile: RenderProfile = DEFAULT_RENDER_PROFILE): RenderedMessage[] {
+        if (response.silent) {
+            return [];
+        }
+
+        // Botões e listas precisam de um texto para acompanhá-los
+        const interactive = profile.interactive && response.message.trim() ? response.interactive : undefined;
+        const sections = [response.message];
+
+        if (!interactive && response.options?.length) {
+            sections.push(response.options.join('\n'));
+        }
+
+        const text = this.applyMarkup(this.layout(sections.join('\n\n')), profile.markup);
+        const messages: RenderedMessage[] = this.split(text, profile.maxLength).map(chunk => ({ text: chunk }));
+
+        // As escolhas acompanham o último trecho, logo abaixo da pergunta
+        if (interactive && messages.length > 0) {
+            messages[messages.length - 1].interactive = interactive;
+        }
+
+        const maxCaptionLength = profile.maxCaptionLength ?? profile.maxLength;
+
+        for (const attachment of response.attachments || []) {
+            const caption = this.applyMarkup(this.layout(attachment.caption || attachment.filename || ''), profile.markup);
+
+            messages.push({
+                text: caption.length > maxCaptionLength ? MessageFormatter.truncate(caption, maxCaptionLength - 3) : caption,
+                attachment
+            });
+        }
+
+        return messages;
+    }
+
+    /**
+     * Normaliza quebras de linha, remove espaços no fim das linhas e limita a
+     * uma linha em branco entre parágrafos
+     */
+    private layout(text: string): string {
+        return text
+            .replace(/\r\n?/g, '\n')
+            .replace(/[ \t]+$/gm, '')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    /**
+     * Traduz a marcação comum em Markdown (`**negrito**`, `~~tachado~~`, títulos e
+     * links) para a do WhatsApp e, em texto simples, remove toda a marcação
+     */
+    private applyMarkup(text: string, markup: TextMarkup): string {
+        const whatsapp = text
+            .replace(/\*\*(\S(?:[^*]*?\S)?)\*\*/g, '*$1*')
+            .replace(/__(\S(?:[^_]*?\S)?)__/g, '_$1_')
+            .replace(/~~(\S(?:[^~]*?\S)?)~~/g, '~$1~')
+            .replace(/^#{1,6}[ \t]+(.+)$/gm, '*$1*')
+            .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '$1 ($2)');
+
+        if (markup === 'whatsapp') {
+            return whatsapp;
+        }
+
+        // Só remove marcadores que o WhatsApp formataria: colados ao texto e
+        // separados das palavras vizinhas (preserva `nome_do_arquivo` e `2*3`)
+        return whatsapp
+            .replace(/```([\s\S]*?)```/g, '$1')
+            .replace(/(^|[\s(])([*_~])(\S(?:.*?\S)?)\2(?=$|[\s).,!?:;])/gm, '$1$3');
+    }
+
+    /**
+     * Divide o texto em trechos de até `maxLength` caracteres, cortando de
+     * preferência entre parágrafos, depois entre linhas e por fim entre palavras
+     */
+    private split(text: string, maxLength: number): string[] {
+        const chunks: string[] = [];
+        let rest = text;
+
+        while (rest.length > maxLength) {
+            const cut = this.findBreak(rest, maxLength);
+            chunks.push(rest.slice(0, cut).trimEnd());
+            rest = rest.slice(cut).trimStart();
+        }
+
+        if (rest) {
+            chunks.push(rest);
+        }
+
+        return chunks;
+    }
+
+    private findBreak(text: string, maxLength: number): number {
+        const minimum = Math.floor(maxLength * MIN_CHUNK_RATIO);
+
+        for (const separator of ['\n\n', '\n']) {
+            const index = text.lastIndexOf(separator, maxLength);
+            if (index >= minimum) return index;
+        }
+
+        const space = text.lastIndexOf(' ', maxLength);
+        if (space > 0) return space;
+
+        // Palavra maior que o limite: corta no limite sem separar um emoji ao meio
+        const code = text.charCodeAt(maxLength - 1);
+        return code >= 0xd800 && code <= 0xdbff ? maxLength - 1 : maxLength;
+    }
+}
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Erro lançado quando a fila de um usuário atinge o limite configurado
+ */
+export class UserQueueFullError extends Error {
+    constructor(
+        readonly userId: string,
+        readonly maxLength: number
+    ) {
+        super(`Fila de mensagens do usuário ${userId} cheia (limite ${maxLength})`);
+        this.name = 'UserQueueFullError';
+    }
+}
+
+interface UserQueue {
+    tail: Promise<void>;
+    depth: number;
+}
+
+/**
+ * Serializa o processamento de mensagens por usuário: mensagens do mesmo contato
+ * rodam estritamente em ordem de chegada, contatos diferentes rodam em paralelo.
+ * A serialização vale dentro do processo.
+ */
+@Injectable()
+export class UserMessageQueueService {
+    private readonly logger = new Logger(UserMessageQueueService.name);
+    private readonly queues = new Map<string, UserQueue>();
+    private readonly maxQueueLength: number;
+    private processedCount = 0;
+    private rejectedCount = 0;
+    private peakDepth = 0;
+
+    constructor(private readonly configService: ConfigService) {
+        this.maxQueueLength = Number(this.configService.get('CHATBOT_MAX_QUEUE_PER_USER', 10));
+    }
+
+    /**
+     * Enfileira uma tarefa para o usuário e resolve com o seu resultado
+     */
+    run<T>(userId: string, task: () => Promise<T>): Promise<T> {
+        const queue = this.queues.get(userId) || { tail: Promise.resolve(), depth: 0 };
+
+        if (queue.depth >= this.maxQueueLength) {
+            this.rejectedCount++;
+            this.logger.warn(`Mensagem rejeitada: fila do usuário ${userId} com ${queue.depth} mensagens`);
+            return Promise.reject(new UserQueueFullError(userId, this.maxQueueLength));
+        }
+
+        queue.depth++;
+        this.peakDepth = Math.max(this.peakDepth, queue.depth);
+        this.queues.set(userId, queue);
+
+        const result = queue.tail.then(() => task());
+
+        queue.tail = result
+            .then(() => undefined, () => undefined)
+            .then(() => {
+                queue.depth--;
+                this.processedCount++;
+
+                if (queue.depth === 0 && this.queues.get(userId) === queue) {
+                    this.queues.delete(userId);
+                }
+            });
+
+        return result;
+    }
+
+    /**
+     * Obtém quantas mensagens do usuário estão em processamento ou aguardando
+     */
+    getDepth(userId: string): number {
+        return this.queues.get(userId)?.depth || 0;
+    }
+
+    /**
+     * Obtém métricas das filas
+     */
+    getMetrics() {
+        const depths = [...this.queues.values()].map(queue => queue.depth);
+
+        return {
+            activeUsers: this.queues.size,
+            queuedMessages: depths.reduce((total, depth) => total + depth, 0),
+            maxDepth: depths.length > 0 ? Math.max(...depths) : 0,
+            peakDepth: this.peakDepth,
+            maxQueueLength: this.maxQueueLength,
+            processed: this.processedCount,
+            rejected: this.rejectedCount
+        };
+    }
+}
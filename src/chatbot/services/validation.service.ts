@@ -1,18 +1,34 @@
 import { Injectable } from '@nestjs/common';
-import { ValidationRule } from '../interfaces/conversation.interface';
+import { InboundMedia, InputNormalizer, MediaRequirement, ValidationRule } from '../interfaces/conversation.interface';
+import { StringUtils } from '../../common/utils';
+import { I18nService, MessageKey } from './i18n.service';
+
+/**
+ * Normalizadores disponíveis para passos de coleta de dados
+ */
+export const INPUT_NORMALIZERS: Record<InputNormalizer, (value: string) => string> = {
+    trim: (value) => value.trim().replace(/\s+/g, ' '),
+    lowercase: (value) => value.toLowerCase(),
+    uppercase: (value) => value.toUpperCase(),
+    capitalize: (value) => value.split(' ').map(word => StringUtils.capitalize(word)).join(' '),
+    digitsOnly: (value) => value.replace(/\D/g, ''),
+    maskCpf: (value) => StringUtils.maskCPF(value),
+    maskPhone: (value) => StringUtils.maskPhone(value)
+};
 
 @Injectable()
 export class ValidationService {
+    constructor(private readonly i18n: I18nService) { }
 
     /**
-     * Valida entrada do usuário baseado nas regras
+     * Valida entrada do usuário baseado nas regras; as mensagens padrão seguem o idioma informado
      */
-    validateInput(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    validateInput(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         if (!input || input.trim() === '') {
             if (rule.required !== false) {
                 return {
                     isValid: false,
-                    errorMessage: rule.errorMessage || 'Por favor, digite uma resposta válida.'
+                    errorMessage: this.errorMessage(rule, 'validation.required', locale)
                 };
             }
             return { isValid: true };
@@ -24,7 +40,7 @@ export class ValidationService {
         if (rule.minLength && trimmedInput.length < rule.minLength) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || `A resposta deve ter pelo menos ${rule.minLength} caracteres.`
+                errorMessage: this.errorMessage(rule, 'validation.minLength', locale, { min: rule.minLength })
             };
         }
 
@@ -32,49 +48,81 @@ export class ValidationService {
         if (rule.maxLength && trimmedInput.length > rule.maxLength) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || `A resposta deve ter no máximo ${rule.maxLength} caracteres.`
+                errorMessage: this.errorMessage(rule, 'validation.maxLength', locale, { max: rule.maxLength })
             };
         }
 
         // Validação por tipo
         switch (rule.type) {
             case 'number':
-                return this.validateNumber(trimmedInput, rule);
+                return this.validateNumber(trimmedInput, rule, locale);
 
             case 'email':
-                return this.validateEmail(trimmedInput, rule);
+                return this.validateEmail(trimmedInput, rule, locale);
 
             case 'phone':
-                return this.validatePhone(trimmedInput, rule);
+                return this.validatePhone(trimmedInput, rule, locale);
 
             case 'option':
-                return this.validateOption(trimmedInput, rule);
+                return this.validateOption(trimmedInput, rule, locale);
 
             case 'custom':
-                return this.validateCustom(trimmedInput, rule);
+                return this.validateCustom(trimmedInput, rule, locale);
 
             case 'text':
             default:
-                return this.validateText(trimmedInput, rule);
+                return this.validateText(trimmedInput, rule, locale);
         }
     }
 
+    /**
+     * Valida a mídia recebida contra o que o passo espera. Passos sem `requirement`
+     * só aceitam texto; localizações sem coordenadas não são aceitas
+     */
+    validateMedia(
+        media: InboundMedia | undefined,
+        requirement: MediaRequirement | undefined,
+        locale?: string
+    ): { isValid: boolean; errorMessage?: string } {
+        if (!requirement) {
+            return media ? { isValid: false, errorMessage: this.i18n.t('media.unexpected', locale) } : { isValid: true };
+        }
+
+        const types = requirement.accept.map(type => this.i18n.t(`media.types.${type}`, locale)).join(', ');
+
+        if (!media || (media.type === 'location' && !media.location)) {
+            return { isValid: false, errorMessage: this.errorMessage(requirement, 'media.expected', locale, { types }) };
+        }
+
+        if (!requirement.accept.includes(media.type)) {
+            return {
+                isValid: false,
+                errorMessage: this.errorMessage(requirement, 'media.wrongType', locale, {
+                    types,
+                    received: this.i18n.t(`media.types.${media.type}`, locale)
+                })
+            };
+        }
+
+        return { isValid: true };
+    }
+
     /**
      * Valida se é um número válido
      */
-    private validateNumber(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    private validateNumber(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         const num = Number(input);
         if (isNaN(num)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Por favor, digite apenas números.'
+                errorMessage: this.errorMessage(rule, 'validation.number', locale)
             };
         }
 
         if (rule.pattern && !rule.pattern.test(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Formato de número inválido.'
+                errorMessage: this.errorMessage(rule, 'validation.numberFormat', locale)
             };
         }
 
@@ -84,20 +132,20 @@ export class ValidationService {
     /**
      * Valida email
      */
-    private validateEmail(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    private validateEmail(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
         if (!emailRegex.test(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Por favor, digite um email válido.'
+                errorMessage: this.errorMessage(rule, 'validation.email', locale)
             };
         }
 
         if (rule.pattern && !rule.pattern.test(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Formato de email inválido.'
+                errorMessage: this.errorMessage(rule, 'validation.emailFormat', locale)
             };
         }
 
@@ -107,7 +155,7 @@ export class ValidationService {
     /**
      * Valida telefone
      */
-    private validatePhone(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    private validatePhone(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         // Remove caracteres não numéricos
         const cleanPhone = input.replace(/\D/g, '');
 
@@ -115,14 +163,14 @@ export class ValidationService {
         if (cleanPhone.length < 10 || cleanPhone.length > 11) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Por favor, digite um telefone válido (10 ou 11 dígitos).'
+                errorMessage: this.errorMessage(rule, 'validation.phone', locale)
             };
         }
 
         if (rule.pattern && !rule.pattern.test(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Formato de telefone inválido.'
+                errorMessage: this.errorMessage(rule, 'validation.phoneFormat', locale)
             };
         }
 
@@ -132,7 +180,7 @@ export class ValidationService {
     /**
      * Valida opção (número ou texto de uma lista)
      */
-    private validateOption(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    private validateOption(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         // Se é um número, verifica se está na faixa válida
         const num = Number(input);
         if (!isNaN(num)) {
@@ -142,7 +190,7 @@ export class ValidationService {
         if (rule.pattern && !rule.pattern.test(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Opção inválida. Por favor, escolha uma das opções disponíveis.'
+                errorMessage: this.errorMessage(rule, 'validation.option', locale)
             };
         }
 
@@ -152,11 +200,11 @@ export class ValidationService {
     /**
      * Valida texto simples
      */
-    private validateText(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    private validateText(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         if (rule.pattern && !rule.pattern.test(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Formato de texto inválido.'
+                errorMessage: this.errorMessage(rule, 'validation.textFormat', locale)
             };
         }
 
@@ -166,17 +214,24 @@ export class ValidationService {
     /**
      * Valida usando validador customizado
      */
-    private validateCustom(input: string, rule: ValidationRule): { isValid: boolean; errorMessage?: string } {
+    private validateCustom(input: string, rule: ValidationRule, locale?: string): { isValid: boolean; errorMessage?: string } {
         if (rule.customValidator && !rule.customValidator(input)) {
             return {
                 isValid: false,
-                errorMessage: rule.errorMessage || 'Entrada inválida.'
+                errorMessage: this.errorMessage(rule, 'validation.invalid', locale)
             };
         }
 
         return { isValid: true };
     }
 
+    /**
+     * Mensagem definida na regra ou, na falta dela, o texto padrão do idioma
+     */
+    private errorMessage(rule: { errorMessage?: string }, key: MessageKey, locale?: string, params?: Record<string, any>): string {
+        return rule.errorMessage || this.i18n.t(key, locale, params);
+    }
+
     /**
      * Normaliza entrada do usuário
      */
@@ -185,24 +240,10 @@ export class ValidationService {
     }
 
     /**
-     * Verifica se a entrada corresponde a uma palavra-chave de controle
+     * Aplica normalizadores em sequência antes de salvar a resposta
      */
-    isControlKeyword(input: string): { type: 'back' | 'restart' | null; keyword: string } {
-        const normalized = this.normalizeInput(input);
-
-        // Palavras para voltar
-        const backKeywords = ['voltar', 'anterior', '0', 'back'];
-        if (backKeywords.includes(normalized)) {
-            return { type: 'back', keyword: normalized };
-        }
-
-        // Palavras para reiniciar
-        const restartKeywords = ['inicio', 'iniciar', 'recomecar', 'restart', 'start', '#'];
-        if (restartKeywords.includes(normalized)) {
-            return { type: 'restart', keyword: normalized };
-        }
-
-        return { type: null, keyword: normalized };
+    applyNormalizers(input: string, normalizers: InputNormalizer[] = ['trim']): string {
+        return normalizers.reduce((value, normalizer) => INPUT_NORMALIZERS[normalizer](value), input);
     }
 
     /**
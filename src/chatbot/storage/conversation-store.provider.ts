@@ -0,0 +1,46 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import {
+    CONVERSATION_STORE,
+    ConversationStore
+} from '../interfaces/conversation-store.interface';
+import { InMemoryConversationStore } from './in-memory-conversation.store';
+import { FileConversationStore } from './file-conversation.store';
+import { RedisConversationStore } from './redis-conversation.store';
+
+/**
+ * Cria o backend de armazenamento escolhido em CONVERSATION_STORE (memory | file | redis)
+ */
+export function createConversationStore(configService: ConfigService): ConversationStore {
+    const logger = new Logger('ConversationStore');
+    const backend = configService.get<string>('CONVERSATION_STORE', 'memory');
+
+    switch (backend) {
+        case 'file': {
+            const filePath = configService.get<string>('CONVERSATION_STORE_FILE', './data/conversations.json');
+            logger.log(`Usando armazenamento em arquivo: ${filePath}`);
+            return new FileConversationStore(filePath);
+        }
+
+        case 'redis': {
+            const redisUrl = configService.get<string>('REDIS_URL', 'redis://localhost:6379');
+            const keyPrefix = configService.get<string>('REDIS_KEY_PREFIX', 'verador:');
+            logger.log(`Usando armazenamento Redis com prefixo "${keyPrefix}"`);
+            return new RedisConversationStore(new Redis(redisUrl), keyPrefix);
+        }
+
+        case 'memory':
+            logger.log('Usando armazenamento em memória (conversas são perdidas ao reiniciar)');
+            return new InMemoryConversationStore();
+
+        default:
+            throw new Error(`CONVERSATION_STORE inválido: "${backend}" (use memory, file ou redis)`);
+    }
+}
+
+export const conversationStoreProvider: Provider = {
+    provide: CONVERSATION_STORE,
+    useFactory: createConversationStore,
+    inject: [ConfigService]
+};
@@ -0,0 +1,89 @@
+import { Logger } from '@nestjs/common';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { InMemoryConversationStore } from './in-memory-conversation.store';
+
+/**
+ * Armazenamento em arquivo JSON para uma única instância (desenvolvimento e
+ * implantações pequenas): mantém os dados em memória e grava o snapshot inteiro
+ * após as alterações. Gravações são agrupadas: enquanto uma está em andamento,
+ * as alterações seguintes saem juntas na próxima, então o custo por mensagem não
+ * cresce com a frequência de escrita, apenas com o número de conversas. Para
+ * várias réplicas ou muitas conversas, use o backend Redis.
+ */
+export class FileConversationStore extends InMemoryConversationStore {
+    private readonly logger = new Logger(FileConversationStore.name);
+    private lastWrite: Promise<void> = Promise.resolve();
+    private nextWrite?: Promise<void>;
+
+    constructor(private readonly filePath: string) {
+        super();
+        this.load();
+    }
+
+    async close(): Promise<void> {
+        await this.lastWrite;
+        await super.close();
+    }
+
+    /**
+     * Agenda a gravação do snapshot após a gravação em andamento; alterações feitas
+     * antes dela começar compartilham a mesma gravação
+     */
+    protected persist(): Promise<void> {
+        if (!this.nextWrite) {
+            this.nextWrite = this.lastWrite.then(() => {
+                this.nextWrite = undefined;
+                return this.writeSnapshot();
+            });
+            this.lastWrite = this.nextWrite;
+        }
+
+        return this.nextWrite;
+    }
+
+    /**
+     * Grava o snapshot de forma atômica (arquivo temporário + rename)
+     */
+    private async writeSnapshot(): Promise<void> {
+        const snapshot = JSON.stringify(Object.fromEntries(this.entries));
+        const tempPath = `${this.filePath}.tmp`;
+
+        try {
+            await writeFile(tempPath, snapshot, 'utf8');
+            await rename(tempPath, this.filePath);
+        } catch (error) {
+            this.logger.error(`Erro ao gravar conversas em ${this.filePath}:`, error);
+        }
+    }
+
+    private load(): void {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        const content: unknown = JSON.parse(readFileSync(this.filePath, 'utf8'));
+        if (typeof content !== 'object' || content === null) {
+            this.logger.warn(`Arquivo de conversas ${this.filePath} ignorado: conteúdo inválido`);
+            return;
+        }
+
+        for (const [key, entry] of Object.entries(content as Record<string, unknown>)) {
+            if (this.isStoredEntry(entry)) {
+                this.entries.set(key, entry);
+            }
+        }
+
+        this.removeExpired();
+        this.logger.log(`${this.entries.size} registros de conversa carregados de ${this.filePath}`);
+    }
+
+    private isStoredEntry(entry: unknown): entry is { value: string; expiresAt?: number } {
+        const candidate = entry as { value?: unknown; expiresAt?: unknown } | null;
+        return typeof candidate?.value === 'string'
+            && (candidate.expiresAt === undefined || typeof candidate.expiresAt === 'number');
+    }
+}
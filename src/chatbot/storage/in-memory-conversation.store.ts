@@ -0,0 +1,86 @@
+import { ConversationStore } from '../interfaces/conversation-store.interface';
+
+interface StoredEntry {
+    value: string;
+    expiresAt?: number;
+}
+
+/**
+ * Armazenamento em memória do processo (comportamento padrão, sem persistência)
+ */
+export class InMemoryConversationStore implements ConversationStore {
+    protected readonly entries = new Map<string, StoredEntry>();
+    private readonly cleanupTimer: NodeJS.Timeout;
+
+    constructor(cleanupIntervalMs: number = 5 * 60 * 1000) {
+        // Limpeza periódica de chaves expiradas; não impede o encerramento do processo
+        this.cleanupTimer = setInterval(() => this.removeExpired(), cleanupIntervalMs);
+        this.cleanupTimer.unref();
+    }
+
+    get<T>(key: string): Promise<T | undefined> {
+        const entry = this.entries.get(key);
+
+        if (!entry || this.isExpired(entry)) {
+            if (entry) this.entries.delete(key);
+            return Promise.resolve(undefined);
+        }
+
+        return Promise.resolve(JSON.parse(entry.value) as T);
+    }
+
+    set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+        this.entries.set(key, {
+            value: JSON.stringify(value),
+            ...(ttlMs && { expiresAt: Date.now() + ttlMs })
+        });
+        return this.persist();
+    }
+
+    /**
+     * A verificação e a gravação acontecem no mesmo tick, sem concorrência possível
+     */
+    setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+        const entry = this.entries.get(key);
+
+        if (entry && !this.isExpired(entry)) {
+            return Promise.resolve(false);
+        }
+
+        return this.set(key, value, ttlMs).then(() => true);
+    }
+
+    delete(key: string): Promise<void> {
+        this.entries.delete(key);
+        return this.persist();
+    }
+
+    keys(prefix: string): Promise<string[]> {
+        this.removeExpired();
+        return Promise.resolve([...this.entries.keys()].filter(key => key.startsWith(prefix)));
+    }
+
+    close(): Promise<void> {
+        clearInterval(this.cleanupTimer);
+        return Promise.resolve();
+    }
+
+    /**
+     * Ponto de extensão para backends que gravam o conteúdo em disco
+     */
+    protected persist(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    protected removeExpired(): void {
+        for (const [key, entry] of this.entries) {
+            if (this.isExpired(entry)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    private isExpired(entry: StoredEntry): boolean {
+        return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+    }
+}
@@ -0,0 +1,61 @@
+import type { Redis } from 'ioredis';
+import { ConversationStore } from '../interfaces/conversation-store.interface';
+
+/**
+ * Armazenamento em Redis (ou servidor compatível), compartilhado entre réplicas
+ */
+export class RedisConversationStore implements ConversationStore {
+    constructor(
+        private readonly client: Redis,
+        private readonly keyPrefix: string = 'verador:'
+    ) { }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const value = await this.client.get(this.keyPrefix + key);
+        return value === null ? undefined : JSON.parse(value) as T;
+    }
+
+    async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+        const serialized = JSON.stringify(value);
+
+        if (ttlMs) {
+            await this.client.set(this.keyPrefix + key, serialized, 'PX', ttlMs);
+        } else {
+            await this.client.set(this.keyPrefix + key, serialized);
+        }
+    }
+
+    /**
+     * `SET NX`: o Redis garante que só uma réplica grava a chave
+     */
+    async setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+        const serialized = JSON.stringify(value);
+        const result = ttlMs
+            ? await this.client.set(this.keyPrefix + key, serialized, 'PX', ttlMs, 'NX')
+            : await this.client.set(this.keyPrefix + key, serialized, 'NX');
+
+        return result === 'OK';
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.del(this.keyPrefix + key);
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let cursor = '0';
+
+        // SCAN em vez de KEYS para não bloquear o servidor
+        do {
+            const [nextCursor, batch] = await this.client.scan(cursor, 'MATCH', `${this.keyPrefix}${prefix}*`, 'COUNT', 100);
+            keys.push(...batch.map(key => key.substring(this.keyPrefix.length)));
+            cursor = nextCursor;
+        } while (cursor !== '0');
+
+        return keys;
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit();
+    }
+}
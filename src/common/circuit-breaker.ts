@@ -0,0 +1,121 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Erro lançado quando uma chamada é recusada porque o circuito está aberto
+ */
+export class CircuitOpenError extends Error {
+    constructor(
+        readonly circuit: string,
+        readonly retryAt: Date
+    ) {
+        super(`${circuit} indisponível (circuito aberto)`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export interface CircuitBreakerOptions {
+    /** Falhas consecutivas que abrem o circuito */
+    failureThreshold: number;
+    /** Tempo (ms) com o circuito aberto antes de permitir uma sondagem */
+    resetTimeout: number;
+    /** Chamado sempre que o estado muda */
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Disjuntor para chamadas a um serviço externo. Após `failureThreshold` falhas
+ * consecutivas o circuito abre e as chamadas falham imediatamente; passado
+ * `resetTimeout`, uma sondagem (half-open) decide se ele fecha ou volta a abrir.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt?: number;
+    private lastFailure?: string;
+    private lastStateChangeAt = Date.now();
+
+    constructor(
+        readonly name: string,
+        private readonly options: CircuitBreakerOptions
+    ) { }
+
+    getState(): CircuitState {
+        return this.state;
+    }
+
+    /**
+     * Verifica se uma chamada comum pode seguir (apenas com o circuito fechado)
+     */
+    allowRequest(): boolean {
+        return this.state === 'closed';
+    }
+
+    /**
+     * Verifica se uma sondagem pode seguir; com o circuito aberto há tempo
+     * suficiente, passa para half-open
+     */
+    allowProbe(): boolean {
+        if (this.state === 'open' && Date.now() >= this.getRetryAt().getTime()) {
+            this.transition('half_open');
+        }
+
+        return this.state !== 'open';
+    }
+
+    /**
+     * Lança CircuitOpenError se a chamada comum não puder seguir
+     */
+    assertRequestAllowed(): void {
+        if (!this.allowRequest()) {
+            throw new CircuitOpenError(this.name, this.getRetryAt());
+        }
+    }
+
+    recordSuccess(): void {
+        this.consecutiveFailures = 0;
+
+        if (this.state !== 'closed') {
+            this.openedAt = undefined;
+            this.transition('closed');
+        }
+    }
+
+    recordFailure(reason?: string): void {
+        this.consecutiveFailures++;
+        this.lastFailure = reason;
+
+        if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+            this.openedAt = Date.now();
+            this.transition('open');
+        }
+    }
+
+    /**
+     * Instante a partir do qual uma sondagem é permitida
+     */
+    getRetryAt(): Date {
+        return new Date((this.openedAt ?? Date.now()) + this.options.resetTimeout);
+    }
+
+    /**
+     * Resumo do estado para health checks e métricas
+     */
+    getSnapshot() {
+        return {
+            name: this.name,
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            failureThreshold: this.options.failureThreshold,
+            lastFailure: this.lastFailure,
+            lastStateChangeAt: new Date(this.lastStateChangeAt).toISOString(),
+            retryAt: this.state === 'closed' ? undefined : this.getRetryAt().toISOString()
+        };
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.state;
+        this.state = state;
+        this.lastStateChangeAt = Date.now();
+        this.options.onStateChange?.(state, previous);
+    }
+}
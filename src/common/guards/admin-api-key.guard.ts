@@ -0,0 +1,36 @@
+import { CanActivate, ExecutionContext, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Protege rotas administrativas exigindo o header `x-admin-key` igual a ADMIN_API_KEY.
+ * Sem ADMIN_API_KEY configurada as rotas ficam bloqueadas.
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+    private readonly logger = new Logger(AdminApiKeyGuard.name);
+
+    constructor(private readonly configService: ConfigService) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const expectedKey = this.configService.get<string>('ADMIN_API_KEY', '');
+
+        if (!expectedKey) {
+            this.logger.warn('Rota administrativa bloqueada: ADMIN_API_KEY não configurada');
+            return false;
+        }
+
+        const request = context.switchToHttp().getRequest<Request>();
+        const providedKey = request.headers['x-admin-key'];
+
+        if (typeof providedKey !== 'string') {
+            return false;
+        }
+
+        const expected = Buffer.from(expectedKey);
+        const provided = Buffer.from(providedKey);
+
+        return expected.length === provided.length && timingSafeEqual(expected, provided);
+    }
+}
@@ -0,0 +1,82 @@
+import { CanActivate, ExecutionContext, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+
+export const GOSAC_SIGNATURE_HEADER = 'x-gosac-signature';
+export const GOSAC_TIMESTAMP_HEADER = 'x-gosac-timestamp';
+
+/**
+ * Calcula a assinatura esperada de um webhook: HMAC-SHA256 de "<timestamp>.<corpo bruto>"
+ */
+export function signGosacWebhook(secret: string, timestamp: string, body: string | Buffer): string {
+    return createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+}
+
+/**
+ * Autentica os webhooks do GOSAC: exige a assinatura HMAC do corpo com
+ * GOSAC_WEBHOOK_SECRET e recusa timestamps fora da tolerância. Reentregas
+ * válidas são tratadas pelo livro de mensagens processadas (MessageLedgerService).
+ * Sem GOSAC_WEBHOOK_SECRET a aplicação não inicia, a menos que
+ * GOSAC_WEBHOOK_ALLOW_UNSIGNED=true libere explicitamente webhooks sem assinatura.
+ */
+@Injectable()
+export class GosacWebhookGuard implements CanActivate {
+    private readonly logger = new Logger(GosacWebhookGuard.name);
+    private readonly secret: string;
+    private readonly tolerance: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.secret = this.configService.get<string>('GOSAC_WEBHOOK_SECRET', '');
+        this.tolerance = Number(this.configService.get('GOSAC_WEBHOOK_TOLERANCE', 5 * 60 * 1000));
+
+        if (!this.secret) {
+            if (this.configService.get<string>('GOSAC_WEBHOOK_ALLOW_UNSIGNED', 'false') !== 'true') {
+                throw new Error(
+                    'GOSAC_WEBHOOK_SECRET não configurado: defina o segredo compartilhado com o GOSAC ' +
+                    'ou GOSAC_WEBHOOK_ALLOW_UNSIGNED=true para aceitar webhooks sem assinatura'
+                );
+            }
+
+            this.logger.warn('GOSAC_WEBHOOK_ALLOW_UNSIGNED=true: webhooks do GOSAC aceitos sem assinatura');
+        }
+    }
+
+    canActivate(context: ExecutionContext): boolean {
+        if (!this.secret) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+        const signature = this.readHeader(request, GOSAC_SIGNATURE_HEADER)?.replace(/^sha256=/, '');
+        const timestamp = this.readHeader(request, GOSAC_TIMESTAMP_HEADER);
+
+        if (!signature || !timestamp) {
+            throw new UnauthorizedException('Assinatura do webhook ausente');
+        }
+
+        // Timestamp em segundos desde a época Unix
+        const sentAt = Number(timestamp) * 1000;
+        if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > this.tolerance) {
+            this.logger.warn(`Webhook recusado: timestamp ${timestamp} fora da tolerância`);
+            throw new UnauthorizedException('Timestamp do webhook expirado');
+        }
+
+        const body = request.rawBody ?? JSON.stringify(request.body ?? {});
+        const expected = Buffer.from(signGosacWebhook(this.secret, timestamp, body));
+        const provided = Buffer.from(signature);
+
+        if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+            this.logger.warn('Webhook recusado: assinatura inválida');
+            throw new UnauthorizedException('Assinatura do webhook inválida');
+        }
+
+        return true;
+    }
+
+    private readHeader(request: Request, name: string): string | undefined {
+        const value = request.headers[name];
+        return typeof value === 'string' ? value : undefined;
+    }
+}
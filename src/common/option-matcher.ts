@@ -0,0 +1,99 @@
+import { StringUtils } from './utils';
+
+/**
+ * Resultado da busca de uma opção pelo texto digitado
+ */
+export type OptionMatch<T> =
+    | { status: 'matched'; option: T }
+    | { status: 'ambiguous'; options: T[] }
+    | { status: 'none' };
+
+/** Entradas menores que isso só casam com o texto exato (evita "a" casar com tudo) */
+const MIN_PARTIAL_LENGTH = 3;
+/** Entradas menores que isso não usam distância de edição */
+const MIN_FUZZY_LENGTH = 4;
+/** Similaridade mínima (1 - distância / tamanho) para aceitar um erro de digitação */
+const MIN_SIMILARITY = 0.55;
+
+const SCORES = {
+    exact: 1,
+    words: 0.9,
+    prefix: 0.8,
+    /** Multiplicado pela similaridade; sempre abaixo dos demais */
+    fuzzy: 0.7
+};
+
+/**
+ * Compara o texto digitado com as opções de um passo ignorando acentos, emojis,
+ * pontuação e pequenos erros de digitação. Cada opção tem uma lista de frases
+ * (texto, chave e sinônimos); vence a de maior pontuação, e um empate entre
+ * opções diferentes é devolvido como ambíguo.
+ */
+export class OptionMatcher {
+    /**
+     * Procura a opção que melhor corresponde à entrada
+     */
+    static match<T>(input: string, options: T[], phrasesOf: (option: T) => string[]): OptionMatch<T> {
+        const query = this.normalize(input);
+        if (!query) {
+            return { status: 'none' };
+        }
+
+        const scored = options
+            .map(option => ({
+                option,
+                score: Math.max(0, ...phrasesOf(option).map(phrase => this.score(query, this.normalize(phrase))))
+            }))
+            .filter(candidate => candidate.score > 0);
+
+        if (scored.length === 0) {
+            return { status: 'none' };
+        }
+
+        const best = Math.max(...scored.map(candidate => candidate.score));
+        const top = scored.filter(candidate => best - candidate.score < 0.001).map(candidate => candidate.option);
+
+        return top.length === 1
+            ? { status: 'matched', option: top[0] }
+            : { status: 'ambiguous', options: top };
+    }
+
+    /**
+     * Minúsculas, sem acentos, emojis ou pontuação e com espaços simples
+     */
+    static normalize(text: string): string {
+        return StringUtils.removeAccents(text.toLowerCase())
+            .replace(/[^a-z0-9]+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Pontua uma frase já normalizada contra a entrada (0 quando não corresponde)
+     */
+    private static score(query: string, phrase: string): number {
+        if (!phrase) return 0;
+        if (query === phrase) return SCORES.exact;
+        if (query.length < MIN_PARTIAL_LENGTH) return 0;
+
+        if (` ${phrase} `.includes(` ${query} `)) return SCORES.words;
+
+        const words = phrase.split(' ');
+        if (words.some(word => word.startsWith(query))) return SCORES.prefix;
+        if (query.length < MIN_FUZZY_LENGTH) return 0;
+
+        // Cada palavra digitada é comparada com a palavra mais parecida da frase
+        const queryWords = query.split(' ');
+        const similarity = queryWords.reduce((total, queryWord) =>
+            total + Math.max(...words.map(word => this.wordSimilarity(queryWord, word))), 0) / queryWords.length;
+
+        return similarity >= MIN_SIMILARITY ? SCORES.fuzzy * similarity : 0;
+    }
+
+    private static wordSimilarity(queryWord: string, word: string): number {
+        if (queryWord === word) return 1;
+        if (queryWord.length >= MIN_PARTIAL_LENGTH && word.startsWith(queryWord)) return SCORES.prefix;
+        if (queryWord.length < MIN_FUZZY_LENGTH) return 0;
+
+        return 1 - StringUtils.levenshtein(queryWord, word) / Math.max(queryWord.length, word.length);
+    }
+}
@@ -0,0 +1,315 @@
+import { DateUtils, MessageFormatter, StringUtils } from './utils';
+
+/**
+ * Idioma e fuso usados pelos formatadores de data
+ */
+export interface TemplateFormatContext {
+    locale: string;
+    timeZone: string;
+}
+
+/**
+ * Formatadores disponíveis nos templates (`{{valor | formatador:"arg"}}`)
+ */
+export const TEMPLATE_FORMATTERS: Record<string, {
+    args: number;
+    format: (value: unknown, args: string[], context: TemplateFormatContext) => unknown;
+}> = {
+    upper: { args: 0, format: value => StringUtils.fromValue(value).toUpperCase() },
+    lower: { args: 0, format: value => StringUtils.fromValue(value).toLowerCase() },
+    capitalize: { args: 0, format: value => StringUtils.capitalize(StringUtils.fromValue(value)) },
+    firstName: { args: 0, format: value => StringUtils.fromValue(value).trim().split(/\s+/)[0] },
+    phone: {
+        args: 0,
+        format: value => {
+            const digits = StringUtils.fromValue(value).replace(/\D/g, '');
+            // Números do WhatsApp chegam com o código do país
+            return StringUtils.maskPhone(/^55\d{10,11}$/.test(digits) ? digits.substring(2) : StringUtils.fromValue(value));
+        }
+    },
+    cpf: { args: 0, format: value => StringUtils.maskCPF(StringUtils.fromValue(value)) },
+    cnpj: { args: 0, format: value => StringUtils.maskCNPJ(StringUtils.fromValue(value)) },
+    date: {
+        args: 0,
+        format: (value, _args, { locale, timeZone }) =>
+            isValidDate(value) ? DateUtils.formatDate(new Date(value), locale, timeZone) : value
+    },
+    datetime: {
+        args: 0,
+        format: (value, _args, { locale, timeZone }) =>
+            isValidDate(value) ? DateUtils.formatDateTime(new Date(value), locale, timeZone) : value
+    },
+    truncate: { args: 1, format: (value, [max]) => MessageFormatter.truncate(StringUtils.fromValue(value), Number(max)) },
+    count: { args: 0, format: value => Array.isArray(value) ? value.length : Number(value) || 0 },
+    default: { args: 1, format: (value, [fallback]) => isEmpty(value) ? fallback : value },
+    plural: {
+        args: 2,
+        format: (value, [singular, plural]) => {
+            const amount = Array.isArray(value) ? value.length : Number(value) || 0;
+            return `${amount} ${amount === 1 ? singular : plural}`;
+        }
+    }
+};
+
+/**
+ * Erro de sintaxe em um template
+ */
+export class TemplateSyntaxError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Template inválido: ${issues.join('; ')}`);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+interface TemplateExpression {
+    path: string;
+    filters: { name: string; args: string[] }[];
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'value'; expression: TemplateExpression }
+    | { type: 'if'; negate: boolean; expression: TemplateExpression; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface CompiledTemplate {
+    nodes: TemplateNode[];
+    /** Caminhos de variáveis usados pelo template */
+    variables: string[];
+}
+
+/**
+ * Resolve variáveis de sistema (`$nome`) no momento da renderização
+ */
+export type SystemVariableResolver = (name: string) => string | undefined;
+
+/**
+ * Opções de renderização; sem idioma e fuso, as datas saem em pt-BR no horário de Brasília
+ */
+export interface TemplateRenderOptions extends Partial<TemplateFormatContext> {
+    resolveSystemVariable?: SystemVariableResolver;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^\$?[\w-]+(\.[\w-]+)*$/;
+const ARG_PATTERN = /^(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?))$/;
+
+const cache = new Map<string, CompiledTemplate>();
+
+/**
+ * Motor de templates das mensagens do fluxo:
+ * - `{{campo}}` e `{{contato.nome}}`: variáveis (vazias se ausentes)
+ * - `{{campo | formatador:"arg"}}`: formatadores encadeáveis (ver TEMPLATE_FORMATTERS)
+ * - `{{#if campo}}...{{else}}...{{/if}}` e `{{#unless campo}}...{{/unless}}`: condicionais
+ */
+export class TemplateEngine {
+    /**
+     * Compila o template (com cache); lança TemplateSyntaxError se for inválido
+     */
+    static compile(source: string): CompiledTemplate {
+        const cached = cache.get(source);
+        if (cached) return cached;
+
+        const issues: string[] = [];
+        const variables = new Set<string>();
+        const root: TemplateNode[] = [];
+        const stack: { block: 'if' | 'unless'; node: Extract<TemplateNode, { type: 'if' }>; target: TemplateNode[] }[] = [];
+        let target = root;
+        let lastIndex = 0;
+
+        for (const match of source.matchAll(TAG_PATTERN)) {
+            const [tag, marker, content] = match;
+
+            if (match.index > lastIndex) {
+                target.push({ type: 'text', value: source.substring(lastIndex, match.index) });
+            }
+            lastIndex = match.index + tag.length;
+
+            if (marker === '#') {
+                const [, block, rest] = /^(\w+)\s*(.*)$/.exec(content) || [];
+                if (block !== 'if' && block !== 'unless') {
+                    issues.push(`bloco desconhecido "${tag}" (use #if ou #unless)`);
+                    continue;
+                }
+
+                const expression = this.parseExpression(rest, tag, issues, variables);
+                const node: Extract<TemplateNode, { type: 'if' }> = {
+                    type: 'if',
+                    negate: block === 'unless',
+                    expression,
+                    then: [],
+                    otherwise: []
+                };
+                target.push(node);
+                stack.push({ block, node, target });
+                target = node.then;
+            } else if (marker === '/') {
+                const open = stack.pop();
+                if (!open || open.block !== content) {
+                    issues.push(`"${tag}" sem bloco correspondente aberto`);
+                    if (open) stack.push(open);
+                    continue;
+                }
+                target = open.target;
+            } else if (content === 'else') {
+                const open = stack[stack.length - 1];
+                if (!open || target !== open.node.then) {
+                    issues.push('"{{else}}" fora de um bloco #if/#unless');
+                    continue;
+                }
+                target = open.node.otherwise;
+            } else {
+                target.push({ type: 'value', expression: this.parseExpression(content, tag, issues, variables) });
+            }
+        }
+
+        if (lastIndex < source.length) {
+            target.push({ type: 'text', value: source.substring(lastIndex) });
+        }
+
+        for (const open of stack) {
+            issues.push(`bloco #${open.block} não fechado`);
+        }
+
+        if (issues.length > 0) {
+            throw new TemplateSyntaxError(issues);
+        }
+
+        const compiled = { nodes: root, variables: [...variables] };
+        cache.set(source, compiled);
+        return compiled;
+    }
+
+    /**
+     * Lista os problemas de sintaxe do template (vazio se for válido)
+     */
+    static validate(source: string): { issues: string[]; variables: string[] } {
+        try {
+            return { issues: [], variables: this.compile(source).variables };
+        } catch (error) {
+            if (error instanceof TemplateSyntaxError) {
+                return { issues: error.issues, variables: [] };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Renderiza o template com as variáveis informadas
+     */
+    static render(source: string, scope: Record<string, unknown>, options: TemplateRenderOptions = {}): string {
+        const context: TemplateFormatContext = {
+            locale: options.locale || 'pt-BR',
+            timeZone: options.timeZone || 'America/Sao_Paulo'
+        };
+
+        const evaluate = (expression: TemplateExpression): unknown => {
+            let value: unknown = expression.path.startsWith('$')
+                ? options.resolveSystemVariable?.(expression.path)
+                : resolvePath(scope, expression.path);
+
+            for (const filter of expression.filters) {
+                value = TEMPLATE_FORMATTERS[filter.name].format(value, filter.args, context);
+            }
+
+            return value;
+        };
+
+        const renderNodes = (nodes: TemplateNode[]): string => nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                    return node.value;
+                case 'value': {
+                    return StringUtils.fromValue(evaluate(node.expression));
+                }
+                case 'if':
+                    return renderNodes(isEmpty(evaluate(node.expression)) === node.negate ? node.then : node.otherwise);
+            }
+        }).join('');
+
+        return renderNodes(this.compile(source).nodes);
+    }
+
+    private static parseExpression(
+        content: string,
+        tag: string,
+        issues: string[],
+        variables: Set<string>
+    ): TemplateExpression {
+        const [path, ...filterParts] = splitOutsideQuotes(content, '|');
+        const expression: TemplateExpression = { path, filters: [] };
+
+        if (!PATH_PATTERN.test(path)) {
+            issues.push(`variável inválida em "${tag}"`);
+            return expression;
+        }
+        variables.add(path);
+
+        for (const part of filterParts) {
+            const [name, ...rawArgs] = splitOutsideQuotes(part, ':');
+            const formatter = TEMPLATE_FORMATTERS[name];
+
+            if (!formatter) {
+                issues.push(`formatador desconhecido "${name}" em "${tag}"; use um de: ${Object.keys(TEMPLATE_FORMATTERS).join(', ')}`);
+                continue;
+            }
+
+            const args = rawArgs.map(arg => ARG_PATTERN.exec(arg));
+            if (args.length !== formatter.args || args.some(arg => !arg)) {
+                issues.push(`formatador "${name}" em "${tag}" espera ${formatter.args} argumento(s) entre aspas ou numérico(s)`);
+                continue;
+            }
+
+            expression.filters.push({ name, args: args.map(arg => arg![1] ?? arg![2] ?? arg![3]) });
+        }
+
+        return expression;
+    }
+}
+
+/**
+ * Divide pelo separador ignorando os que estão dentro de aspas
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote: string | undefined;
+    let current = '';
+
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) quote = undefined;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    parts.push(current.trim());
+    return parts;
+}
+
+/**
+ * Percorre o caminho (`contato.nome`) a partir do escopo; fica vazio quando um
+ * trecho intermediário não é objeto
+ */
+function resolvePath(scope: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (current, key) => typeof current === 'object' && current !== null
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        scope
+    );
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '' || value === false || value === 0 ||
+        (Array.isArray(value) && value.length === 0);
+}
+
+function isValidDate(value: unknown): value is string | number | Date {
+    return (typeof value === 'string' || typeof value === 'number' || value instanceof Date) &&
+        !isNaN(new Date(value).getTime());
+}
@@ -151,6 +151,27 @@ export class DateUtils {
         });
     }
 
+    /**
+     * Formata a data no idioma e fuso informados, ex.: "19/10/2026" em pt-BR
+     */
+    static formatDate(date: Date, locale: string = 'pt-BR', timeZone: string = 'America/Sao_Paulo'): string {
+        return date.toLocaleDateString(locale, { timeZone, day: '2-digit', month: '2-digit', year: 'numeric' });
+    }
+
+    /**
+     * Formata data e hora no idioma e fuso informados, ex.: "19/10/2026, 14:30" em pt-BR
+     */
+    static formatDateTime(date: Date, locale: string = 'pt-BR', timeZone: string = 'America/Sao_Paulo'): string {
+        return date.toLocaleString(locale, {
+            timeZone,
+            day: '2-digit',
+            month: '2-digit',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+        });
+    }
+
     /**
      * Calcula diferença em minutos entre duas datas
      */
@@ -180,6 +201,136 @@ export class DateUtils {
         if (minutes > 0) return `${minutes} minuto${minutes > 1 ? 's' : ''}`;
         return `${seconds} segundo${seconds > 1 ? 's' : ''}`;
     }
+
+    /**
+     * Obtém data, dia da semana (0 = domingo) e horário de um instante no fuso informado
+     */
+    static getZonedParts(date: Date, timeZone: string = 'America/Sao_Paulo'): ZonedDateParts {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23'
+        }).formatToParts(date);
+
+        const get = (type: string) => parts.find(part => part.type === type)!.value;
+
+        return {
+            year: Number(get('year')),
+            month: Number(get('month')),
+            day: Number(get('day')),
+            weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+            hour: Number(get('hour')),
+            minute: Number(get('minute'))
+        };
+    }
+
+    /**
+     * Chave AAAA-MM-DD da data no fuso informado
+     */
+    static toDateKey(date: Date, timeZone: string = 'America/Sao_Paulo'): string {
+        const { year, month, day } = this.getZonedParts(date, timeZone);
+        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    /**
+     * Calcula o domingo de Páscoa (algoritmo de Meeus/Jones/Butcher), em UTC
+     */
+    static getEasterSunday(year: number): Date {
+        const a = year % 19;
+        const b = Math.floor(year / 100);
+        const c = year % 100;
+        const d = Math.floor(b / 4);
+        const e = b % 4;
+        const f = Math.floor((b + 8) / 25);
+        const g = Math.floor((b - f + 1) / 3);
+        const h = (19 * a + b - d - g + 15) % 30;
+        const i = Math.floor(c / 4);
+        const k = c % 4;
+        const l = (32 + 2 * e + 2 * i - h - k) % 7;
+        const m = Math.floor((a + 11 * h + 22 * l) / 451);
+        const month = Math.floor((h + l - 7 * m + 114) / 31);
+        const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+        return new Date(Date.UTC(year, month - 1, day));
+    }
+
+    /**
+     * Feriados nacionais do Brasil no ano, indexados pela chave AAAA-MM-DD
+     */
+    static getBrazilianHolidays(year: number): Record<string, string> {
+        const key = (month: number, day: number) =>
+            `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+        const goodFriday = this.getEasterSunday(year);
+        goodFriday.setUTCDate(goodFriday.getUTCDate() - 2);
+
+        const holidays: Record<string, string> = {
+            [key(1, 1)]: 'Confraternização Universal',
+            [key(goodFriday.getUTCMonth() + 1, goodFriday.getUTCDate())]: 'Sexta-feira Santa',
+            [key(4, 21)]: 'Tiradentes',
+            [key(5, 1)]: 'Dia do Trabalho',
+            [key(9, 7)]: 'Independência do Brasil',
+            [key(10, 12)]: 'Nossa Senhora Aparecida',
+            [key(11, 2)]: 'Finados',
+            [key(11, 15)]: 'Proclamação da República',
+            [key(12, 25)]: 'Natal'
+        };
+
+        // Lei 14.759/2023
+        if (year >= 2024) {
+            holidays[key(11, 20)] = 'Dia Nacional de Zumbi e da Consciência Negra';
+        }
+
+        return holidays;
+    }
+
+    /**
+     * Verifica se a data (no fuso informado) é feriado nacional ou uma das datas extras.
+     * Datas extras aceitam AAAA-MM-DD (uma vez) ou MM-DD (todo ano)
+     */
+    static isHoliday(
+        date: Date,
+        timeZone: string = 'America/Sao_Paulo',
+        extraDates: string[] = [],
+        includeNational: boolean = true
+    ): boolean {
+        const dateKey = this.toDateKey(date, timeZone);
+        const year = Number(dateKey.substring(0, 4));
+
+        return (includeNational && dateKey in this.getBrazilianHolidays(year)) ||
+            extraDates.includes(dateKey) ||
+            extraDates.includes(dateKey.substring(5));
+    }
+
+    /**
+     * Converte um intervalo "HH:MM-HH:MM" em minutos desde a meia-noite
+     */
+    static parseTimeRange(range: string): { start: number; end: number } | undefined {
+        const match = /^([01]\d|2[0-3]):([0-5]\d)-([01]\d|2[0-4]):([0-5]\d)$/.exec(range.trim());
+        if (!match) return undefined;
+
+        const start = Number(match[1]) * 60 + Number(match[2]);
+        const end = Number(match[3]) * 60 + Number(match[4]);
+
+        return start < end && end <= 24 * 60 ? { start, end } : undefined;
+    }
+}
+
+/**
+ * Componentes de data e hora em um fuso horário
+ */
+export interface ZonedDateParts {
+    year: number;
+    month: number;
+    day: number;
+    weekday: number;
+    hour: number;
+    minute: number;
 }
 
 /**
@@ -201,6 +352,48 @@ export class StringUtils {
         return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
     }
 
+    /**
+     * Distância de edição (Levenshtein) entre dois textos
+     */
+    static levenshtein(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            }
+            previous = current;
+        }
+
+        return previous[b.length];
+    }
+
+    /**
+     * Converte um valor dos dados da conversa para texto: ausente vira vazio e
+     * objetos viram JSON (em vez de "[object Object]")
+     */
+    static fromValue(value: unknown): string {
+        if (value === undefined || value === null) {
+            return '';
+        }
+
+        if (Array.isArray(value)) {
+            return value.map(item => StringUtils.fromValue(item)).join(',');
+        }
+
+        if (value instanceof Date) {
+            return String(value);
+        }
+
+        if (typeof value === 'object') {
+            return JSON.stringify(value);
+        }
+
+        return String(value as string | number | boolean | bigint);
+    }
+
     /**
      * Gera ID único simples
      */
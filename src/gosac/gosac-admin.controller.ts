@@ -0,0 +1,83 @@
+import {
+    Controller,
+    Post,
+    Get,
+    Delete,
+    Param,
+    UseGuards,
+    HttpStatus,
+    HttpException
+} from '@nestjs/common';
+import { GosacOutboundQueueService } from './gosac-outbound-queue.service';
+import { AdminApiKeyGuard } from '../common/guards/admin-api-key.guard';
+
+@Controller('gosac/admin/dead-letters')
+@UseGuards(AdminApiKeyGuard)
+export class GosacAdminController {
+    constructor(private readonly outboundQueue: GosacOutboundQueueService) { }
+
+    /**
+     * Lista as mensagens que esgotaram as tentativas de envio
+     */
+    @Get()
+    async listDeadLetters() {
+        const deadLetters = await this.outboundQueue.listDeadLetters();
+
+        return {
+            total: deadLetters.length,
+            deadLetters,
+            queue: this.outboundQueue.getMetrics()
+        };
+    }
+
+    /**
+     * Obtém uma mensagem morta
+     */
+    @Get(':id')
+    async getDeadLetter(@Param('id') id: string) {
+        const deadLetter = await this.outboundQueue.getDeadLetter(id);
+
+        if (!deadLetter) {
+            throw this.deadLetterNotFound(id);
+        }
+
+        return deadLetter;
+    }
+
+    /**
+     * Coloca a mensagem morta de volta na fila de envio
+     */
+    @Post(':id/replay')
+    async replayDeadLetter(@Param('id') id: string) {
+        if (!(await this.outboundQueue.replayDeadLetter(id))) {
+            throw this.deadLetterNotFound(id);
+        }
+
+        return {
+            success: true,
+            message: `Mensagem ${id} reenfileirada para envio`
+        };
+    }
+
+    /**
+     * Descarta uma mensagem morta
+     */
+    @Delete(':id')
+    async deleteDeadLetter(@Param('id') id: string) {
+        if (!(await this.outboundQueue.deleteDeadLetter(id))) {
+            throw this.deadLetterNotFound(id);
+        }
+
+        return { success: true };
+    }
+
+    private deadLetterNotFound(id: string): HttpException {
+        return new HttpException(
+            {
+                message: `Mensagem morta ${id} não encontrada`,
+                error: 'Not Found'
+            },
+            HttpStatus.NOT_FOUND
+        );
+    }
+}
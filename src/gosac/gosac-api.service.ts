@@ -1,24 +1,49 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { CircuitBreaker, CircuitOpenError } from '../common/circuit-breaker';
+import { GeoLocation, InboundMedia } from '../chatbot/interfaces/conversation.interface';
+import { RenderProfile } from '../chatbot/interfaces/rendering.interface';
 import {
-    GosacWebhookPayload,
     GosacMessage,
     GosacApiResponse,
     GosacSendMessageRequest,
-    GosacTicketUpdateRequest
+    GosacTicketUpdateRequest,
+    GosacCreateTicketRequest,
+    GosacTicket
 } from './gosac-webhook.interface';
 
+/**
+ * Requisição marcada como sondagem do disjuntor (passa mesmo em half-open)
+ */
+interface GosacRequestConfig extends InternalAxiosRequestConfig {
+    circuitProbe?: boolean;
+}
+
+/**
+ * Coordenadas no corpo de mensagens de localização, soltas (`-23.55,-46.63`)
+ * ou dentro do link do mapa (`?q=-23.55%2C-46.63`)
+ */
+const COORDINATES_PATTERN = /(-?\d{1,2}(?:\.\d+)?)\s*(?:,|%2C)\s*(-?\d{1,3}(?:\.\d+)?)/i;
+
 @Injectable()
-export class GosacApiService {
+export class GosacApiService implements OnModuleDestroy {
     private readonly logger = new Logger(GosacApiService.name);
     private readonly httpClient: AxiosInstance;
     private readonly baseUrl: string;
     private readonly apiKey: string;
+    private readonly renderProfile: RenderProfile;
+    private readonly circuitBreaker: CircuitBreaker;
+    private probeTimer?: NodeJS.Timeout;
 
     constructor(private readonly configService: ConfigService) {
         this.baseUrl = this.configService.get<string>('GOSAC_API_URL', 'https://api.gosac.com');
         this.apiKey = this.configService.get<string>('GOSAC_API_KEY', '');
+        this.renderProfile = {
+            markup: 'whatsapp',
+            maxLength: Number(this.configService.get('GOSAC_MAX_MESSAGE_LENGTH', 4096)),
+            interactive: this.configService.get<string>('GOSAC_INTERACTIVE_MESSAGES', 'false') === 'true'
+        };
 
         this.httpClient = axios.create({
             baseURL: this.baseUrl,
@@ -29,10 +54,47 @@ export class GosacApiService {
             }
         });
 
-        // Interceptors para logs
+        // Após falhas seguidas as chamadas falham imediatamente, sem esperar o timeout;
+        // com o circuito aberto a conexão é sondada periodicamente via checkConnection
+        const resetTimeout = Number(this.configService.get('GOSAC_BREAKER_RESET_TIMEOUT', 30000));
+        this.circuitBreaker = new CircuitBreaker('GOSAC', {
+            failureThreshold: Number(this.configService.get('GOSAC_BREAKER_THRESHOLD', 5)),
+            resetTimeout,
+            onStateChange: (state, previous) => {
+                this.logger.warn(`Circuito do GOSAC: ${previous} -> ${state}`);
+
+                if (state === 'open') {
+                    clearTimeout(this.probeTimer);
+                    this.probeTimer = setTimeout(() => void this.checkConnection(), resetTimeout);
+                    this.probeTimer.unref();
+                }
+            }
+        });
+
+        // Interceptors para logs e para o disjuntor
         this.setupInterceptors();
     }
 
+    onModuleDestroy(): void {
+        clearTimeout(this.probeTimer);
+    }
+
+    /**
+     * Estado do disjuntor que protege as chamadas ao GOSAC
+     */
+    getCircuitState() {
+        return this.circuitBreaker.getSnapshot();
+    }
+
+    /**
+     * Como as respostas são exibidas no WhatsApp via GOSAC: botões e listas só com
+     * GOSAC_INTERACTIVE_MESSAGES=true (sem isso as escolhas seguem escritas no texto)
+     * e textos acima de GOSAC_MAX_MESSAGE_LENGTH divididos em várias mensagens
+     */
+    getRenderProfile(): RenderProfile {
+        return this.renderProfile;
+    }
+
     /**
      * Envia mensagem através da API do GOSAC
      */
@@ -40,11 +102,12 @@ export class GosacApiService {
         try {
             this.logger.debug(`Enviando mensagem para ${request.number}: ${request.body.substring(0, 100)}...`);
 
-            const response = await this.httpClient.post('/messages/send', {
+            const response = await this.httpClient.post<unknown>('/messages/send', {
                 number: request.number,
                 body: request.body,
                 ...(request.mediaPath && { mediaPath: request.mediaPath }),
-                ...(request.mediaUrl && { mediaUrl: request.mediaUrl })
+                ...(request.mediaUrl && { mediaUrl: request.mediaUrl }),
+                ...(request.interactive && { interactive: request.interactive })
             });
 
             this.logger.log(`Mensagem enviada com sucesso para ${request.number}`);
@@ -56,13 +119,9 @@ export class GosacApiService {
             };
 
         } catch (error) {
-            this.logger.error(`Erro ao enviar mensagem para ${request.number}:`, error.response?.data || error.message);
+            this.logger.error(`Erro ao enviar mensagem para ${request.number}:`, this.describeError(error));
 
-            return {
-                success: false,
-                error: error.response?.data?.message || error.message,
-                message: 'Falha ao enviar mensagem'
-            };
+            return this.toFailure(error, 'Falha ao enviar mensagem');
         }
     }
 
@@ -73,12 +132,12 @@ export class GosacApiService {
         try {
             this.logger.debug(`Atualizando ticket ${request.ticketId}`);
 
-            const updateData: any = {};
+            const updateData: Omit<GosacTicketUpdateRequest, 'ticketId'> = {};
             if (request.status) updateData.status = request.status;
             if (request.userId) updateData.userId = request.userId;
             if (request.queueId) updateData.queueId = request.queueId;
 
-            const response = await this.httpClient.patch(`/tickets/${request.ticketId}`, updateData);
+            const response = await this.httpClient.patch<unknown>(`/tickets/${request.ticketId}`, updateData);
 
             this.logger.log(`Ticket ${request.ticketId} atualizado com sucesso`);
 
@@ -89,24 +148,51 @@ export class GosacApiService {
             };
 
         } catch (error) {
-            this.logger.error(`Erro ao atualizar ticket ${request.ticketId}:`, error.response?.data || error.message);
+            this.logger.error(`Erro ao atualizar ticket ${request.ticketId}:`, this.describeError(error));
+
+            return this.toFailure(error, 'Falha ao atualizar ticket');
+        }
+    }
+
+    /**
+     * Abre um ticket para o contato com os dados coletados pelo chatbot
+     */
+    async createTicket(request: GosacCreateTicketRequest): Promise<GosacApiResponse<GosacTicket>> {
+        try {
+            this.logger.debug(`Criando ticket para o contato ${request.contactId}`);
+
+            const response = await this.httpClient.post<GosacTicket>('/tickets', {
+                contactId: request.contactId,
+                subject: request.subject,
+                category: request.category,
+                description: request.description,
+                status: 'pending',
+                ...(request.queueId && { queueId: request.queueId })
+            });
+
+            this.logger.log(`Ticket ${response.data.id} criado para o contato ${request.contactId} (protocolo ${response.data.protocol})`);
 
             return {
-                success: false,
-                error: error.response?.data?.message || error.message,
-                message: 'Falha ao atualizar ticket'
+                success: true,
+                data: response.data,
+                message: 'Ticket criado com sucesso'
             };
+
+        } catch (error) {
+            this.logger.error(`Erro ao criar ticket para o contato ${request.contactId}:`, this.describeError(error));
+
+            return this.toFailure(error, 'Falha ao criar ticket');
         }
     }
 
     /**
      * Obtém informações de um ticket
      */
-    async getTicket(ticketId: number): Promise<GosacApiResponse> {
+    async getTicket(ticketId: number): Promise<GosacApiResponse<GosacTicket>> {
         try {
             this.logger.debug(`Buscando ticket ${ticketId}`);
 
-            const response = await this.httpClient.get(`/tickets/${ticketId}`);
+            const response = await this.httpClient.get<GosacTicket>(`/tickets/${ticketId}`);
 
             return {
                 success: true,
@@ -115,13 +201,58 @@ export class GosacApiService {
             };
 
         } catch (error) {
-            this.logger.error(`Erro ao buscar ticket ${ticketId}:`, error.response?.data || error.message);
+            this.logger.error(`Erro ao buscar ticket ${ticketId}:`, this.describeError(error));
+
+            return this.toFailure(error, 'Falha ao obter ticket');
+        }
+    }
+
+    /**
+     * Registra uma nota interna no ticket, visível apenas para os atendentes
+     */
+    async createTicketNote(ticketId: number, body: string): Promise<GosacApiResponse> {
+        try {
+            this.logger.debug(`Registrando nota no ticket ${ticketId}`);
+
+            const response = await this.httpClient.post<unknown>(`/tickets/${ticketId}/notes`, { body });
 
             return {
-                success: false,
-                error: error.response?.data?.message || error.message,
-                message: 'Falha ao obter ticket'
+                success: true,
+                data: response.data,
+                message: 'Nota registrada com sucesso'
+            };
+
+        } catch (error) {
+            this.logger.error(`Erro ao registrar nota no ticket ${ticketId}:`, this.describeError(error));
+
+            return this.toFailure(error, 'Falha ao registrar nota');
+        }
+    }
+
+    /**
+     * Lista os tickets de um contato, do mais recente para o mais antigo
+     */
+    async listTickets(contactId: number): Promise<GosacApiResponse<GosacTicket[]>> {
+        try {
+            this.logger.debug(`Buscando tickets do contato ${contactId}`);
+
+            const response = await this.httpClient.get<GosacTicket[] | { tickets: GosacTicket[] }>('/tickets', {
+                params: { contactId }
+            });
+
+            const tickets = Array.isArray(response.data) ? response.data : response.data.tickets || [];
+            tickets.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+            return {
+                success: true,
+                data: tickets,
+                message: 'Tickets obtidos com sucesso'
             };
+
+        } catch (error) {
+            this.logger.error(`Erro ao buscar tickets do contato ${contactId}:`, this.describeError(error));
+
+            return this.toFailure(error, 'Falha ao obter tickets');
         }
     }
 
@@ -141,8 +272,8 @@ export class GosacApiService {
             return false;
         }
 
-        // Só processa mensagens de chat ou com mídia
-        if (message.mediaType !== 'chat' && !message.mediaPath) {
+        // Só processa mensagens de chat, localizações ou mensagens com mídia
+        if (message.mediaType !== 'chat' && message.mediaType !== 'location' && !message.mediaPath && !message.mediaUrl) {
             this.logger.debug(`Mensagem ignorada - tipo ${message.mediaType} sem mídia no ticket ${message.ticketId}`);
             return false;
         }
@@ -163,12 +294,17 @@ export class GosacApiService {
     }
 
     /**
-     * Extrai dados importantes da mensagem para processamento
+     * Extrai dados importantes da mensagem para processamento. Em mensagens de
+     * mídia o corpo é a legenda; em localizações o corpo traz as coordenadas e
+     * não é repassado como texto
      */
     extractMessageData(message: GosacMessage) {
+        const media = this.extractMedia(message);
+
         return {
             userId: message.contactId.toString(),
-            message: message.body || '',
+            message: media?.type === 'location' ? '' : message.body || '',
+            media,
             ticketId: message.ticketId,
             contactName: message.contact.name,
             contactNumber: message.contact.number,
@@ -177,6 +313,7 @@ export class GosacApiService {
             timestamp: new Date(message.createdAt),
             isGroup: message.fromGroup,
             ticketStatus: message.ticket.status,
+            ticketProtocol: message.ticket.protocol,
             queueId: message.ticket.queueId
         };
     }
@@ -185,9 +322,16 @@ export class GosacApiService {
      * Verifica conectividade com a API do GOSAC
      */
     async checkConnection(): Promise<{ connected: boolean; latency?: number; error?: string }> {
+        if (!this.circuitBreaker.allowProbe()) {
+            return {
+                connected: false,
+                error: `Circuito aberto; nova verificação após ${this.circuitBreaker.getRetryAt().toISOString()}`
+            };
+        }
+
         try {
             const startTime = Date.now();
-            await this.httpClient.get('/health');
+            await this.httpClient.get('/health', { circuitProbe: true } as GosacRequestConfig);
             const latency = Date.now() - startTime;
 
             return {
@@ -196,13 +340,95 @@ export class GosacApiService {
             };
 
         } catch (error) {
-            this.logger.error('Erro ao verificar conexão com GOSAC:', error.message);
+            const failure = this.toFailure(error, 'Falha ao verificar conexão');
+            this.logger.error('Erro ao verificar conexão com GOSAC:', failure.error);
 
             return {
                 connected: false,
-                error: error.message
+                error: failure.error
+            };
+        }
+    }
+
+    /**
+     * Monta a referência da mídia recebida (ausente em mensagens de chat)
+     */
+    private extractMedia(message: GosacMessage): InboundMedia | undefined {
+        if (message.mediaType === 'chat') {
+            return undefined;
+        }
+
+        if (message.mediaType === 'location') {
+            const location = this.parseLocation(message.body || '');
+            if (!location) {
+                this.logger.warn(`Localização sem coordenadas reconhecíveis na mensagem ${message.messageId}`);
+            }
+            return { type: 'location', ...(location && { location }) };
+        }
+
+        return {
+            type: message.mediaType,
+            ...(message.mediaUrl && { url: message.mediaUrl }),
+            ...(message.mediaPath && { path: message.mediaPath }),
+            ...(message.body && { caption: message.body })
+        };
+    }
+
+    /**
+     * Lê as coordenadas do corpo da localização. O corpo pode trazer, separados por
+     * `|` ou quebras de linha, a miniatura do mapa, o link e a descrição do local
+     */
+    private parseLocation(body: string): GeoLocation | undefined {
+        const parts = body
+            .split(/\||\n/)
+            .map(part => part.trim())
+            .filter(part => part !== '' && !/^data:/i.test(part));
+
+        const match = parts.map(part => COORDINATES_PATTERN.exec(part)).find(Boolean);
+        if (!match) {
+            return undefined;
+        }
+
+        const latitude = Number(match[1]);
+        const longitude = Number(match[2]);
+        if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            return undefined;
+        }
+
+        const address = parts.find(part => !COORDINATES_PATTERN.test(part) && !/^https?:/i.test(part));
+
+        return { latitude, longitude, ...(address && { address }) };
+    }
+
+    /**
+     * Monta a resposta de falha a partir do erro da chamada: status HTTP, mensagem
+     * devolvida pelo GOSAC e se a chamada foi recusada pelo disjuntor
+     */
+    private toFailure(error: unknown, message: string): GosacApiResponse<never> {
+        if (error instanceof CircuitOpenError) {
+            return { success: false, error: error.message, message, circuitOpen: true };
+        }
+
+        if (axios.isAxiosError<{ message?: string } | undefined>(error)) {
+            return {
+                success: false,
+                error: error.response?.data?.message || error.message,
+                message,
+                statusCode: error.response?.status
             };
         }
+
+        return { success: false, error: error instanceof Error ? error.message : String(error), message };
+    }
+
+    /**
+     * Detalhe do erro para o log: o corpo da resposta do GOSAC, quando houver
+     */
+    private describeError(error: unknown): unknown {
+        if (axios.isAxiosError(error)) {
+            return error.response?.data || error.message;
+        }
+        return error instanceof Error ? error.message : error;
     }
 
     /**
@@ -210,26 +436,43 @@ export class GosacApiService {
      */
     private setupInterceptors(): void {
         this.httpClient.interceptors.request.use(
-            (config) => {
+            (config: GosacRequestConfig) => {
+                if (!config.circuitProbe) {
+                    this.circuitBreaker.assertRequestAllowed();
+                }
+
                 this.logger.debug(`GOSAC API Request: ${config.method?.toUpperCase()} ${config.url}`);
                 return config;
             },
-            (error) => {
+            (error: unknown) => {
                 this.logger.error('GOSAC API Request Error:', error);
-                return Promise.reject(error);
+                return Promise.reject(error instanceof Error ? error : new Error(String(error)));
             }
         );
 
         this.httpClient.interceptors.response.use(
             (response) => {
+                this.circuitBreaker.recordSuccess();
                 this.logger.debug(`GOSAC API Response: ${response.status} ${response.config.url}`);
                 return response;
             },
-            (error) => {
-                const status = error.response?.status;
-                const url = error.config?.url;
-                this.logger.error(`GOSAC API Response Error: ${status} ${url}`, error.response?.data || error.message);
-                return Promise.reject(error);
+            (error: unknown) => {
+                if (error instanceof CircuitOpenError) {
+                    return Promise.reject(error);
+                }
+
+                const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+                const url = axios.isAxiosError(error) ? error.config?.url : undefined;
+
+                // Erros de rede e 5xx contam como falha; qualquer outra resposta mostra que o GOSAC está no ar
+                if (status === undefined || status >= 500) {
+                    this.circuitBreaker.recordFailure(error instanceof Error ? error.message : String(error));
+                } else {
+                    this.circuitBreaker.recordSuccess();
+                }
+
+                this.logger.error(`GOSAC API Response Error: ${status} ${url}`, this.describeError(error));
+                return Promise.reject(error instanceof Error ? error : new Error(String(error)));
             }
         );
     }
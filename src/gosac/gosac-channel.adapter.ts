@@ -0,0 +1,111 @@
+import { ExecutionContext, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { GosacApiService } from './gosac-api.service';
+import { GosacOutboundQueueService } from './gosac-outbound-queue.service';
+import { GosacWebhookGuard } from '../common/guards/gosac-webhook.guard';
+import { ChannelService } from '../channels/channel.service';
+import { ResponseRendererService } from '../chatbot/services/response-renderer.service';
+import { ChatbotResponse } from '../chatbot/interfaces/conversation.interface';
+import { ChannelAdapter, InboundMessage } from '../channels/channel-adapter.interface';
+import { GosacMessage, GosacSendMessageRequest } from './gosac-webhook.interface';
+import { normalizeGosacWebhook } from './gosac-webhook.normalizer';
+
+/**
+ * Canal WhatsApp via GOSAC: webhooks `messages:created` assinados (nos dois
+ * formatos do GOSAC), filtros de atendente/grupo/ticket e respostas pela fila
+ * de envio do GOSAC. A conversa é identificada pelo contactId do contato
+ */
+@Injectable()
+export class GosacChannelAdapter implements ChannelAdapter<GosacMessage, GosacSendMessageRequest>, OnModuleInit {
+    readonly channel = 'gosac';
+    private readonly logger = new Logger(GosacChannelAdapter.name);
+
+    constructor(
+        private readonly gosacApiService: GosacApiService,
+        private readonly outboundQueue: GosacOutboundQueueService,
+        private readonly webhookGuard: GosacWebhookGuard,
+        private readonly renderer: ResponseRendererService,
+        private readonly channels: ChannelService
+    ) { }
+
+    onModuleInit(): void {
+        this.channels.register(this);
+    }
+
+    authorize(context: ExecutionContext): boolean {
+        return this.webhookGuard.canActivate(context);
+    }
+
+    parseInbound(payload: unknown): InboundMessage<GosacMessage> | undefined {
+        const event = normalizeGosacWebhook(payload);
+
+        if (!event) {
+            this.logger.warn('Webhook inválido: payload sem dados de mensagem');
+            return undefined;
+        }
+
+        if (event.type !== 'messages:created') {
+            this.logger.debug(`Evento ${event.type} ignorado - processamos apenas messages:created`);
+            return undefined;
+        }
+
+        const data = this.gosacApiService.extractMessageData(event.data);
+
+        return {
+            messageId: String(event.data.messageId),
+            senderId: data.userId,
+            replyTo: data.contactNumber,
+            text: data.message,
+            media: data.media,
+            context: {
+                contactId: event.data.contactId,
+                contactName: data.contactName,
+                contactNumber: data.contactNumber,
+                ticketId: data.ticketId,
+                ticketStatus: data.ticketStatus,
+                ticketProtocol: data.ticketProtocol,
+                queueId: data.queueId
+            },
+            raw: event.data
+        };
+    }
+
+    shouldProcess(message: InboundMessage<GosacMessage>): boolean {
+        return this.gosacApiService.shouldProcessMessage(message.raw);
+    }
+
+    /**
+     * Monta as mensagens no formato do WhatsApp; anexos seguem com `mediaUrl`
+     */
+    renderOutbound(response: ChatbotResponse, message: InboundMessage<GosacMessage>): GosacSendMessageRequest[] {
+        if (!message.replyTo) {
+            return [];
+        }
+
+        return this.renderer.render(response, this.gosacApiService.getRenderProfile()).map(rendered => ({
+            number: message.replyTo,
+            body: rendered.text,
+            ...(rendered.interactive && { interactive: rendered.interactive }),
+            ...(rendered.attachment && { mediaUrl: rendered.attachment.url })
+        }));
+    }
+
+    /**
+     * Enfileira a mensagem sem esperar o envio; falhas são repetidas pela fila de envio
+     */
+    send(request: GosacSendMessageRequest): Promise<void> {
+        void this.outboundQueue.enqueue(request);
+        return Promise.resolve();
+    }
+
+    /**
+     * Mantém o ticket aberto enquanto o bot atende
+     */
+    async afterProcess(message: InboundMessage<GosacMessage>): Promise<void> {
+        if (message.raw.ticketId) {
+            await this.gosacApiService.updateTicket({
+                ticketId: message.raw.ticketId,
+                status: 'open'
+            });
+        }
+    }
+}
@@ -0,0 +1,454 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GosacApiService } from './gosac-api.service';
+import { GosacApiResponse, GosacTicket } from './gosac-webhook.interface';
+import { FlowActionError, FlowActionService } from '../chatbot/services/flow-action.service';
+import { FlowService } from '../chatbot/services/flow.service';
+import { BusinessHoursService } from '../chatbot/services/business-hours.service';
+import { I18nService, MessageKey } from '../chatbot/services/i18n.service';
+import { ConversationState, FlowActionContext, InboundMedia } from '../chatbot/interfaces/conversation.interface';
+import { DateUtils, MessageFormatter, StringUtils } from '../common/utils';
+
+const TICKET_STATUS_LABELS: Record<GosacTicket['status'], MessageKey> = {
+    open: 'tickets.status.open',
+    pending: 'tickets.status.pending',
+    closed: 'tickets.status.closed'
+};
+
+const STATUS_CHANGES = {
+    close: { status: 'closed', verb: 'tickets.statusChange.close', outcome: 'tickets.statusChange.closed' },
+    reopen: { status: 'open', verb: 'tickets.statusChange.reopen', outcome: 'tickets.statusChange.reopened' }
+} as const;
+
+const CALLBACK_PERIOD_LABELS: Record<string, MessageKey> = {
+    morning: 'callback.periods.morning',
+    afternoon: 'callback.periods.afternoon',
+    any: 'callback.periods.any'
+};
+
+const NEXT_PAGE_COMMANDS = ['+', 'mais', 'proxima', 'próxima'];
+const PREVIOUS_PAGE_COMMANDS = ['-', 'menos'];
+
+/**
+ * Ações de fluxo que dependem da API do GOSAC. São registradas no chatbot na
+ * inicialização do módulo e referenciadas pelos passos via `onEnter.action`
+ */
+@Injectable()
+export class GosacFlowActionsService implements OnModuleInit {
+    private readonly logger = new Logger(GosacFlowActionsService.name);
+    private readonly ticketsPageSize: number;
+    private readonly handoffQueueId?: number;
+
+    constructor(
+        private readonly gosacApiService: GosacApiService,
+        private readonly flowActions: FlowActionService,
+        private readonly flowService: FlowService,
+        private readonly businessHours: BusinessHoursService,
+        private readonly i18n: I18nService,
+        private readonly configService: ConfigService
+    ) {
+        this.ticketsPageSize = Number(this.configService.get('CHATBOT_TICKETS_PAGE_SIZE', 5));
+
+        const handoffQueueId = this.configService.get<string>('GOSAC_HANDOFF_QUEUE_ID');
+        this.handoffQueueId = handoffQueueId ? Number(handoffQueueId) : undefined;
+    }
+
+    onModuleInit(): void {
+        this.flowActions.register('createTicket', context => this.createTicket(context));
+        this.flowActions.register('listTickets', context => this.listTickets(context));
+        this.flowActions.register('showTicket', context => this.showTicket(context));
+        this.flowActions.register('prepareTicketStatusChange', context => this.prepareTicketStatusChange(context));
+        this.flowActions.register('updateTicketStatus', context => this.updateTicketStatus(context));
+        this.flowActions.register('handoffToAgent', context => this.handoffToAgent(context));
+        this.flowActions.register('leaveMessage', context => this.leaveMessage(context));
+        this.flowActions.register('requestCallback', context => this.requestCallback(context));
+    }
+
+    /**
+     * Abre o ticket com assunto, categoria e descrição coletados no assistente
+     * e devolve o protocolo gerado pelo GOSAC. O anexo, se enviado, fica
+     * registrado como nota interna do ticket
+     */
+    async createTicket({ userId, state }: FlowActionContext): Promise<Record<string, any>> {
+        const contactId = this.requireContactId(userId, state);
+
+        const result = await this.gosacApiService.createTicket({
+            contactId,
+            subject: String(state.data.ticketSubject ?? ''),
+            category: String(state.data.ticketCategory ?? ''),
+            description: String(state.data.ticketDescription ?? ''),
+            ...(state.context?.queueId && { queueId: state.context.queueId })
+        });
+
+        if (!result.success || !result.data) {
+            throw new Error(result.error || result.message || 'Falha ao criar ticket');
+        }
+
+        this.logger.log(`Ticket ${result.data.id} criado via chatbot para o usuário ${userId}`);
+
+        const attachment = state.data.ticketAttachment as InboundMedia | undefined;
+        if (attachment) {
+            const note = await this.gosacApiService.createTicketNote(
+                result.data.id,
+                `📎 Anexo enviado pelo contato: ${attachment.url || attachment.path}`
+            );
+            if (!note.success) {
+                this.logger.warn(`Anexo não registrado no ticket ${result.data.id}: ${note.error}`);
+            }
+        }
+
+        return {
+            ticketProtocol: result.data.protocol,
+            createdTicketId: result.data.id
+        };
+    }
+
+    /**
+     * Busca os tickets do contato e monta a página atual da lista numerada.
+     * `+`/`mais` avança e `-`/`menos` volta uma página; qualquer outra entrada
+     * mostra a primeira página
+     */
+    async listTickets({ userId, input, state }: FlowActionContext): Promise<Record<string, any>> {
+        const contactId = this.requireContactId(userId, state);
+        const result = await this.gosacApiService.listTickets(contactId);
+
+        if (!result.success || !result.data) {
+            throw new Error(result.error || result.message || 'Falha ao obter tickets');
+        }
+
+        const tickets = result.data;
+        const pageCount = Math.max(1, Math.ceil(tickets.length / this.ticketsPageSize));
+        const command = input.trim().toLowerCase();
+        let page = 1;
+
+        if (NEXT_PAGE_COMMANDS.includes(command)) {
+            page = Number(state.data.ticketPage || 1) + 1;
+        } else if (PREVIOUS_PAGE_COMMANDS.includes(command)) {
+            page = Number(state.data.ticketPage || 1) - 1;
+        }
+        page = Math.min(Math.max(page, 1), pageCount);
+
+        return {
+            ticketIds: tickets.map(ticket => ticket.id),
+            ticketPage: page,
+            ticketPageCount: pageCount,
+            ticketList: this.formatTicketPage(tickets, page, pageCount, state.locale)
+        };
+    }
+
+    /**
+     * Carrega os detalhes do ticket escolhido pelo número exibido na lista,
+     * conferindo se ele pertence ao contato
+     */
+    async showTicket({ userId, input, state }: FlowActionContext): Promise<Record<string, any>> {
+        const ticket = await this.loadOwnedTicket(this.resolveListedTicket(input, state), this.requireContactId(userId, state), state.locale);
+
+        return {
+            selectedTicketId: ticket.id,
+            selectedTicketProtocol: ticket.protocol,
+            selectedTicketStatus: ticket.status,
+            ticketDetails: this.formatTicketDetails(ticket, state.locale)
+        };
+    }
+
+    /**
+     * Seleciona o ticket escolhido na lista e define a alteração possível:
+     * tickets fechados são reabertos, os demais são encerrados
+     */
+    async prepareTicketStatusChange({ userId, input, state }: FlowActionContext): Promise<Record<string, any>> {
+        const ticket = await this.loadOwnedTicket(this.resolveListedTicket(input, state), this.requireContactId(userId, state), state.locale);
+        const change = ticket.status === 'closed' ? 'reopen' : 'close';
+
+        // O webhook reabre o ticket da conversa a cada mensagem; encerrá-lo por aqui não teria efeito
+        if (change === 'close' && ticket.id === state.context?.ticketId) {
+            throw new FlowActionError(`Ticket ${ticket.id} é o ticket da conversa atual`, {
+                ticketUpdateError: this.i18n.t('tickets.errors.currentTicket', state.locale)
+            });
+        }
+
+        return {
+            selectedTicketId: ticket.id,
+            selectedTicketProtocol: ticket.protocol,
+            selectedTicketStatus: ticket.status,
+            ticketStatusChange: change,
+            ticketStatusVerb: this.i18n.t(STATUS_CHANGES[change].verb, state.locale)
+        };
+    }
+
+    /**
+     * Aplica a alteração de status confirmada pelo usuário, conferindo de novo
+     * que o ticket pertence ao contato
+     */
+    async updateTicketStatus({ userId, state }: FlowActionContext): Promise<Record<string, any>> {
+        const change = STATUS_CHANGES[state.data.ticketStatusChange as keyof typeof STATUS_CHANGES];
+        const ticketId = Number(state.data.selectedTicketId);
+
+        if (!change || !ticketId) {
+            throw new FlowActionError(`Nenhuma alteração de status pendente para o usuário ${userId}`, {
+                ticketUpdateError: this.i18n.t('tickets.errors.noPendingChange', state.locale)
+            });
+        }
+
+        await this.loadOwnedTicket(ticketId, this.requireContactId(userId, state), state.locale);
+
+        const result = await this.gosacApiService.updateTicket({ ticketId, status: change.status });
+
+        if (!result.success) {
+            throw new FlowActionError(result.error || result.message || 'Falha ao atualizar ticket', {
+                ticketUpdateError: this.describeGosacError(result, state.locale)
+            });
+        }
+
+        this.logger.log(`Ticket ${ticketId} alterado para ${change.status} via chatbot pelo usuário ${userId}`);
+
+        return {
+            selectedTicketStatus: change.status,
+            ticketStatusOutcome: this.i18n.t(change.outcome, state.locale)
+        };
+    }
+
+    /**
+     * Transfere o ticket da conversa para a fila de atendimento humano e registra
+     * no ticket um resumo dos dados coletados, para o atendente
+     */
+    async handoffToAgent({ userId, state }: FlowActionContext): Promise<Record<string, any>> {
+        const ticketId = state.context?.ticketId;
+
+        if (!ticketId || !this.handoffQueueId) {
+            throw new FlowActionError(
+                ticketId ? 'GOSAC_HANDOFF_QUEUE_ID não configurado' : `Ticket da conversa não identificado para o usuário ${userId}`,
+                { handoffError: this.i18n.t('handoff.errors.unavailable', state.locale) }
+            );
+        }
+
+        // Status "open" mantém o ticket na fila; o bot só retoma quando ele voltar para "pending"
+        const result = await this.gosacApiService.updateTicket({ ticketId, queueId: this.handoffQueueId, status: 'open' });
+
+        if (!result.success) {
+            throw new FlowActionError(result.error || result.message || 'Falha ao transferir ticket', {
+                handoffError: this.describeGosacError(result, state.locale)
+            });
+        }
+
+        // A transferência já foi feita: uma falha no resumo não deve impedi-la
+        const note = await this.gosacApiService.createTicketNote(ticketId, this.buildHandoffSummary(state));
+        if (!note.success) {
+            this.logger.warn(`Resumo da conversa não registrado no ticket ${ticketId}: ${note.error}`);
+        }
+
+        this.logger.log(`Ticket ${ticketId} transferido para a fila ${this.handoffQueueId} (usuário ${userId})`);
+
+        return { handoffQueueId: this.handoffQueueId };
+    }
+
+    /**
+     * Fora do horário: registra no ticket o recado deixado pelo contato para a equipe
+     */
+    async leaveMessage({ userId, state }: FlowActionContext): Promise<Record<string, any>> {
+        await this.postForAgents(userId, state, [
+            '✉️ *Recado deixado fora do horário de atendimento*',
+            '',
+            String(state.data.offHoursMessage ?? '')
+        ]);
+
+        return {};
+    }
+
+    /**
+     * Fora do horário: registra no ticket o pedido de retorno no período escolhido
+     * (`morning`, `afternoon` ou `any`) e devolve o nome do período no idioma da conversa
+     */
+    async requestCallback({ userId, state }: FlowActionContext): Promise<Record<string, any>> {
+        const period = CALLBACK_PERIOD_LABELS[StringUtils.fromValue(state.data.callbackPeriod)] || CALLBACK_PERIOD_LABELS.any;
+
+        await this.postForAgents(userId, state, [
+            '📞 *Retorno solicitado fora do horário de atendimento*',
+            '',
+            `*Período preferido:* ${this.i18n.t(period)}`,
+            `*Telefone:* ${state.context?.contactNumber || 'não informado'}`,
+            `*A partir de:* ${this.businessHours.describeNextOpening(new Date(), this.businessHours.getHandoffQueue())}`
+        ]);
+
+        return { callbackPeriodLabel: this.i18n.t(period, state.locale) };
+    }
+
+    /**
+     * Registra uma nota para a equipe no ticket da conversa (com o resumo dos dados)
+     * e o encaminha para a fila de atendimento humano, sem silenciar o bot
+     */
+    private async postForAgents(userId: string, state: ConversationState, lines: string[]): Promise<void> {
+        const ticketId = state.context?.ticketId;
+
+        if (!ticketId) {
+            throw new FlowActionError(`Ticket da conversa não identificado para o usuário ${userId}`, {
+                handoffError: this.i18n.t('handoff.errors.notRegistered', state.locale)
+            });
+        }
+
+        const note = await this.gosacApiService.createTicketNote(ticketId, [...lines, '', this.buildHandoffSummary(state)].join('\n'));
+
+        if (!note.success) {
+            throw new FlowActionError(note.error || note.message || 'Falha ao registrar nota', {
+                handoffError: this.describeGosacError(note, state.locale)
+            });
+        }
+
+        if (this.handoffQueueId) {
+            await this.gosacApiService.updateTicket({ ticketId, queueId: this.handoffQueueId });
+        }
+    }
+
+    /**
+     * Monta o resumo da conversa com os dados informados nos passos de coleta
+     */
+    private buildHandoffSummary(state: ConversationState): string {
+        const lines = ['🤖 *Resumo do atendimento automático*', ''];
+
+        if (state.context?.contactName || state.context?.contactNumber) {
+            lines.push(`*Contato:* ${[state.context.contactName, state.context.contactNumber].filter(Boolean).join(' - ')}`);
+        }
+
+        const answers = this.flowService.getCollectedFields(state.flowVersion)
+            .filter(({ field }) => state.data[field] !== undefined && state.data[field] !== '')
+            .map(({ field, label }) => `• ${label}: ${String(state.data[field])}`);
+
+        lines.push('', answers.length > 0 ? '*Dados informados:*' : 'Nenhum dado foi informado ao chatbot.', ...answers);
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Obtém o id do ticket pelo número exibido na lista
+     */
+    private resolveListedTicket(input: string, state: ConversationState): number {
+        const ticketIds = (state.data.ticketIds as number[] | undefined) ?? [];
+        const ticketId = ticketIds[parseInt(input, 10) - 1];
+
+        if (!ticketId) {
+            throw new FlowActionError(`Ticket "${input}" não está na lista do usuário ${state.userId}`, {
+                ticketUpdateError: this.i18n.t('tickets.errors.notListed', state.locale, { number: input })
+            });
+        }
+
+        return ticketId;
+    }
+
+    /**
+     * Busca o ticket no GOSAC e garante que ele pertence ao contato
+     */
+    private async loadOwnedTicket(ticketId: number, contactId: number, locale?: string): Promise<GosacTicket> {
+        const result = await this.gosacApiService.getTicket(ticketId);
+
+        if (!result.success || !result.data) {
+            throw new FlowActionError(result.error || result.message || 'Falha ao obter ticket', {
+                ticketUpdateError: this.describeGosacError(result, locale)
+            });
+        }
+
+        if (result.data.contactId !== contactId) {
+            throw new FlowActionError(`Ticket ${ticketId} não pertence ao contato ${contactId}`, {
+                ticketUpdateError: this.i18n.t('tickets.errors.notOwned', locale)
+            });
+        }
+
+        return result.data;
+    }
+
+    /**
+     * Traduz a falha da API do GOSAC para uma mensagem ao usuário, pelo status HTTP
+     * ou pela recusa do disjuntor
+     */
+    private describeGosacError(result: GosacApiResponse, locale?: string): string {
+        if (result.circuitOpen) {
+            return this.i18n.t('gosac.errors.circuitOpen', locale);
+        }
+
+        switch (result.statusCode) {
+            case 404:
+                return this.i18n.t('gosac.errors.notFound', locale);
+            case 401:
+            case 403:
+                return this.i18n.t('gosac.errors.forbidden', locale);
+            case undefined:
+            case 408:
+            case 504:
+                return this.i18n.t('gosac.errors.timeout', locale);
+        }
+
+        return result.error
+            ? this.i18n.t('gosac.errors.rejected', locale, { detail: MessageFormatter.truncate(result.error, 120) })
+            : this.i18n.t('gosac.errors.unknown', locale);
+    }
+
+    /**
+     * Obtém o contato GOSAC da conversa; conversas fora do webhook não têm contato
+     */
+    private requireContactId(userId: string, state: ConversationState): number {
+        const contactId = state.context?.contactId;
+        if (!contactId) {
+            throw new FlowActionError(`Contato GOSAC não identificado para o usuário ${userId}`, {
+                ticketUpdateError: this.i18n.t('tickets.errors.contactNotFound', state.locale)
+            });
+        }
+        return contactId;
+    }
+
+    /**
+     * Formata uma página da lista de tickets, numerada de forma contínua entre páginas
+     */
+    private formatTicketPage(tickets: GosacTicket[], page: number, pageCount: number, locale?: string): string {
+        if (tickets.length === 0) {
+            return this.i18n.t('tickets.list.empty', locale);
+        }
+
+        const start = (page - 1) * this.ticketsPageSize;
+        const lines = tickets.slice(start, start + this.ticketsPageSize).map((ticket, index) =>
+            `${start + index + 1}. *#${ticket.protocol}* ${this.describeStatus(ticket, locale)}\n` +
+            `    ${MessageFormatter.truncate(ticket.lastMessage || this.i18n.t('tickets.list.noMessages', locale), 60)}\n` +
+            `    🕒 ${this.formatDate(ticket.updatedAt, locale)}`
+        );
+
+        const navigation = [this.i18n.t('tickets.list.choose', locale)];
+        if (page < pageCount) navigation.push(this.i18n.t('tickets.list.next', locale));
+        if (page > 1) navigation.push(this.i18n.t('tickets.list.previous', locale));
+
+        const header = this.i18n.t('tickets.list.page', locale, { page, pageCount });
+        return `${header}\n\n${lines.join('\n\n')}\n\n${navigation.join('\n')}`;
+    }
+
+    /**
+     * Formata os detalhes de um ticket
+     */
+    private formatTicketDetails(ticket: GosacTicket, locale?: string): string {
+        const lines = [
+            this.i18n.t('tickets.details.title', locale, { protocol: ticket.protocol }),
+            '',
+            this.i18n.t('tickets.details.status', locale, { status: this.describeStatus(ticket, locale) }),
+            this.i18n.t('tickets.details.createdAt', locale, { date: this.formatDate(ticket.createdAt, locale) }),
+            this.i18n.t('tickets.details.updatedAt', locale, { date: this.formatDate(ticket.updatedAt, locale) })
+        ];
+
+        if (ticket.queue?.name) lines.push(this.i18n.t('tickets.details.queue', locale, { name: ticket.queue.name }));
+        if (ticket.user?.name) lines.push(this.i18n.t('tickets.details.agent', locale, { name: ticket.user.name }));
+        if (ticket.lastMessage) {
+            lines.push('', this.i18n.t('tickets.details.lastMessage', locale, { text: MessageFormatter.truncate(ticket.lastMessage, 200) }));
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Rótulo do status do ticket no idioma da conversa; status desconhecidos são exibidos como vieram
+     */
+    private describeStatus(ticket: GosacTicket, locale?: string): string {
+        const key = TICKET_STATUS_LABELS[ticket.status];
+        return key ? this.i18n.t(key, locale) : ticket.status;
+    }
+
+    /**
+     * Data e hora do ticket no idioma da conversa e no fuso do calendário de atendimento
+     */
+    private formatDate(value: string, locale?: string): string {
+        return DateUtils.formatDateTime(new Date(value), this.i18n.resolveLocale(locale), this.businessHours.getTimeZone());
+    }
+}
@@ -0,0 +1,62 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { GosacApiService } from './gosac-api.service';
+import { GosacOutboundQueueService } from './gosac-outbound-queue.service';
+import { HealthService } from '../chatbot/services/health.service';
+import { HealthCheckResult } from '../chatbot/interfaces/health.interface';
+
+/**
+ * Registra no HealthService as verificações do GOSAC: conectividade da API
+ * (respeitando o disjuntor) e acúmulo na fila de envio
+ */
+@Injectable()
+export class GosacHealthIndicator implements OnModuleInit {
+    constructor(
+        private readonly gosacApiService: GosacApiService,
+        private readonly outboundQueue: GosacOutboundQueueService,
+        private readonly healthService: HealthService
+    ) { }
+
+    onModuleInit(): void {
+        this.healthService.register({
+            name: 'gosac',
+            label: 'Sistema GOSAC',
+            labelKey: 'health.components.gosac',
+            run: () => this.checkApi()
+        });
+        this.healthService.register({
+            name: 'outbound',
+            label: 'Envio de Mensagens',
+            labelKey: 'health.components.outbound',
+            run: () => this.checkOutbound()
+        });
+    }
+
+    /**
+     * Com o circuito aberto não há chamada à API; fora isso, consulta `/health`
+     */
+    async checkApi(): Promise<HealthCheckResult> {
+        const connection = await this.gosacApiService.checkConnection();
+        const circuit = this.gosacApiService.getCircuitState();
+        const details = { ...connection, circuit };
+
+        if (!connection.connected) {
+            return { status: 'down', summary: 'Indisponível', details };
+        }
+
+        return circuit.state === 'closed'
+            ? { status: 'up', summary: 'Online', details }
+            : { status: 'degraded', summary: 'Em recuperação', details };
+    }
+
+    /**
+     * Mensagens mortas indicam respostas que não chegaram aos contatos
+     */
+    async checkOutbound(): Promise<HealthCheckResult> {
+        const deadLetters = (await this.outboundQueue.listDeadLetters()).length;
+        const details = { ...this.outboundQueue.getMetrics(), deadLetters };
+
+        return deadLetters > 0
+            ? { status: 'degraded', summary: `${deadLetters} mensagem(ns) não entregue(s)`, details }
+            : { status: 'up', summary: 'Funcionando', details };
+    }
+}
@@ -1,5 +1,7 @@
 /**
- * Interfaces para integração com o sistema GOSAC
+ * Formato alternativo do webhook do GOSAC: a mensagem traz `id` e `number`, e o
+ * ticket e o contato são opcionais. Só é lido por `normalizeGosacWebhook`, que o
+ * converte para o formato de gosac-webhook.interface
  */
 
 export interface GosacContact {
@@ -0,0 +1,199 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GosacApiService } from './gosac-api.service';
+import { StringUtils } from '../common/utils';
+import { CONVERSATION_STORE } from '../chatbot/interfaces/conversation-store.interface';
+import type { ConversationStore } from '../chatbot/interfaces/conversation-store.interface';
+import type { GosacApiResponse, GosacSendMessageRequest } from './gosac-webhook.interface';
+
+/**
+ * Mensagem que esgotou as tentativas de envio
+ */
+export interface GosacDeadLetter {
+    id: string;
+    request: GosacSendMessageRequest;
+    attempts: number;
+    lastError?: string;
+    firstAttemptAt: string;
+    failedAt: string;
+}
+
+/**
+ * Fila de envio de mensagens ao GOSAC: cada número recebe as mensagens na ordem
+ * em que foram enfileiradas, falhas temporárias são repetidas com espera
+ * exponencial e mensagens que esgotam as tentativas vão para a fila de mensagens
+ * mortas (no armazenamento das conversas), de onde podem ser reenviadas.
+ */
+@Injectable()
+export class GosacOutboundQueueService implements OnModuleDestroy {
+    private readonly logger = new Logger(GosacOutboundQueueService.name);
+    private readonly queues = new Map<string, Promise<void>>();
+    private readonly maxAttempts: number;
+    private readonly retryDelay: number;
+    private readonly maxRetryDelay: number;
+    private readonly deadLetterTtl: number;
+    private sentCount = 0;
+    private retriedCount = 0;
+    private deadLetteredCount = 0;
+
+    constructor(
+        private readonly gosacApiService: GosacApiService,
+        @Inject(CONVERSATION_STORE) private readonly store: ConversationStore,
+        private readonly configService: ConfigService
+    ) {
+        this.maxAttempts = Math.max(1, Number(this.configService.get('GOSAC_SEND_MAX_ATTEMPTS', 5)));
+        this.retryDelay = Number(this.configService.get('GOSAC_SEND_RETRY_DELAY', 1000));
+        this.maxRetryDelay = Number(this.configService.get('GOSAC_SEND_MAX_RETRY_DELAY', 30000));
+        this.deadLetterTtl = Number(this.configService.get('GOSAC_DEAD_LETTER_TTL', 7 * 24 * 60 * 60 * 1000));
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        // Aguarda os envios em andamento antes de encerrar
+        await Promise.all([...this.queues.values()]);
+    }
+
+    /**
+     * Enfileira uma mensagem para o número. Resolve quando ela for entregue ou
+     * movida para a fila de mensagens mortas; nunca rejeita.
+     */
+    enqueue(request: GosacSendMessageRequest): Promise<void> {
+        const tail = this.queues.get(request.number) || Promise.resolve();
+        const next = tail.then(() => this.deliver(request));
+
+        this.queues.set(request.number, next);
+
+        return next.then(() => {
+            if (this.queues.get(request.number) === next) {
+                this.queues.delete(request.number);
+            }
+        });
+    }
+
+    /**
+     * Lista as mensagens mortas, das mais recentes para as mais antigas
+     */
+    async listDeadLetters(): Promise<GosacDeadLetter[]> {
+        const letters = await Promise.all(
+            (await this.store.keys('deadletter:')).map(key => this.store.get<GosacDeadLetter>(key))
+        );
+
+        return letters
+            .filter((letter): letter is GosacDeadLetter => !!letter)
+            .sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+    }
+
+    /**
+     * Obtém uma mensagem morta
+     */
+    getDeadLetter(id: string): Promise<GosacDeadLetter | undefined> {
+        return this.store.get<GosacDeadLetter>(this.deadLetterKey(id));
+    }
+
+    /**
+     * Remove a mensagem morta e a coloca de volta na fila de envio.
+     * Retorna false se ela não existir.
+     */
+    async replayDeadLetter(id: string): Promise<boolean> {
+        const letter = await this.getDeadLetter(id);
+
+        if (!letter) {
+            return false;
+        }
+
+        await this.store.delete(this.deadLetterKey(id));
+        this.logger.log(`Reenviando mensagem morta ${id} para ${letter.request.number}`);
+        void this.enqueue(letter.request);
+
+        return true;
+    }
+
+    /**
+     * Descarta uma mensagem morta. Retorna false se ela não existir.
+     */
+    async deleteDeadLetter(id: string): Promise<boolean> {
+        if (!(await this.getDeadLetter(id))) {
+            return false;
+        }
+
+        await this.store.delete(this.deadLetterKey(id));
+        return true;
+    }
+
+    /**
+     * Obtém métricas da fila de envio
+     */
+    getMetrics() {
+        return {
+            activeNumbers: this.queues.size,
+            sent: this.sentCount,
+            retried: this.retriedCount,
+            deadLettered: this.deadLetteredCount
+        };
+    }
+
+    /**
+     * Tenta enviar a mensagem até esgotar as tentativas ou receber um erro definitivo
+     */
+    private async deliver(request: GosacSendMessageRequest): Promise<void> {
+        const firstAttemptAt = new Date().toISOString();
+        let result: GosacApiResponse | undefined;
+        let attempt = 0;
+
+        try {
+            while (attempt < this.maxAttempts) {
+                attempt++;
+                result = await this.gosacApiService.sendMessage(request);
+
+                if (result.success) {
+                    this.sentCount++;
+                    return;
+                }
+
+                if (!this.isRetryable(result) || attempt >= this.maxAttempts) {
+                    break;
+                }
+
+                const delay = Math.min(this.retryDelay * 2 ** (attempt - 1), this.maxRetryDelay);
+                this.retriedCount++;
+                this.logger.warn(`Falha ao enviar para ${request.number} (tentativa ${attempt}/${this.maxAttempts}); nova tentativa em ${delay}ms`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+
+            await this.deadLetter(request, attempt, result?.error, firstAttemptAt);
+        } catch (error) {
+            this.logger.error(`Erro inesperado ao enviar mensagem para ${request.number}:`, error);
+        }
+    }
+
+    /**
+     * Erros de rede, 5xx, 408 e 429 são temporários; os demais 4xx não mudam com novas tentativas
+     */
+    private isRetryable(result: GosacApiResponse): boolean {
+        const status = result.statusCode;
+        return status === undefined || status >= 500 || status === 408 || status === 429;
+    }
+
+    private async deadLetter(
+        request: GosacSendMessageRequest,
+        attempts: number,
+        lastError: string | undefined,
+        firstAttemptAt: string
+    ): Promise<void> {
+        const letter: GosacDeadLetter = {
+            id: StringUtils.generateId('dl_'),
+            request,
+            attempts,
+            lastError,
+            firstAttemptAt,
+            failedAt: new Date().toISOString()
+        };
+
+        await this.store.set(this.deadLetterKey(letter.id), letter, this.deadLetterTtl);
+        this.deadLetteredCount++;
+        this.logger.error(`Mensagem para ${request.number} movida para a fila de mensagens mortas (${letter.id}) após ${attempts} tentativa(s): ${lastError}`);
+    }
+
+    private deadLetterKey(id: string): string {
+        return `deadletter:${id}`;
+    }
+}
@@ -1,3 +1,5 @@
+import type { InteractiveContent } from '../chatbot/interfaces/conversation.interface';
+
 export interface GosacContact {
     id: number;
     name: string;
@@ -28,6 +30,19 @@ export interface GosacWhatsapp {
     updatedAt: string;
 }
 
+/**
+ * Atendente e fila vinculados ao ticket (só os campos exibidos pelo chatbot)
+ */
+export interface GosacTicketUser {
+    id: number;
+    name: string;
+}
+
+export interface GosacTicketQueue {
+    id: number;
+    name: string;
+}
+
 export interface GosacTicket {
     id: number;
     status: 'open' | 'pending' | 'closed';
@@ -47,8 +62,8 @@ export interface GosacTicket {
     updatedAt: string;
     contact: GosacContact;
     whatsapp: GosacWhatsapp;
-    user?: any;
-    queue?: any;
+    user?: GosacTicketUser;
+    queue?: GosacTicketQueue;
 }
 
 export interface GosacMessage {
@@ -75,9 +90,13 @@ export interface GosacMessage {
     ticket: GosacTicket;
 }
 
+/**
+ * Evento do webhook no formato atual; o formato com `data.id`/`data.number`
+ * (gosac-new.interface) é convertido para este por `normalizeGosacWebhook`
+ */
 export interface GosacWebhookPayload {
     data: GosacMessage;
-    type: 'messages:created' | 'tickets:update' | 'contacts:update';
+    type: 'messages:created' | 'tickets:created' | 'tickets:update' | 'contacts:update';
 }
 
 export interface GosacApiResponse<T = any> {
@@ -85,6 +104,10 @@ export interface GosacApiResponse<T = any> {
     data?: T;
     error?: string;
     message?: string;
+    /** Status HTTP da falha (ausente em erros de rede) */
+    statusCode?: number;
+    /** A chamada foi recusada sem ir ao GOSAC porque o circuito está aberto */
+    circuitOpen?: boolean;
 }
 
 export interface GosacSendMessageRequest {
@@ -92,6 +115,8 @@ export interface GosacSendMessageRequest {
     body: string;
     mediaPath?: string;
     mediaUrl?: string;
+    /** Botões ou lista; `body` é o texto exibido acima deles */
+    interactive?: InteractiveContent;
 }
 
 export interface GosacTicketUpdateRequest {
@@ -100,3 +125,11 @@ export interface GosacTicketUpdateRequest {
     userId?: number;
     queueId?: number;
 }
+
+export interface GosacCreateTicketRequest {
+    contactId: number;
+    subject: string;
+    category: string;
+    description: string;
+    queueId?: number;
+}
@@ -0,0 +1,133 @@
+import { GosacContact, GosacMessage, GosacTicket, GosacWebhookPayload } from './gosac-webhook.interface';
+import type { GosacMessageData, GosacWebhookPayload as GosacAlternateWebhookPayload } from './gosac-new.interface';
+
+const MEDIA_TYPES: ReadonlyArray<GosacMessage['mediaType']> = ['chat', 'image', 'video', 'audio', 'document', 'sticker', 'location'];
+const TICKET_STATUSES: ReadonlyArray<GosacTicket['status']> = ['open', 'pending', 'closed'];
+
+const EVENT_TYPES: Record<GosacAlternateWebhookPayload['type'], GosacWebhookPayload['type']> = {
+    'messages:created': 'messages:created',
+    'tickets:created': 'tickets:created',
+    'tickets:updated': 'tickets:update'
+};
+
+/**
+ * Converte os dois formatos de webhook do GOSAC para o formato atual
+ * (gosac-webhook.interface), o único lido pelo pipeline dos canais. Mensagens
+ * com `messageId` já estão no formato atual; as com `id` e `number`
+ * (gosac-new.interface) são convertidas. Retorna `undefined` para payloads sem
+ * dados de mensagem reconhecíveis.
+ */
+export function normalizeGosacWebhook(payload: unknown): GosacWebhookPayload | undefined {
+    const event = payload as { type?: string; data?: Record<string, any> } | undefined;
+    const data = event?.data;
+
+    if (!data || typeof data !== 'object') {
+        return undefined;
+    }
+
+    if (data.messageId) {
+        return payload as GosacWebhookPayload;
+    }
+
+    if (data.id && typeof data.number === 'string') {
+        const alternate = payload as GosacAlternateWebhookPayload;
+
+        return {
+            type: EVENT_TYPES[alternate.type] ?? (alternate.type as GosacWebhookPayload['type']),
+            data: fromMessageData(alternate.data)
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Monta a mensagem no formato atual. Campos sem equivalente recebem valores
+ * neutros; sem o ticket no payload, ele é tratado como pendente e sem atendente
+ */
+function fromMessageData(data: GosacMessageData): GosacMessage {
+    const contact: GosacContact = {
+        id: data.contact?.id ?? data.contactId,
+        name: data.contact?.name || data.number,
+        number: data.contact?.number || data.number,
+        email: data.contact?.email ?? '',
+        profilePicUrl: data.contact?.profilePicUrl ?? '',
+        isGroup: data.contact?.isGroup ?? data.isGroup,
+        hasWhatsapp: true,
+        hasTelegram: false,
+        blacklist: false,
+        createdAt: data.contact?.createdAt ?? data.createdAt,
+        updatedAt: data.contact?.updatedAt ?? data.updatedAt
+    };
+
+    const ticket = data.ticket;
+    const whatsapp = ticket?.whatsapp;
+
+    return {
+        messageId: String(data.id),
+        body: data.body ?? '',
+        mediaType: toMediaType(data.mediaType),
+        mediaPath: data.mediaPath,
+        ack: data.ack,
+        read: false,
+        fromMe: data.fromMe,
+        fromGroup: data.fromGroup || data.isGroup,
+        isDeleted: false,
+        queueId: ticket?.queueId,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+        ticketId: data.ticketId,
+        contactId: data.contactId,
+        groupContactId: 0,
+        connectionId: ticket?.whatsappId ?? 0,
+        sent: data.fromMe,
+        kind: 'receivedMessage',
+        contact,
+        ticket: {
+            id: data.ticketId,
+            status: TICKET_STATUSES.find(status => status === ticket?.status) ?? 'pending',
+            unreadMessages: ticket?.unreadMessages ?? 0,
+            lastMessage: ticket?.lastMessage ?? data.body ?? '',
+            isGroup: ticket?.isGroup ?? data.isGroup,
+            userId: ticket?.userId,
+            contactId: data.contactId,
+            whatsappId: ticket?.whatsappId ?? 0,
+            queueId: ticket?.queueId,
+            protocol: '',
+            lastAction: '',
+            statusBot: 0,
+            onMenu: '',
+            lastMessageAt: ticket?.lastMessageAt ?? data.createdAt,
+            createdAt: ticket?.createdAt ?? data.createdAt,
+            updatedAt: ticket?.updatedAt ?? data.updatedAt,
+            contact,
+            whatsapp: {
+                id: whatsapp?.id ?? ticket?.whatsappId ?? 0,
+                name: whatsapp?.name ?? '',
+                session: '',
+                status: whatsapp?.status ?? '',
+                phoneNumber: '',
+                enabled: whatsapp?.connected ?? true,
+                type: 'whatsapp',
+                createdAt: whatsapp?.createdAt ?? data.createdAt,
+                updatedAt: whatsapp?.updatedAt ?? data.updatedAt
+            }
+        }
+    };
+}
+
+/**
+ * Áudios de voz (`ptt`) contam como áudio; outros tipos desconhecidos viram
+ * documento, descartados pelos filtros quando não trazem arquivo
+ */
+function toMediaType(mediaType: string | undefined): GosacMessage['mediaType'] {
+    if (!mediaType) {
+        return 'chat';
+    }
+
+    if (mediaType === 'ptt') {
+        return 'audio';
+    }
+
+    return MEDIA_TYPES.find(type => type === mediaType) ?? 'document';
+}
@@ -2,15 +2,30 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { GosacApiService } from './gosac-api.service';
 import { GosacWebhookController } from './gosac-webhook.controller';
+import { GosacFlowActionsService } from './gosac-flow-actions.service';
+import { GosacOutboundQueueService } from './gosac-outbound-queue.service';
+import { GosacAdminController } from './gosac-admin.controller';
+import { GosacHealthIndicator } from './gosac-health.indicator';
+import { GosacChannelAdapter } from './gosac-channel.adapter';
 import { ChatbotModule } from '../chatbot/chatbot.module';
+import { ChannelsModule } from '../channels/channels.module';
+import { GosacWebhookGuard } from '../common/guards/gosac-webhook.guard';
 
 @Module({
     imports: [
         ConfigModule,
-        ChatbotModule
+        ChatbotModule,
+        ChannelsModule
     ],
-    controllers: [GosacWebhookController],
-    providers: [GosacApiService],
-    exports: [GosacApiService]
+    controllers: [GosacWebhookController, GosacAdminController],
+    providers: [
+        GosacApiService,
+        GosacFlowActionsService,
+        GosacOutboundQueueService,
+        GosacHealthIndicator,
+        GosacChannelAdapter,
+        GosacWebhookGuard
+    ],
+    exports: [GosacApiService, GosacOutboundQueueService]
 })
 export class GosacModule { }
@@ -6,7 +6,9 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
   const app = await NestFactory.create(AppModule, {
-    logger: ['log', 'error', 'warn', 'debug', 'verbose']
+    logger: ['log', 'error', 'warn', 'debug', 'verbose'],
+    // Corpo bruto necessário para verificar a assinatura dos webhooks
+    rawBody: true
   });
 
   // Configuração global de validação
@@ -0,0 +1,142 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BusinessHoursConfigError, BusinessHoursService } from '../src/chatbot/services/business-hours.service';
+import { FlowService } from '../src/chatbot/services/flow.service';
+import { FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { ConversationState } from '../src/chatbot/interfaces/conversation.interface';
+import { DateUtils } from '../src/common/utils';
+
+describe('BusinessHoursService', () => {
+    let businessHours: BusinessHoursService;
+    const i18n = new I18nService(new ConfigService());
+
+    // Horários de Brasília (UTC-3)
+    const at = (isoLocal: string) => new Date(`${isoLocal}-03:00`);
+
+    beforeEach(() => {
+        businessHours = new BusinessHoursService(new ConfigService(), i18n);
+    });
+
+    it('should compute the Brazilian movable and fixed holidays', () => {
+        expect(DateUtils.toDateKey(DateUtils.getEasterSunday(2026), 'UTC')).toBe('2026-04-05');
+
+        const holidays = DateUtils.getBrazilianHolidays(2026);
+        expect(holidays['2026-04-03']).toBe('Sexta-feira Santa');
+        expect(holidays['2026-11-02']).toBeDefined();
+        expect(holidays['2026-11-20']).toBeDefined();
+        expect(DateUtils.getBrazilianHolidays(2023)['2023-11-20']).toBeUndefined();
+    });
+
+    it('should be open only inside the weekly hours on working days', () => {
+        expect(businessHours.isOpen(at('2026-10-19T12:00:00'))).toBe(true);
+        expect(businessHours.isOpen(at('2026-10-19T18:00:00'))).toBe(false);
+        expect(businessHours.isOpen(at('2026-10-24T11:59:00'))).toBe(true);
+        expect(businessHours.isOpen(at('2026-10-25T10:00:00'))).toBe(false);
+
+        // Finados e data extra configurada
+        expect(businessHours.isOpen(at('2026-11-02T10:00:00'))).toBe(false);
+        expect(businessHours.isOpen(at('2026-12-24T10:00:00'))).toBe(false);
+    });
+
+    it('should find the next opening skipping weekends and holidays', () => {
+        expect(businessHours.getNextOpening(at('2026-10-19T20:00:00'))).toEqual(at('2026-10-20T08:00:00'));
+        expect(businessHours.getNextOpening(at('2026-10-24T13:30:00'))).toEqual(at('2026-10-26T08:00:00'));
+        expect(businessHours.getNextOpening(at('2026-11-01T09:00:00'))).toEqual(at('2026-11-03T08:00:00'));
+
+        expect(businessHours.describeNextOpening(at('2026-10-19T20:00:00'))).toBe('terça-feira, 20/10 às 08:00');
+        expect(businessHours.describeNextOpening(at('2026-10-19T10:00:00'))).toBe('agora');
+    });
+
+    it('should describe the weekly hours grouping equal days', () => {
+        expect(businessHours.describeWeeklyHours()).toBe('Seg a Sex: 08:00 às 18:00\nSáb: 08:00 às 12:00');
+    });
+
+    it('should describe openings and weekly hours in the conversation locale', () => {
+        expect(businessHours.describeNextOpening(at('2026-10-19T20:00:00'), undefined, 'en')).toBe('Tuesday, 10/20 at 08:00 AM');
+        expect(businessHours.describeNextOpening(at('2026-10-19T10:00:00'), undefined, 'es')).toBe('ahora');
+        expect(businessHours.describeWeeklyHours(undefined, 'en')).toBe('Mon to Fri: 08:00 AM to 06:00 PM\nSat: 08:00 AM to 12:00 PM');
+        expect(businessHours.describeWeeklyHours(undefined, 'es')).toBe('Lun a Vie: 08:00 a 18:00\nSáb: 08:00 a 12:00');
+    });
+
+    it('should reject invalid schedule files', () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'business-hours-')), 'hours.yaml');
+        writeFileSync(file, [
+            'timezone: Lua/Base',
+            'nationalHolidays: "sim"',
+            'holidays: ["25/12"]',
+            'schedules:',
+            '  suporte:',
+            '    monday: ["08:00-18:00"]',
+            '    tue: ["8h as 18h"]'
+        ].join('\n'));
+
+        const load = () => new BusinessHoursService(new ConfigService({ CHATBOT_BUSINESS_HOURS_FILE: file }), i18n);
+        let error: BusinessHoursConfigError | undefined;
+        try {
+            load();
+        } catch (caught: unknown) {
+            if (caught instanceof BusinessHoursConfigError) error = caught;
+        }
+
+        expect(error).toBeInstanceOf(BusinessHoursConfigError);
+        expect(error?.issues).toHaveLength(6);
+    });
+
+    it('should expose the calendar to flow guards and messages', () => {
+        const flowService = new FlowService(new FlowLoaderService(new ConfigService()), i18n, undefined, businessHours);
+        const state = { userId: 'user', currentStep: 'welcome', stepHistory: [], data: {} } as unknown as ConversationState;
+        const step = {
+            id: 'human_handoff',
+            name: 'Atendente',
+            message: 'Próximo atendimento: {{$nextOpening}}',
+            guards: [{ field: '$businessHours', equals: 'closed', nextStep: 'handoff_closed' }]
+        };
+
+        jest.spyOn(businessHours, 'isOpen').mockReturnValue(false);
+        jest.spyOn(businessHours, 'describeNextOpening').mockReturnValue('segunda-feira, 26/10 às 08:00');
+
+        expect(flowService.resolveGuards(step, '4', state)).toBe('handoff_closed');
+        expect(flowService.buildStepResponse(step, state).message).toBe('Próximo atendimento: segunda-feira, 26/10 às 08:00');
+
+        jest.spyOn(businessHours, 'isOpen').mockReturnValue(true);
+        expect(flowService.resolveGuards(step, '4', state)).toBeUndefined();
+    });
+
+    it('should check the handoff queue schedule unless the flow names another queue', () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'business-hours-')), 'hours.yaml');
+        writeFileSync(file, [
+            'schedules:',
+            '  default:',
+            '    mon: ["08:00-18:00"]',
+            '  "3":',
+            '    mon: ["13:00-18:00"]'
+        ].join('\n'));
+
+        const handoffHours = new BusinessHoursService(
+            new ConfigService({ CHATBOT_BUSINESS_HOURS_FILE: file, GOSAC_HANDOFF_QUEUE_ID: '3' }),
+            i18n
+        );
+        const flowService = new FlowService(new FlowLoaderService(new ConfigService()), i18n, undefined, handoffHours);
+        const state = { userId: 'user', currentStep: 'welcome', stepHistory: [], data: {} } as unknown as ConversationState;
+        const step = {
+            id: 'human_handoff',
+            name: 'Atendente',
+            message: 'Próximo atendimento: {{$nextOpening}}',
+            guards: [{ field: '$businessHours', equals: 'closed', nextStep: 'handoff_closed' }]
+        };
+        const otherQueue = { ...step, guards: [{ field: '$businessHours.default', equals: 'closed', nextStep: 'handoff_closed' }] };
+
+        jest.useFakeTimers({ now: at('2026-10-19T10:00:00') });
+        const guard = flowService.resolveGuards(step, '4', state);
+        const message = flowService.buildStepResponse(step, state).message;
+        const otherGuard = flowService.resolveGuards(otherQueue, '4', state);
+        jest.useRealTimers();
+
+        expect(guard).toBe('handoff_closed');
+        expect(message).toBe('Próximo atendimento: segunda-feira, 19/10 às 13:00');
+        expect(otherGuard).toBeUndefined();
+    });
+});
@@ -0,0 +1,88 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChannelService } from '../src/channels/channel.service';
+import { MessageLedgerService } from '../src/chatbot/services/message-ledger.service';
+import { ChatbotService } from '../src/chatbot/services/chatbot.service';
+import { InMemoryConversationStore } from '../src/chatbot/storage/in-memory-conversation.store';
+import type { ChannelAdapter, InboundMessage } from '../src/channels/channel-adapter.interface';
+import type { ChatbotResponse } from '../src/chatbot/interfaces/conversation.interface';
+
+describe('ChannelService', () => {
+    type FakePayload = { id?: string; from?: string; text?: string; bot?: boolean };
+    type FakeAdapter = ChannelAdapter<FakePayload, string>;
+
+    let channels: ChannelService;
+    let submitMessage: jest.MockedFunction<ChatbotService['submitMessage']>;
+    let send: jest.MockedFunction<FakeAdapter['send']>;
+    let afterProcess: jest.MockedFunction<NonNullable<FakeAdapter['afterProcess']>>;
+    let adapter: jest.Mocked<FakeAdapter>;
+
+    beforeEach(() => {
+        submitMessage = jest.fn<ReturnType<ChatbotService['submitMessage']>, Parameters<ChatbotService['submitMessage']>>(
+            async (_userId, _message, deliver) => {
+                await deliver({ message: 'Olá!', options: ['1. Ajuda'] });
+                return 'processed';
+            }
+        );
+
+        send = jest.fn<Promise<void>, [string]>().mockResolvedValue(undefined);
+        afterProcess = jest.fn<Promise<void>, [InboundMessage<FakePayload>]>().mockResolvedValue(undefined);
+        adapter = {
+            channel: 'fake',
+            authorize: jest.fn<boolean, [ExecutionContext]>().mockReturnValue(true),
+            parseInbound: jest.fn<InboundMessage<FakePayload> | undefined, [unknown]>((payload: unknown) => {
+                const fake = payload as FakePayload;
+                return fake.id && fake.from
+                    ? { messageId: fake.id, senderId: fake.from, replyTo: `chat-${fake.from}`, text: fake.text ?? '', raw: fake }
+                    : undefined;
+            }),
+            shouldProcess: jest.fn<boolean, [InboundMessage<FakePayload>]>(message => !message.raw.bot),
+            renderOutbound: jest.fn<string[], [ChatbotResponse, InboundMessage<FakePayload>]>(
+                (response, message) => [`${message.replyTo}: ${response.message}`, ...response.options!]
+            ),
+            send,
+            afterProcess
+        };
+
+        channels = new ChannelService(
+            { submitMessage } as unknown as ChatbotService,
+            new MessageLedgerService(new InMemoryConversationStore(), new ConfigService())
+        );
+        channels.register(adapter);
+    });
+
+    it('should keep conversations namespaced by channel and reply through the same channel', async () => {
+        await expect(channels.handleWebhook('fake', { id: 'm1', from: '42', text: 'oi' }))
+            .resolves.toEqual({ status: 'processed', message: 'Mensagem m1 processada com sucesso' });
+
+        expect(submitMessage).toHaveBeenCalledWith('fake:42', 'oi', expect.any(Function), { channel: 'fake' }, undefined);
+        expect(send.mock.calls.map(([outbound]) => outbound)).toEqual(['chat-42: Olá!', '1. Ajuda']);
+        expect(afterProcess).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore unknown events, filtered messages and redeliveries', async () => {
+        await expect(channels.handleWebhook('fake', {})).resolves.toMatchObject({ status: 'ignored' });
+        await expect(channels.handleWebhook('fake', { id: 'm2', from: '7', text: 'oi', bot: true }))
+            .resolves.toEqual({ status: 'ignored', message: 'Mensagem filtrada' });
+        await expect(channels.handleWebhook('other', { id: 'm3' })).resolves.toMatchObject({ status: 'ignored' });
+
+        await channels.handleWebhook('fake', { id: 'm4', from: '42', text: 'oi' });
+        await expect(channels.handleWebhook('fake', { id: 'm4', from: '42', text: 'oi' }))
+            .resolves.toMatchObject({ status: 'processed' });
+
+        expect(submitMessage).toHaveBeenCalledTimes(1);
+        expect(channels.list()).toEqual(['fake']);
+    });
+
+    it('should answer processing errors with a 500 so the redelivery runs again', async () => {
+        submitMessage.mockRejectedValueOnce(new Error('falhou'));
+
+        const failure = await channels.handleWebhook('fake', { id: 'm5', from: '42', text: 'oi' }).catch((error: unknown) => error);
+        expect(failure).toBeInstanceOf(HttpException);
+        expect((failure as HttpException).getStatus()).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+
+        await expect(channels.handleWebhook('fake', { id: 'm5', from: '42', text: 'oi' }))
+            .resolves.toMatchObject({ status: 'processed' });
+        expect(submitMessage).toHaveBeenCalledTimes(2);
+    });
+});
@@ -1,25 +1,52 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { ChatbotService } from '../src/chatbot/services/chatbot.service';
 import { ConversationStateService } from '../src/chatbot/services/conversation-state.service';
 import { ValidationService } from '../src/chatbot/services/validation.service';
 import { FlowService } from '../src/chatbot/services/flow.service';
+import { FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { IntentService } from '../src/chatbot/services/intent.service';
+import { UserMessageQueueService } from '../src/chatbot/services/user-message-queue.service';
+import { MessageAggregatorService } from '../src/chatbot/services/message-aggregator.service';
+import { FlowActionService } from '../src/chatbot/services/flow-action.service';
+import { InMemoryConversationStore } from '../src/chatbot/storage/in-memory-conversation.store';
+import { CONVERSATION_STORE } from '../src/chatbot/interfaces/conversation-store.interface';
+import type { FlowActionHandler } from '../src/chatbot/interfaces/conversation.interface';
 
 describe('ChatbotService', () => {
     let service: ChatbotService;
-    let conversationState: ConversationStateService;
+    let flowService: FlowService;
+    let flowActions: FlowActionService;
+    let store: InMemoryConversationStore;
+
+    const createService = async (config: Record<string, any> = {}) => {
+        store = new InMemoryConversationStore();
 
-    beforeEach(async () => {
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 ChatbotService,
                 ConversationStateService,
                 ValidationService,
-                FlowService
+                FlowService,
+                FlowLoaderService,
+                UserMessageQueueService,
+                MessageAggregatorService,
+                FlowActionService,
+                I18nService,
+                IntentService,
+                { provide: ConfigService, useValue: new ConfigService(config) },
+                { provide: CONVERSATION_STORE, useValue: store }
             ],
         }).compile();
 
         service = module.get<ChatbotService>(ChatbotService);
-        conversationState = module.get<ConversationStateService>(ConversationStateService);
+        flowService = module.get<FlowService>(FlowService);
+        flowActions = module.get<FlowActionService>(FlowActionService);
+    };
+
+    beforeEach(async () => {
+        await createService();
     });
 
     it('should be defined', () => {
@@ -75,15 +102,239 @@ describe('ChatbotService', () => {
     });
 
     it('should handle debounce correctly', async () => {
-        const response1 = await service.processMessage('test-user-5', 'Primeira mensagem');
+        await service.processMessage('test-user-5', 'Primeira mensagem');
         const response2 = await service.processMessage('test-user-5', 'Segunda mensagem rápida');
 
         expect(response2.message).toContain('aguarde um momento');
     });
 
-    afterEach(() => {
+    it('should answer errors from the flow version the conversation is pinned to', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+
+        const definition = (version: string) => ({
+            id: 'pinned',
+            version,
+            steps: [
+                { id: 'welcome', name: 'Boas-vindas', message: `Olá da ${version}`, options: [{ key: 'help', text: 'Ajuda', nextStep: 'help_menu' }] },
+                { id: 'help_menu', name: 'Ajuda', message: 'Ajuda', nextStep: 'welcome' },
+                { id: 'validation_error', name: 'Erro de Validação', message: 'Opção inválida', nextStep: { type: 'previous', fallback: 'welcome' } },
+                { id: 'error', name: 'Erro', message: `Erro da ${version}`, nextStep: 'welcome' }
+            ]
+        });
+
+        flowService.registerVersion(definition('v1'));
+        flowService.publishVersion('v1');
+        await service.processMessage('pinned-user', 'Oi');
+
+        flowService.registerVersion(definition('v2'));
+        flowService.publishVersion('v2');
+        jest.spyOn(flowService, 'processUserInput').mockImplementationOnce(() => {
+            throw new Error('falhou');
+        });
+
+        expect((await service.processMessage('pinned-user', '1')).message).toBe('Erro da v1');
+        expect((await service.processMessage('pinned-user', 'Oi')).message).toContain('Olá da v1');
+    });
+
+    it('should collect form answers into conversation data for review', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+
+        flowService.registerVersion({
+            id: 'form',
+            version: 'form-1',
+            steps: [
+                {
+                    id: 'welcome',
+                    name: 'Boas-vindas',
+                    message: 'Olá!',
+                    options: [{ key: 'form', text: 'Cadastro', nextStep: 'ask_name' }]
+                },
+                {
+                    id: 'ask_name',
+                    name: 'Nome',
+                    message: 'Qual é o seu nome?',
+                    collect: { field: 'name', normalizers: ['trim', 'capitalize'] },
+                    validation: { type: 'text', minLength: 3 },
+                    nextStep: 'ask_cpf'
+                },
+                {
+                    id: 'ask_cpf',
+                    name: 'CPF',
+                    message: 'Informe seu CPF',
+                    collect: { field: 'cpf', normalizers: ['maskCpf'] },
+                    validation: { type: 'custom', validator: 'cpf', errorMessage: 'CPF inválido.' },
+                    nextStep: 'ask_email'
+                },
+                {
+                    id: 'ask_email',
+                    name: 'E-mail',
+                    message: 'Informe seu e-mail',
+                    collect: { field: 'email', normalizers: ['trim', 'lowercase'] },
+                    validation: { type: 'email' },
+                    nextStep: 'review'
+                },
+                {
+                    id: 'review',
+                    name: 'Revisão',
+                    message: 'Nome: {{name}}\nCPF: {{cpf}}\nE-mail: {{email}}',
+                    options: [{ key: 'ok', text: 'Confirmar', nextStep: 'welcome' }]
+                },
+                {
+                    id: 'validation_error',
+                    name: 'Erro de Validação',
+                    message: 'Opção inválida',
+                    nextStep: { type: 'previous', fallback: 'welcome' }
+                },
+                { id: 'error', name: 'Erro', message: 'Erro', nextStep: 'welcome' }
+            ]
+        });
+        flowService.publishVersion('form-1');
+
+        await service.processMessage('form-user', 'Oi');
+        expect((await service.processMessage('form-user', '1')).message).toBe('Qual é o seu nome?');
+        await service.processMessage('form-user', '  maria   da silva ');
+
+        const invalidCpf = await service.processMessage('form-user', '111.111.111-11');
+        expect(invalidCpf.message).toContain('CPF inválido.');
+
+        await service.processMessage('form-user', '52998224725');
+        const review = await service.processMessage('form-user', 'Maria@Example.com');
+
+        expect(review.message).toBe('Nome: Maria Da Silva\nCPF: 529.982.247-25\nE-mail: maria@example.com');
+    });
+
+    it('should create a ticket through the wizard and offer a retry when the action fails', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+
+        const createTicket = jest.fn<ReturnType<FlowActionHandler>, Parameters<FlowActionHandler>>()
+            .mockRejectedValueOnce(new Error('GOSAC indisponível'))
+            .mockResolvedValueOnce({ ticketProtocol: '20261019-0042', createdTicketId: 42 });
+        flowActions.register('createTicket', createTicket);
+
+        await service.processMessage('wizard-user', 'Oi', { contactId: 7, contactNumber: '5511999999999' });
+        await service.processMessage('wizard-user', '1');
+        expect((await service.processMessage('wizard-user', '1')).message).toContain('Qual é o *assunto*');
+
+        await service.processMessage('wizard-user', '  Erro ao emitir boleto ');
+        await service.processMessage('wizard-user', '2');
+        await service.processMessage('wizard-user', 'O boleto de outubro não é gerado no portal.');
+        const review = await service.processMessage('wizard-user', 'sem anexo');
+
+        expect(review.message).toContain('*Assunto:* Erro ao emitir boleto');
+        expect(review.message).toContain('*Categoria:* financeiro');
+
+        const failed = await service.processMessage('wizard-user', '1');
+        expect(failed.message).toContain('Não foi possível abrir o seu ticket');
+
+        const created = await service.processMessage('wizard-user', '1');
+        expect(created.message).toContain('Protocolo: *20261019-0042*');
+
+        const state = await service['conversationState'].getConversationState('wizard-user');
+        expect(state.currentStep).toBe('ticket_created');
+        expect(state.data).toMatchObject({ ticketCategory: 'financeiro', ticketProtocol: '20261019-0042' });
+        expect(createTicket).toHaveBeenCalledTimes(2);
+        expect(createTicket.mock.calls[1][0].state.context).toMatchObject({ contactId: 7 });
+    });
+
+    it('should stay silent after a handoff until the ticket returns to pending', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+        flowActions.register('handoffToAgent', () => Promise.resolve({ handoffQueueId: 3 }));
+
+        const context = { contactId: 7, ticketId: 55, ticketStatus: 'open' };
+        await service.processMessage('handoff-user', 'Oi', context);
+
+        const transferred = await service.processMessage('handoff-user', '4', context);
+        expect(transferred.message).toContain('Transferindo para um atendente');
+
+        const silenced = await service.processMessage('handoff-user', 'Alguém aí?', context);
+        expect(silenced).toEqual({ message: '', silent: true });
+
+        const resumed = await service.processMessage('handoff-user', 'Oi', { ...context, ticketStatus: 'pending' });
+        expect(resumed.message).toContain('Atendimento humano encerrado');
+        expect(resumed.message).toContain('Bem-vindo(a) ao Verador Bot');
+    });
+
+    it('should follow global intents from any step before the step itself', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+        flowActions.register('listTickets', () => Promise.resolve({ ticketList: '1. #42 Boleto' }));
+
+        await service.processMessage('intent-user', 'Oi');
+        await service.processMessage('intent-user', '1');
+        expect((await service.processMessage('intent-user', '1')).message).toContain('Qual é o *assunto*');
+
+        // Passo de texto livre: a frase da intenção não é tomada como assunto
+        const tickets = await service.processMessage('intent-user', 'Meus chamados!');
+        expect(tickets.message).toContain('1. #42 Boleto');
+
+        const state = await service['conversationState'].getConversationState('intent-user');
+        expect(state.currentStep).toBe('list_tickets');
+        expect(state.data.ticketSubject).toBeUndefined();
+
+        const cancelled = await service.processMessage('intent-user', 'CANCELAR');
+        expect(cancelled.message).toContain('Reiniciando conversa');
+    });
+
+    it('should collect an expected media and reject text or other media types', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+
+        await service.processMessage('media-user', 'Oi');
+        await service.processMessage('media-user', '1');
+        await service.processMessage('media-user', '1');
+        await service.processMessage('media-user', 'Erro ao emitir boleto');
+        await service.processMessage('media-user', '2');
+        await service.processMessage('media-user', 'O boleto de outubro não é gerado no portal.');
+        expect((await service.processMessage('media-user', 'anexar')).message).toContain('Envie a *foto*');
+
+        const text = await service.processMessage('media-user', 'segue o print');
+        expect(text.message).toContain('Envie uma foto ou um documento');
+
+        const audio = await service.processMessage('media-user', '', undefined, { type: 'audio', path: 'media/a.ogg' });
+        expect(audio.message).toContain('Envie uma foto ou um documento');
+
+        const image = { type: 'image' as const, url: 'https://cdn.gosac.com/media/abc.jpg', caption: 'print' };
+        const review = await service.processMessage('media-user', 'print', undefined, image);
+        expect(review.message).toContain('*Anexo:* 📎 recebido');
+
+        const state = await service['conversationState'].getConversationState('media-user');
+        expect(state.data.ticketAttachment).toEqual(image);
+
+        // Fora de um passo de mídia, arquivos e localizações são recusados com uma explicação
+        const location = { type: 'location' as const, location: { latitude: -23.56, longitude: -46.65 } };
+        expect((await service.processMessage('media-user', '', undefined, location)).message)
+            .toContain('Não consigo ler arquivos ou localizações');
+    });
+
+    it('should detect the locale from the contact and switch it through the language menu', async () => {
+        await store.close();
+        await createService({ CHATBOT_DEBOUNCE_TIME: 0 });
+        service.onModuleInit();
+
+        const welcome = await service.processMessage('locale-user', 'Hola', { contactNumber: '5491155554444' });
+        expect(welcome.message).toContain('Bienvenido(a) a Verador Bot');
+        expect(welcome.options).toContain('1. 🎫 Gestionar Tickets');
+
+        expect((await service.processMessage('locale-user', '5')).message).toContain('Choose your language');
+
+        const changed = await service.processMessage('locale-user', 'English');
+        expect(changed.message).toContain('continue in English');
+        expect(changed.options).toEqual(['1. 🏠 Main Menu', '0. ⬅️ Back', '#. 🔄 Start over']);
+
+        expect((await service.processMessage('locale-user', 'back')).message).toContain('Going back');
+
+        // O idioma escolhido sobrevive ao reinício da conversa
+        const restarted = await service.processMessage('locale-user', 'restart');
+        expect(restarted.message).toContain('Restarting conversation');
+        expect(restarted.message).toContain('Welcome to Verador Bot');
+    });
+
+    afterEach(async () => {
         // Limpa estados de teste
-        conversationState['conversations'].clear();
-        conversationState['messageHistory'].clear();
+        await store.close();
     });
 });
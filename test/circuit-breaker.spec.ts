@@ -0,0 +1,62 @@
+import { CircuitBreaker, CircuitOpenError } from '../src/common/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+    let transitions: string[];
+
+    beforeEach(() => {
+        now = Date.parse('2026-10-19T12:00:00Z');
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        transitions = [];
+        breaker = new CircuitBreaker('GOSAC', {
+            failureThreshold: 3,
+            resetTimeout: 10000,
+            onStateChange: (state, previous) => transitions.push(`${previous}->${state}`)
+        });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should open only after consecutive failures', () => {
+        breaker.recordFailure('timeout');
+        breaker.recordFailure('timeout');
+        breaker.recordSuccess();
+        breaker.recordFailure('timeout');
+        breaker.recordFailure('timeout');
+        expect(breaker.getState()).toBe('closed');
+
+        breaker.recordFailure('timeout');
+        expect(breaker.getState()).toBe('open');
+        expect(() => breaker.assertRequestAllowed()).toThrow(CircuitOpenError);
+    });
+
+    it('should allow a probe after the reset timeout and close on success', () => {
+        for (let i = 0; i < 3; i++) breaker.recordFailure('timeout');
+
+        expect(breaker.allowProbe()).toBe(false);
+
+        now += 10000;
+        expect(breaker.allowProbe()).toBe(true);
+        expect(breaker.getState()).toBe('half_open');
+        expect(breaker.allowRequest()).toBe(false);
+
+        breaker.recordSuccess();
+        expect(breaker.getState()).toBe('closed');
+        expect(transitions).toEqual(['closed->open', 'open->half_open', 'half_open->closed']);
+    });
+
+    it('should reopen when the half-open probe fails', () => {
+        for (let i = 0; i < 3; i++) breaker.recordFailure('timeout');
+        now += 10000;
+        breaker.allowProbe();
+
+        breaker.recordFailure('ECONNREFUSED');
+
+        expect(breaker.getSnapshot()).toMatchObject({
+            state: 'open',
+            lastFailure: 'ECONNREFUSED',
+            retryAt: new Date(now + 10000).toISOString()
+        });
+    });
+});
@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { ConversationStore } from '../src/chatbot/interfaces/conversation-store.interface';
+import { InMemoryConversationStore } from '../src/chatbot/storage/in-memory-conversation.store';
+import { FileConversationStore } from '../src/chatbot/storage/file-conversation.store';
+import { RedisConversationStore } from '../src/chatbot/storage/redis-conversation.store';
+import { ConversationStateService } from '../src/chatbot/services/conversation-state.service';
+
+describe('ConversationStore', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'verador-store-'));
+    });
+
+    afterAll(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const backends: [string, () => ConversationStore][] = [
+        ['memory', () => new InMemoryConversationStore()],
+        ['file', () => new FileConversationStore(join(tempDir, `${Date.now()}-${Math.random()}.json`))],
+        ['redis', () => new RedisConversationStore(new RedisMock() as unknown as Redis, 'test:')]
+    ];
+
+    describe.each(backends)('%s backend', (_name, createStore) => {
+        let store: ConversationStore;
+
+        beforeEach(async () => {
+            store = createStore();
+            for (const key of await store.keys('')) {
+                await store.delete(key);
+            }
+        });
+
+        afterEach(async () => {
+            await store.close();
+        });
+
+        it('should round-trip JSON values', async () => {
+            await store.set('conversation:1', { currentStep: 'welcome', stepHistory: ['a'] });
+
+            expect(await store.get('conversation:1')).toEqual({ currentStep: 'welcome', stepHistory: ['a'] });
+            expect(await store.get('conversation:missing')).toBeUndefined();
+        });
+
+        it('should list keys by prefix and delete them', async () => {
+            await store.set('conversation:1', 1);
+            await store.set('conversation:2', 2);
+            await store.set('history:1', []);
+
+            expect((await store.keys('conversation:')).sort()).toEqual(['conversation:1', 'conversation:2']);
+
+            await store.delete('conversation:1');
+            expect(await store.keys('conversation:')).toEqual(['conversation:2']);
+        });
+
+        it('should expire keys after their TTL', async () => {
+            await store.set('conversation:ttl', 'value', 50);
+            await new Promise(resolve => setTimeout(resolve, 80));
+
+            expect(await store.get('conversation:ttl')).toBeUndefined();
+        });
+
+        it('should write with setIfAbsent only when the key is missing or expired', async () => {
+            const claims = await Promise.all([
+                store.setIfAbsent('processed:m1', 'first', 50),
+                store.setIfAbsent('processed:m1', 'second', 50)
+            ]);
+
+            expect(claims.sort()).toEqual([false, true]);
+            expect(await store.get('processed:m1')).toBe('first');
+
+            await new Promise(resolve => setTimeout(resolve, 80));
+            await expect(store.setIfAbsent('processed:m1', 'third')).resolves.toBe(true);
+            expect(await store.get('processed:m1')).toBe('third');
+        });
+    });
+
+    it('should keep conversations across file store restarts', async () => {
+        const filePath = join(tempDir, 'restart.json');
+
+        const first = new FileConversationStore(filePath);
+        const stateService = new ConversationStateService(first);
+        await stateService.moveToStep('user-1', 'tickets_menu');
+        await first.close();
+
+        const second = new FileConversationStore(filePath);
+        const restored = await new ConversationStateService(second).getConversationState('user-1');
+        await second.close();
+
+        expect(restored.currentStep).toBe('tickets_menu');
+        expect(restored.stepHistory).toEqual(['welcome']);
+        expect(restored.lastMessageTime).toBeInstanceOf(Date);
+    });
+
+    it('should batch file snapshots written while another write is in progress', async () => {
+        const filePath = join(tempDir, 'batch.json');
+        const store = new FileConversationStore(filePath);
+        const writeSnapshot = jest.spyOn(store as unknown as { writeSnapshot: () => Promise<void> }, 'writeSnapshot');
+
+        await Promise.all(Array.from({ length: 50 }, (_, index) => store.set(`conversation:${index}`, index)));
+        await store.close();
+
+        const reloaded = new FileConversationStore(filePath);
+        expect(writeSnapshot).toHaveBeenCalledTimes(1);
+        expect(await reloaded.keys('conversation:')).toHaveLength(50);
+        await reloaded.close();
+    });
+});
@@ -0,0 +1,217 @@
+import { ConfigService } from '@nestjs/config';
+import { FlowDefinitionError, FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+
+/**
+ * Passo como chega do arquivo, antes da validação: aceita valores inválidos
+ */
+type RawStep = Record<string, unknown>;
+
+/**
+ * `expect.stringContaining` tipado para uso dentro dos objetos esperados
+ */
+const containing = (text: string) => expect.stringContaining(text) as string;
+
+describe('FlowLoaderService', () => {
+    let loader: FlowLoaderService;
+
+    const baseSteps = (): RawStep[] => [
+        {
+            id: 'welcome',
+            name: 'Boas-vindas',
+            message: 'Olá!',
+            options: [{ key: 'help', text: 'Ajuda', nextStep: 'help_menu' }]
+        },
+        { id: 'help_menu', name: 'Ajuda', message: 'Ajuda', nextStep: 'welcome' },
+        {
+            id: 'validation_error',
+            name: 'Erro de Validação',
+            message: 'Opção inválida',
+            nextStep: { type: 'previous', fallback: 'welcome' }
+        },
+        { id: 'error', name: 'Erro', message: 'Erro', nextStep: 'welcome' }
+    ];
+
+    beforeEach(() => {
+        loader = new FlowLoaderService(new ConfigService());
+    });
+
+    it('should load the bundled default flow', () => {
+        const definition = loader.loadConfiguredFlow();
+        const steps = loader.compile(definition);
+
+        expect(definition.version).toBeDefined();
+        expect(steps.map(step => step.id)).toEqual(
+            expect.arrayContaining(['welcome', 'tickets_menu', 'validation_error', 'error'])
+        );
+    });
+
+    it('should accept a valid definition', () => {
+        expect(loader.validate({ id: 'test', version: '1', steps: baseSteps() })).toEqual([]);
+    });
+
+    it('should reject dangling nextStep references', () => {
+        const steps = baseSteps();
+        steps[1].nextStep = 'missing_step';
+
+        expect(() => loader.parse({ id: 'test', version: '1', steps })).toThrow(
+            /passo "help_menu" referencia passo inexistente "missing_step"/
+        );
+    });
+
+    it('should reject unreachable steps', () => {
+        const steps = [...baseSteps(), { id: 'orphan', name: 'Órfão', message: 'Ninguém chega aqui', nextStep: 'welcome' }];
+
+        expect(() => loader.parse({ id: 'test', version: '1', steps })).toThrow(/passo "orphan" é inalcançável/);
+    });
+
+    it('should report every schema problem at once', () => {
+        const steps = baseSteps();
+        steps[0].options = [{ key: 'help', text: 'Ajuda', nextStep: 42 }];
+        steps[1].validation = { type: 'custom', validator: 'unknown', pattern: '(' };
+
+        try {
+            loader.parse({ version: '1', steps }, 'broken.yaml');
+            fail('deveria lançar FlowDefinitionError');
+        } catch (error) {
+            expect(error).toBeInstanceOf(FlowDefinitionError);
+            expect((error as FlowDefinitionError).issues.map(issue => issue.path)).toEqual([
+                '$.id',
+                '$.steps[0].options[0].nextStep',
+                '$.steps[1].validation.pattern',
+                '$.steps[1].validation.validator'
+            ]);
+        }
+    });
+
+    it('should reject unknown normalizers in data collection steps', () => {
+        const steps = baseSteps();
+        steps[1].collect = { field: 'email', normalizers: ['trim', 'shout'] };
+
+        expect(loader.validate({ id: 'test', version: '1', steps })).toEqual([
+            { path: '$.steps[1].collect.normalizers[1]', message: containing('normalizador desconhecido') }
+        ]);
+    });
+
+    it('should follow entry action error routes and report unregistered actions', () => {
+        const steps = [
+            ...baseSteps(),
+            { id: 'failed', name: 'Falha', message: 'Falhou', nextStep: 'welcome' }
+        ];
+        steps[1].onEnter = { action: 'openTicket', onError: 'failed' };
+
+        const definition = loader.parse({ id: 'test', version: '1', steps });
+
+        expect(loader.compile(definition).find(step => step.id === 'help_menu')!.onEnter)
+            .toEqual({ action: 'openTicket', onError: 'failed' });
+        expect(loader.findUnknownActions(definition, ['openTicket'])).toEqual([]);
+        expect(loader.findUnknownActions(definition, [])).toEqual([
+            { path: '$.steps[1].onEnter.action', message: containing('ação desconhecida "openTicket"') }
+        ]);
+    });
+
+    it('should reject invalid message templates', () => {
+        const steps = baseSteps();
+        steps[0].message = 'Olá, {{contact.name | shout}}! {{#if ticketProtocol}}Protocolo';
+        steps[1].message = 'Hoje é {{$today}}';
+
+        const issues = loader.validate({ id: 'test', version: '1', steps });
+
+        expect(issues).toEqual(expect.arrayContaining([
+            expect.objectContaining({ path: '$.steps[0].message', message: containing('formatador desconhecido "shout"') }),
+            expect.objectContaining({ path: '$.steps[0].message', message: 'bloco #if não fechado' }),
+            expect.objectContaining({ path: '$.steps[1].message', message: 'variável de sistema desconhecida "$today"' })
+        ]));
+    });
+
+    it('should validate step translations and report unknown locales', () => {
+        const steps = baseSteps();
+        steps[0].translations = { en: { message: 'Hello!', options: { help: 'Help', missing: 'Missing' } } };
+        steps[1].translations = { fr: { message: 'Aide {{#if x}}' } };
+
+        expect(loader.validate({ id: 'test', version: '1', steps })).toEqual([
+            { path: '$.steps[0].translations.en.options.missing', message: 'opção "missing" não existe no passo' },
+            { path: '$.steps[1].translations.fr.message', message: 'bloco #if não fechado' }
+        ]);
+
+        steps[0].translations = { en: { message: 'Hello!', options: { help: 'Help' } } };
+        steps[1].translations = { fr: { message: 'Aide' } };
+        const definition = loader.parse({ id: 'test', version: '1', steps });
+
+        expect(loader.findUnknownLocales(definition, ['pt-BR', 'en'])).toEqual([
+            { path: '$.steps[1].translations.fr', message: containing('idioma desconhecido "fr"') }
+        ]);
+        expect(loader.findMissingTranslations(definition, ['en', 'es'])).toEqual(expect.arrayContaining([
+            { path: '$.steps[0].translations', message: 'passo "welcome" sem tradução para es' },
+            { path: '$.steps[1].translations', message: 'passo "help_menu" sem tradução para en, es' }
+        ]));
+    });
+
+    it('should validate global intents and treat their targets as reachable', () => {
+        const steps = [...baseSteps(), { id: 'agent', name: 'Atendente', message: 'Aguarde', nextStep: 'welcome' }];
+        steps[1].disableIntents = ['agent', 'restart', 'unknown'];
+        const intents: RawStep[] = [
+            { id: 'agent', keywords: ['atendente'], nextStep: 'agent' },
+            { id: 'back', keywords: ['voltar'], command: 'back' },
+            { id: 'cancel', patterns: ['('], command: 'restart', nextStep: 'welcome' },
+            { id: 'menu', keywords: ['menu'] }
+        ];
+
+        expect(loader.validate({ id: 'test', version: '1', intents, steps })).toEqual([
+            { path: '$.intents[1].id', message: 'id reservado "back"' },
+            { path: '$.intents[2].patterns[0]', message: 'expressão regular inválida' },
+            { path: '$.intents[2]', message: '"command" não pode ser combinado com "nextStep" ou "action"' },
+            { path: '$.intents[3]', message: 'a intenção precisa de "nextStep", "command" ou "action"' },
+            { path: '$.steps[1].disableIntents[2]', message: 'intenção desconhecida "unknown"' }
+        ]);
+
+        steps[1].disableIntents = ['agent'];
+        const definition = loader.parse({ id: 'test', version: '1', intents: [{ ...intents[0], patterns: ['^humano$'] }], steps });
+        const [compiled] = loader.compileIntents(definition);
+
+        expect(compiled.patterns![0].test('HUMANO')).toBe(true);
+        expect(loader.compile(definition).find(step => step.id === 'help_menu')!.disableIntents).toEqual(['agent']);
+        expect(() => loader.parse({ id: 'test', version: '1', intents: [{ ...intents[0], nextStep: 'missing' }], steps }))
+            .toThrow(/intenção "agent" referencia passo inexistente "missing"/);
+    });
+
+    it('should validate media requirements', () => {
+        const steps = baseSteps();
+        steps[1].media = { accept: ['image', 'pdf'], errorMessage: 'Envie {{#if x}}' };
+        steps[1].validation = { type: 'text' };
+
+        expect(loader.validate({ id: 'test', version: '1', steps })).toEqual([
+            { path: '$.steps[1].media.accept', message: containing('deve ser uma lista não vazia') },
+            { path: '$.steps[1].media.errorMessage', message: 'bloco #if não fechado' },
+            { path: '$.steps[1]', message: 'use "media" ou "validation", não os dois' }
+        ]);
+
+        steps[1].media = { accept: ['image', 'location'] };
+        delete steps[1].validation;
+        const compiled = loader.compile(loader.parse({ id: 'test', version: '1', steps }));
+
+        expect(compiled.find(step => step.id === 'help_menu')!.media).toEqual({ accept: ['image', 'location'] });
+    });
+
+    it('should validate step attachments', () => {
+        const steps = baseSteps();
+        steps[1].attachments = [{ type: 'pdf', url: '' }, { type: 'document', url: 'https://example.com/{{file | shout}}' }];
+
+        expect(loader.validate({ id: 'test', version: '1', steps })).toEqual([
+            { path: '$.steps[1].attachments[0].type', message: 'deve ser um de: image, video, audio, document' },
+            { path: '$.steps[1].attachments[0].url', message: 'deve ser uma string não vazia' },
+            { path: '$.steps[1].attachments[1].url', message: containing('formatador desconhecido "shout"') }
+        ]);
+    });
+
+    it('should compile patterns and named validators', () => {
+        const steps = baseSteps();
+        steps[1].validation = { type: 'custom', validator: 'cpf', pattern: '^\\d+$' };
+
+        const compiled = loader.compile(loader.parse({ id: 'test', version: '1', steps }));
+        const rule = compiled.find(step => step.id === 'help_menu')!.validation!;
+
+        expect(rule.pattern).toBeInstanceOf(RegExp);
+        expect(rule.customValidator!('529.982.247-25')).toBe(true);
+        expect(rule.customValidator!('111.111.111-11')).toBe(false);
+    });
+});
@@ -0,0 +1,190 @@
+import { ConfigService } from '@nestjs/config';
+import { FlowService } from '../src/chatbot/services/flow.service';
+import { FlowDefinitionError, FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { ConversationState } from '../src/chatbot/interfaces/conversation.interface';
+
+describe('FlowService', () => {
+    let flowService: FlowService;
+    let initialVersion: string;
+
+    const buildDefinition = (version: string, helpMessage: string) => ({
+        id: 'test',
+        version,
+        steps: [
+            {
+                id: 'welcome',
+                name: 'Boas-vindas',
+                message: `Olá da versão ${version}`,
+                options: [{ key: 'help', text: 'Ajuda', nextStep: 'help_menu' }]
+            },
+            { id: 'help_menu', name: 'Ajuda', message: helpMessage, nextStep: 'welcome' },
+            {
+                id: 'validation_error',
+                name: 'Erro de Validação',
+                message: 'Opção inválida',
+                nextStep: { type: 'previous', fallback: 'welcome' }
+            },
+            { id: 'error', name: 'Erro', message: 'Erro', nextStep: 'welcome' }
+        ]
+    });
+
+    const buildState = (flowVersion?: string): ConversationState => ({
+        userId: 'user',
+        currentStep: 'welcome',
+        stepHistory: [],
+        lastMessageTime: new Date(),
+        isActive: true,
+        data: {},
+        attempts: 0,
+        flowVersion
+    });
+
+    beforeEach(() => {
+        flowService = new FlowService(new FlowLoaderService(new ConfigService()), new I18nService(new ConfigService()));
+        initialVersion = flowService.getActiveVersion();
+    });
+
+    it('should publish the bundled flow at startup', () => {
+        expect(initialVersion).toBeDefined();
+        expect(flowService.getStep('tickets_menu')).toBeDefined();
+    });
+
+    it('should register a version without publishing it', () => {
+        flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda nova'));
+
+        expect(flowService.getActiveVersion()).toBe(initialVersion);
+        expect(flowService.listVersions().map(summary => summary.version)).toEqual([initialVersion, '2.0.0']);
+    });
+
+    it('should keep pinned conversations on their version after publishing', () => {
+        flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda nova'));
+        flowService.publishVersion('2.0.0');
+
+        const pinned = flowService.processUserInput('2', 'welcome', buildState(initialVersion));
+        const fresh = flowService.processUserInput('1', 'welcome', buildState('2.0.0'));
+
+        expect(pinned.nextStepId).toBe('system_status');
+        expect(fresh.response.message).toBe('Ajuda nova');
+        expect(flowService.getStep('tickets_menu')).toBeUndefined();
+        expect(flowService.getStep('tickets_menu', initialVersion)).toBeDefined();
+    });
+
+    it('should diff a version against the active one', () => {
+        flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda nova'));
+        expect(flowService.diffWithActive('2.0.0')!.removed).toContain('tickets_menu');
+
+        flowService.publishVersion('2.0.0');
+        const next = buildDefinition('2.1.0', 'Ajuda revisada');
+        next.steps[0].message = 'Olá da versão 2.0.0';
+        flowService.registerVersion(next);
+
+        expect(flowService.diffWithActive('2.1.0')).toEqual({
+            from: '2.0.0',
+            to: '2.1.0',
+            added: [],
+            removed: [],
+            changed: [{ stepId: 'help_menu', fields: ['message'] }]
+        });
+    });
+
+    it('should roll back to the previously published version', () => {
+        flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda nova'));
+        flowService.publishVersion('2.0.0');
+
+        expect(flowService.rollback()).toBe(initialVersion);
+        expect(flowService.getActiveVersion()).toBe(initialVersion);
+        expect(flowService.rollback()).toBeUndefined();
+    });
+
+    it('should refuse to overwrite a registered version', () => {
+        flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda nova'));
+
+        expect(() => flowService.registerVersion(buildDefinition('2.0.0', 'Outra ajuda'))).toThrow(FlowDefinitionError);
+        expect(() => flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda nova'))).not.toThrow();
+    });
+
+    it('should edit steps through a new version and leave pinned conversations untouched', () => {
+        flowService.registerVersion(buildDefinition('2.0.0', 'Ajuda'));
+        flowService.publishVersion('2.0.0');
+
+        const version = flowService.addStep({ id: 'help_menu', name: 'Ajuda', message: 'Ajuda editada', nextStep: 'welcome' });
+
+        expect(version).toBe('2.0.0+1');
+        expect(flowService.getActiveVersion()).toBe('2.0.0+1');
+        expect(flowService.getStep('help_menu')!.message).toBe('Ajuda editada');
+        expect(flowService.getStep('help_menu', '2.0.0')!.message).toBe('Ajuda');
+
+        expect(() => flowService.removeStep('help_menu')).toThrow(FlowDefinitionError);
+        expect(flowService.removeStep('missing')).toBeUndefined();
+        expect(flowService.getActiveVersion()).toBe('2.0.0+1');
+    });
+
+    it('should render system variables when the step is shown, not when it is loaded', () => {
+        const step = { id: 'status', name: 'Status', message: 'Verificado em {{$now}}' };
+
+        jest.useFakeTimers({ now: new Date('2026-10-19T15:00:00Z') });
+        const first = flowService.buildStepResponse(step, buildState()).message;
+        jest.setSystemTime(new Date('2026-10-19T16:30:00Z'));
+        const second = flowService.buildStepResponse(step, buildState()).message;
+        const english = flowService.buildStepResponse(step, { ...buildState(), locale: 'en' }).message;
+        jest.useRealTimers();
+
+        expect(first).toBe('Verificado em 19/10/2026, 12:00');
+        expect(second).toBe('Verificado em 19/10/2026, 13:30');
+        expect(english).toBe('Verificado em 10/19/2026, 01:30 PM');
+    });
+
+    it('should match options loosely and ask which one when the input is ambiguous', () => {
+        expect(flowService.processUserInput('tiquete', 'welcome', buildState()).nextStepId).toBe('tickets_menu');
+        expect(flowService.processUserInput('Ajuda!', 'welcome', buildState()).nextStepId).toBe('help_menu');
+        expect(flowService.processUserInput('a', 'welcome', buildState()).nextStepId).toBe('validation_error');
+
+        const definition = buildDefinition('2.0.0', 'Ajuda');
+        definition.steps[0].options!.push({ key: 'billing', text: 'Financeiro', nextStep: 'billing' });
+        flowService.registerVersion({
+            ...definition,
+            steps: [...definition.steps, {
+                id: 'billing',
+                name: 'Financeiro',
+                message: 'O que você precisa?',
+                options: [
+                    { key: 'boleto', text: '🧾 Segunda via do boleto', nextStep: 'welcome' },
+                    { key: 'pix', text: '💠 Pagar com Pix', nextStep: 'welcome' },
+                    { key: 'nota', text: '📄 Segunda via da nota fiscal', nextStep: 'help_menu' }
+                ]
+            }]
+        });
+
+        const ambiguous = flowService.processUserInput('segunda via', 'billing', buildState('2.0.0'));
+
+        expect(ambiguous.ambiguous).toBe(true);
+        expect(ambiguous.nextStepId).toBe('billing');
+        expect(ambiguous.response.options).toEqual(['1. 🧾 Segunda via do boleto', '3. 📄 Segunda via da nota fiscal']);
+        expect(ambiguous.response.interactive).toEqual({
+            type: 'buttons',
+            buttons: [{ id: '1', title: '🧾 Segunda via do...' }, { id: '3', title: '📄 Segunda via da...' }]
+        });
+        expect(flowService.processUserInput('segunda via nota', 'billing', buildState('2.0.0')).nextStepId).toBe('help_menu');
+    });
+
+    it('should offer the choices as buttons or a list and render step attachments', () => {
+        const confirm = flowService.buildStepResponse({
+            id: 'confirm',
+            name: 'Confirmação',
+            message: 'Confirma?',
+            options: [{ key: 'yes', text: 'Sim', nextStep: 'welcome' }],
+            allowRestart: false,
+            attachments: [{ type: 'document', url: 'https://example.com/{{plan}}.pdf', caption: 'Plano {{plan}}' }]
+        }, { ...buildState(), data: { plan: 'ouro' } });
+
+        expect(confirm.interactive).toEqual({ type: 'buttons', buttons: [{ id: '1', title: 'Sim' }, { id: '0', title: '⬅️ Voltar' }] });
+        expect(confirm.attachments).toEqual([{ type: 'document', url: 'https://example.com/ouro.pdf', caption: 'Plano ouro' }]);
+
+        const welcome = flowService.buildStepResponse(flowService.getStep('welcome')!, { ...buildState(), locale: 'en' });
+
+        expect(welcome.interactive).toMatchObject({ type: 'list', buttonText: 'See options' });
+        expect(welcome.interactive?.type === 'list' && welcome.interactive.rows.map(row => row.id)).toEqual(['1', '2', '3', '4', '5']);
+        expect(flowService.getStep('help_menu')!.attachments).toEqual([expect.objectContaining({ type: 'document' })]);
+    });
+});
@@ -0,0 +1,117 @@
+import { ConfigService } from '@nestjs/config';
+import { AxiosError, AxiosHeaders, type AxiosAdapter } from 'axios';
+import { GosacApiService } from '../src/gosac/gosac-api.service';
+import type { GosacMessage } from '../src/gosac/gosac-webhook.interface';
+
+describe('GosacApiService circuit breaker', () => {
+    let service: GosacApiService;
+    let adapter: jest.Mock<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>;
+
+    const networkError = () => Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+    beforeEach(() => {
+        service = new GosacApiService(new ConfigService({
+            GOSAC_BREAKER_THRESHOLD: 2,
+            GOSAC_BREAKER_RESET_TIMEOUT: 50
+        }));
+
+        adapter = jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>();
+        // Substitui o transporte HTTP para simular o GOSAC
+        (service as unknown as { httpClient: { defaults: { adapter: AxiosAdapter } } }).httpClient.defaults.adapter = adapter;
+    });
+
+    afterEach(() => service.onModuleDestroy());
+
+    it('should open after consecutive failures and fail fast without calling GOSAC', async () => {
+        adapter.mockRejectedValue(networkError());
+
+        await service.sendMessage({ number: '5511999999999', body: 'Olá' });
+        await service.sendMessage({ number: '5511999999999', body: 'Olá' });
+        expect(service.getCircuitState().state).toBe('open');
+
+        const result = await service.sendMessage({ number: '5511999999999', body: 'Olá' });
+        expect(result).toMatchObject({ success: false, error: 'GOSAC indisponível (circuito aberto)', circuitOpen: true });
+        expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not count client errors as failures', async () => {
+        const config = { headers: new AxiosHeaders() };
+        adapter.mockRejectedValue(new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, {}, {
+            status: 404, statusText: 'Not Found', headers: {}, config, data: { message: 'Ticket não encontrado' }
+        }));
+
+        await expect(service.getTicket(1)).resolves.toMatchObject({ success: false, error: 'Ticket não encontrado', statusCode: 404 });
+        await service.getTicket(2);
+
+        expect(service.getCircuitState()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('should probe after the reset timeout and close once GOSAC answers', async () => {
+        adapter.mockRejectedValue(networkError());
+        await service.getTicket(1);
+        await service.getTicket(1);
+
+        await expect(service.checkConnection()).resolves.toMatchObject({ connected: false });
+        expect(adapter).toHaveBeenCalledTimes(2);
+
+        // GOSAC volta; a sondagem agendada fecha o circuito
+        adapter.mockImplementation(config => Promise.resolve({ data: {}, status: 200, statusText: 'OK', headers: {}, config }));
+        await new Promise(resolve => setTimeout(resolve, 80));
+
+        expect(service.getCircuitState().state).toBe('closed');
+        await expect(service.checkConnection()).resolves.toMatchObject({ connected: true });
+    });
+});
+
+describe('GosacApiService message extraction', () => {
+    const service = new GosacApiService(new ConfigService());
+
+    afterAll(() => service.onModuleDestroy());
+
+    const message = (overrides: Partial<GosacMessage>): GosacMessage => ({
+        messageId: 'msg-1',
+        body: '',
+        mediaType: 'chat',
+        fromMe: false,
+        fromGroup: false,
+        ticketId: 10,
+        contactId: 7,
+        createdAt: '2026-10-19T12:00:00.000Z',
+        contact: { name: 'Maria', number: '5511999999999' },
+        ticket: { status: 'pending', protocol: '20261019-0001' },
+        ...overrides
+    } as GosacMessage);
+
+    it('should pass media references with the caption as text', () => {
+        const data = service.extractMessageData(message({
+            mediaType: 'image',
+            body: 'comprovante',
+            mediaUrl: 'https://cdn.gosac.com/media/abc.jpg',
+            mediaPath: 'media/abc.jpg'
+        }));
+
+        expect(data.message).toBe('comprovante');
+        expect(data.media).toEqual({
+            type: 'image',
+            url: 'https://cdn.gosac.com/media/abc.jpg',
+            path: 'media/abc.jpg',
+            caption: 'comprovante'
+        });
+        expect(service.extractMessageData(message({ body: 'Oi' })).media).toBeUndefined();
+    });
+
+    it('should parse locations into coordinates and accept them without a media file', () => {
+        const location = message({
+            mediaType: 'location',
+            body: 'data:image/png;base64,iVBORw0KGgo | https://maps.google.com/maps?q=-23.5613%2C-46.6565&z=17 | Av. Paulista, 1578'
+        });
+
+        expect(service.shouldProcessMessage(location)).toBe(true);
+        expect(service.extractMessageData(location)).toMatchObject({
+            message: '',
+            media: { type: 'location', location: { latitude: -23.5613, longitude: -46.6565, address: 'Av. Paulista, 1578' } }
+        });
+        expect(service.extractMessageData(message({ mediaType: 'location', body: 'sem coordenadas' })).media)
+            .toEqual({ type: 'location' });
+    });
+});
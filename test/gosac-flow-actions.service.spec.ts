@@ -0,0 +1,249 @@
+import { ConfigService } from '@nestjs/config';
+import { GosacFlowActionsService } from '../src/gosac/gosac-flow-actions.service';
+import { GosacApiService } from '../src/gosac/gosac-api.service';
+import { GosacApiResponse, GosacTicket } from '../src/gosac/gosac-webhook.interface';
+import { FlowActionError, FlowActionService } from '../src/chatbot/services/flow-action.service';
+import { FlowService } from '../src/chatbot/services/flow.service';
+import { FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { BusinessHoursService } from '../src/chatbot/services/business-hours.service';
+import { ConversationState, FlowActionContext } from '../src/chatbot/interfaces/conversation.interface';
+
+describe('GosacFlowActionsService', () => {
+    let actions: GosacFlowActionsService;
+    let gosacApi: jest.Mocked<Pick<GosacApiService, 'createTicket' | 'listTickets' | 'getTicket' | 'updateTicket' | 'createTicketNote'>>;
+
+    const ticket = (id: number, overrides: Partial<GosacTicket> = {}) => ({
+        id,
+        contactId: 7,
+        status: 'open',
+        protocol: `2026${id}`,
+        lastMessage: `Mensagem ${id}`,
+        createdAt: '2026-10-01T12:00:00.000Z',
+        updatedAt: '2026-10-02T12:00:00.000Z',
+        ...overrides
+    }) as GosacTicket;
+
+    const apiFailure = (error: string, details: Partial<GosacApiResponse> = {}): GosacApiResponse<never> =>
+        ({ success: false, error, ...details });
+
+    // Aguarda a rejeição da ação e devolve o erro com os dados exibidos ao usuário
+    const failureOf = async (action: Promise<unknown>): Promise<FlowActionError> => {
+        const error = await action.then(() => undefined, (caught: unknown) => caught);
+        expect(error).toBeInstanceOf(FlowActionError);
+        return error as FlowActionError;
+    };
+
+    const context = (input: string, data: Record<string, any> = {}): FlowActionContext => ({
+        userId: '7',
+        input,
+        state: {
+            userId: '7',
+            currentStep: 'list_tickets',
+            stepHistory: [],
+            data,
+            context: { contactId: 7 },
+            lastMessageTime: new Date(),
+            isActive: true,
+            attempts: 0
+        } as ConversationState,
+        step: { id: 'list_tickets', name: 'Listar Tickets', message: '' }
+    });
+
+    beforeEach(() => {
+        gosacApi = {
+            createTicket: jest.fn(),
+            listTickets: jest.fn(),
+            getTicket: jest.fn(),
+            updateTicket: jest.fn(),
+            createTicketNote: jest.fn()
+        };
+
+        const i18n = new I18nService(new ConfigService());
+        actions = new GosacFlowActionsService(
+            gosacApi as unknown as GosacApiService,
+            new FlowActionService(),
+            new FlowService(new FlowLoaderService(new ConfigService()), i18n),
+            new BusinessHoursService(new ConfigService(), i18n),
+            i18n,
+            new ConfigService({ CHATBOT_TICKETS_PAGE_SIZE: 2, GOSAC_HANDOFF_QUEUE_ID: '3' })
+        );
+    });
+
+    it('should return the protocol of the created ticket', async () => {
+        gosacApi.createTicket.mockResolvedValue({ success: true, data: ticket(42) });
+
+        const result = await actions.createTicket(context('1', {
+            ticketSubject: 'Boleto',
+            ticketCategory: 'financeiro',
+            ticketDescription: 'O boleto não é gerado'
+        }));
+
+        expect(gosacApi.createTicket).toHaveBeenCalledWith({
+            contactId: 7,
+            subject: 'Boleto',
+            category: 'financeiro',
+            description: 'O boleto não é gerado'
+        });
+        expect(result).toEqual({ ticketProtocol: '202642', createdTicketId: 42 });
+        expect(gosacApi.createTicketNote).not.toHaveBeenCalled();
+    });
+
+    it('should register the attachment of the ticket as a note', async () => {
+        gosacApi.createTicket.mockResolvedValue({ success: true, data: ticket(42) });
+        gosacApi.createTicketNote.mockResolvedValue({ success: true });
+
+        await actions.createTicket(context('1', {
+            ticketSubject: 'Boleto',
+            ticketAttachment: { type: 'image', url: 'https://cdn.gosac.com/media/abc.jpg' }
+        }));
+
+        expect(gosacApi.createTicketNote).toHaveBeenCalledWith(42, '📎 Anexo enviado pelo contato: https://cdn.gosac.com/media/abc.jpg');
+    });
+
+    it('should fail when GOSAC rejects the ticket so the flow can route to the retry step', async () => {
+        gosacApi.createTicket.mockResolvedValue(apiFailure('Fila inexistente'));
+
+        await expect(actions.createTicket(context('1'))).rejects.toThrow('Fila inexistente');
+    });
+
+    it('should paginate the ticket list with continuous numbering', async () => {
+        gosacApi.listTickets.mockResolvedValue({ success: true, data: [ticket(1), ticket(2), ticket(3)] });
+
+        const first = await actions.listTickets(context('2'));
+        expect(first.ticketPage).toBe(1);
+        expect(first.ticketList).toContain('Página 1 de 2');
+        expect(first.ticketList).toContain('1. *#20261* 🟢 Aberto');
+        expect(first.ticketList).toContain('*+* próxima página');
+
+        const second = await actions.listTickets(context('+', first));
+        expect(second.ticketPage).toBe(2);
+        expect(second.ticketList).toContain('3. *#20263*');
+        expect(second.ticketList).not.toContain('*+* próxima página');
+
+        const beyond = await actions.listTickets(context('mais', second));
+        expect(beyond.ticketPage).toBe(2);
+
+        const back = await actions.listTickets(context('-', second));
+        expect(back.ticketPage).toBe(1);
+    });
+
+    it('should show only tickets that belong to the contact', async () => {
+        gosacApi.getTicket.mockResolvedValueOnce({ success: true, data: ticket(2) });
+        gosacApi.getTicket.mockResolvedValueOnce({ success: true, data: ticket(3, { contactId: 99 }) });
+
+        const details = await actions.showTicket(context('1', { ticketIds: [2, 3] }));
+        expect(details.selectedTicketId).toBe(2);
+        expect(details.ticketDetails).toContain('🎫 *Ticket #20262*');
+
+        await expect(actions.showTicket(context('2', { ticketIds: [2, 3] }))).rejects.toThrow('não pertence');
+        await expect(actions.showTicket(context('5', { ticketIds: [2, 3] }))).rejects.toThrow('não está na lista');
+    });
+
+    it('should offer to close open tickets and to reopen closed ones', async () => {
+        gosacApi.getTicket.mockResolvedValueOnce({ success: true, data: ticket(2) });
+        gosacApi.getTicket.mockResolvedValueOnce({ success: true, data: ticket(3, { status: 'closed' }) });
+
+        await expect(actions.prepareTicketStatusChange(context('1', { ticketIds: [2, 3] })))
+            .resolves.toMatchObject({ selectedTicketId: 2, ticketStatusChange: 'close', ticketStatusVerb: 'encerrar' });
+        await expect(actions.prepareTicketStatusChange(context('2', { ticketIds: [2, 3] })))
+            .resolves.toMatchObject({ selectedTicketId: 3, ticketStatusChange: 'reopen', ticketStatusVerb: 'reabrir' });
+    });
+
+    it('should update the confirmed ticket and report GOSAC errors in friendly text', async () => {
+        const data = { selectedTicketId: 2, ticketStatusChange: 'close' };
+        gosacApi.getTicket.mockResolvedValue({ success: true, data: ticket(2) });
+        gosacApi.updateTicket.mockResolvedValueOnce({ success: true });
+        gosacApi.updateTicket.mockResolvedValueOnce(apiFailure('Request failed with status code 403', { statusCode: 403 }));
+
+        await expect(actions.updateTicketStatus(context('1', data)))
+            .resolves.toEqual({ selectedTicketStatus: 'closed', ticketStatusOutcome: 'encerrado' });
+        expect(gosacApi.updateTicket).toHaveBeenCalledWith({ ticketId: 2, status: 'closed' });
+
+        const failure = await failureOf(actions.updateTicketStatus(context('1', data)));
+        expect(failure.data.ticketUpdateError).toBe('O atendimento não tem permissão para alterar este ticket.');
+    });
+
+    it('should classify GOSAC failures by circuit state and status code, not by message text', async () => {
+        const data = { selectedTicketId: 2, ticketStatusChange: 'close' };
+        gosacApi.getTicket.mockResolvedValue({ success: true, data: ticket(2) });
+        gosacApi.updateTicket.mockResolvedValueOnce(apiFailure('Circuit breaker is open', { circuitOpen: true }));
+        gosacApi.updateTicket.mockResolvedValueOnce(apiFailure('Ticket 404 já encerrado', { statusCode: 422 }));
+
+        const circuit = await failureOf(actions.updateTicketStatus(context('1', data)));
+        expect(circuit.data).toEqual({
+            ticketUpdateError: 'O GOSAC está temporariamente indisponível. Tente novamente em alguns minutos.',
+        });
+
+        const rejected = await failureOf(actions.updateTicketStatus(context('1', data)));
+        expect(rejected.data).toEqual({
+            ticketUpdateError: 'O GOSAC recusou a alteração: Ticket 404 já encerrado',
+        });
+    });
+
+    it('should render ticket texts and errors in the conversation locale', async () => {
+        const english = (input: string, data: Record<string, any> = {}): FlowActionContext => {
+            const base = context(input, data);
+            return { ...base, state: { ...base.state, locale: 'en' } };
+        };
+        gosacApi.listTickets.mockResolvedValue({ success: true, data: [ticket(1), ticket(2), ticket(3)] });
+        gosacApi.getTicket.mockResolvedValue({ success: true, data: ticket(2, { status: 'closed' }) });
+        gosacApi.updateTicket.mockResolvedValue(apiFailure('timeout of 5000ms exceeded'));
+
+        const list = await actions.listTickets(english('1'));
+        expect(list.ticketList).toContain('Page 1 of 2');
+        expect(list.ticketList).toContain('1. *#20261* 🟢 Open');
+        expect(list.ticketList).toContain('*+* next page');
+
+        const details = await actions.showTicket(english('1', { ticketIds: [2] }));
+        expect(details.ticketDetails).toContain('*Status:* ⚫ Closed');
+
+        await expect(actions.prepareTicketStatusChange(english('1', { ticketIds: [2] })))
+            .resolves.toMatchObject({ ticketStatusVerb: 'reopen' });
+
+        const failure = await failureOf(actions.updateTicketStatus(english('1', { selectedTicketId: 2, ticketStatusChange: 'reopen' })));
+        expect(failure.data).toEqual({ ticketUpdateError: 'GOSAC did not respond. Please try again in a moment.' });
+    });
+
+    it('should refuse to change tickets of another contact', async () => {
+        gosacApi.getTicket.mockResolvedValue({ success: true, data: ticket(2, { contactId: 99 }) });
+
+        const failure = await failureOf(actions.updateTicketStatus(context('1', { selectedTicketId: 2, ticketStatusChange: 'close' })));
+
+        expect(failure.data.ticketUpdateError).toBe('Este ticket não pertence ao seu cadastro.');
+        expect(gosacApi.updateTicket).not.toHaveBeenCalled();
+    });
+
+    it('should transfer the conversation ticket to the handoff queue with a summary for the agent', async () => {
+        gosacApi.updateTicket.mockResolvedValue({ success: true });
+        gosacApi.createTicketNote.mockResolvedValue(apiFailure('indisponível'));
+
+        const handoff = context('4', { ticketSubject: 'Erro ao emitir boleto', ticketIds: [1, 2] });
+        handoff.state.context = { contactId: 7, contactName: 'Maria', ticketId: 55 };
+
+        await expect(actions.handoffToAgent(handoff)).resolves.toEqual({ handoffQueueId: 3 });
+        expect(gosacApi.updateTicket).toHaveBeenCalledWith({ ticketId: 55, queueId: 3, status: 'open' });
+
+        const [ticketId, summary] = gosacApi.createTicketNote.mock.calls[0];
+        expect(ticketId).toBe(55);
+        expect(summary).toContain('*Contato:* Maria');
+        expect(summary).toContain('• Criar Ticket - Assunto: Erro ao emitir boleto');
+        expect(summary).not.toContain('ticketIds');
+    });
+
+    it('should leave the off-hours message on the conversation ticket for the team', async () => {
+        gosacApi.createTicketNote.mockResolvedValue({ success: true });
+        gosacApi.updateTicket.mockResolvedValue({ success: true });
+
+        const leave = context('Preciso da segunda via', { offHoursMessage: 'Preciso da segunda via do boleto' });
+        leave.state.context = { contactId: 7, ticketId: 55 };
+
+        await expect(actions.leaveMessage(leave)).resolves.toEqual({});
+        expect(gosacApi.createTicketNote.mock.calls[0][1]).toContain('Preciso da segunda via do boleto');
+        expect(gosacApi.updateTicket).toHaveBeenCalledWith({ ticketId: 55, queueId: 3 });
+
+        const failure = await failureOf(actions.leaveMessage(context('oi')));
+        expect(failure.data.handoffError).toBeDefined();
+    });
+
+});
@@ -0,0 +1,82 @@
+import { ConfigService } from '@nestjs/config';
+import { GosacOutboundQueueService } from '../src/gosac/gosac-outbound-queue.service';
+import { GosacApiService } from '../src/gosac/gosac-api.service';
+import { InMemoryConversationStore } from '../src/chatbot/storage/in-memory-conversation.store';
+
+describe('GosacOutboundQueueService', () => {
+    let queue: GosacOutboundQueueService;
+    let gosacApi: jest.Mocked<Pick<GosacApiService, 'sendMessage'>>;
+
+    beforeEach(() => {
+        gosacApi = { sendMessage: jest.fn() };
+
+        queue = new GosacOutboundQueueService(
+            gosacApi as unknown as GosacApiService,
+            new InMemoryConversationStore(),
+            new ConfigService({ GOSAC_SEND_MAX_ATTEMPTS: 3, GOSAC_SEND_RETRY_DELAY: 5 })
+        );
+    });
+
+    it('should retry temporary failures until the message is sent', async () => {
+        gosacApi.sendMessage
+            .mockResolvedValueOnce({ success: false, error: 'timeout' })
+            .mockResolvedValueOnce({ success: false, error: 'Bad Gateway', statusCode: 502 })
+            .mockResolvedValueOnce({ success: true });
+
+        await queue.enqueue({ number: '5511999999999', body: 'Olá' });
+
+        expect(gosacApi.sendMessage).toHaveBeenCalledTimes(3);
+        expect(queue.getMetrics()).toMatchObject({ sent: 1, retried: 2, deadLettered: 0 });
+        await expect(queue.listDeadLetters()).resolves.toEqual([]);
+    });
+
+    it('should keep the order of messages sent to the same number', async () => {
+        const sent: string[] = [];
+        let failFirst = true;
+
+        gosacApi.sendMessage.mockImplementation(request => {
+            if (request.body === 'primeira' && failFirst) {
+                failFirst = false;
+                return Promise.resolve({ success: false, error: 'timeout' });
+            }
+
+            sent.push(request.body);
+            return Promise.resolve({ success: true });
+        });
+
+        await Promise.all([
+            queue.enqueue({ number: '5511999999999', body: 'primeira' }),
+            queue.enqueue({ number: '5511999999999', body: 'segunda' })
+        ]);
+
+        expect(sent).toEqual(['primeira', 'segunda']);
+    });
+
+    it('should dead-letter messages that exhausted retries and replay them', async () => {
+        gosacApi.sendMessage.mockResolvedValue({ success: false, error: 'Serviço indisponível', statusCode: 503 });
+
+        await queue.enqueue({ number: '5511999999999', body: 'Olá' });
+
+        const [letter] = await queue.listDeadLetters();
+        expect(gosacApi.sendMessage).toHaveBeenCalledTimes(3);
+        expect(letter).toMatchObject({ attempts: 3, lastError: 'Serviço indisponível', request: { body: 'Olá' } });
+
+        gosacApi.sendMessage.mockResolvedValue({ success: true });
+
+        await expect(queue.replayDeadLetter(letter.id)).resolves.toBe(true);
+        await queue.onModuleDestroy();
+
+        expect(gosacApi.sendMessage).toHaveBeenCalledTimes(4);
+        await expect(queue.getDeadLetter(letter.id)).resolves.toBeUndefined();
+        await expect(queue.replayDeadLetter('inexistente')).resolves.toBe(false);
+    });
+
+    it('should not retry permanent client errors', async () => {
+        gosacApi.sendMessage.mockResolvedValue({ success: false, error: 'Número inválido', statusCode: 400 });
+
+        await queue.enqueue({ number: '123', body: 'Olá' });
+
+        expect(gosacApi.sendMessage).toHaveBeenCalledTimes(1);
+        await expect(queue.listDeadLetters()).resolves.toHaveLength(1);
+    });
+});
@@ -0,0 +1,55 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GosacWebhookGuard, signGosacWebhook } from '../src/common/guards/gosac-webhook.guard';
+
+describe('GosacWebhookGuard', () => {
+    const secret = 'segredo-compartilhado';
+    let guard: GosacWebhookGuard;
+
+    const request = (body: Record<string, any>, options: { timestamp?: number; secret?: string; signature?: string } = {}) => {
+        const rawBody = Buffer.from(JSON.stringify(body));
+        const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+
+        return {
+            switchToHttp: () => ({
+                getRequest: () => ({
+                    body,
+                    rawBody,
+                    headers: {
+                        'x-gosac-timestamp': timestamp,
+                        'x-gosac-signature': options.signature
+                            ?? `sha256=${signGosacWebhook(options.secret ?? secret, timestamp, rawBody)}`
+                    }
+                })
+            })
+        } as unknown as ExecutionContext;
+    };
+
+    const payload = (messageId: string) => ({ type: 'messages:created', data: { messageId, body: 'oi' } });
+
+    beforeEach(() => {
+        guard = new GosacWebhookGuard(new ConfigService({ GOSAC_WEBHOOK_SECRET: secret }));
+    });
+
+    it('should accept a correctly signed webhook', () => {
+        expect(guard.canActivate(request(payload('m1')))).toBe(true);
+    });
+
+    it('should reject missing or invalid signatures', () => {
+        expect(() => guard.canActivate(request(payload('m1'), { secret: 'outro' }))).toThrow(UnauthorizedException);
+        expect(() => guard.canActivate(request(payload('m1'), { signature: '' }))).toThrow('ausente');
+    });
+
+    it('should reject stale timestamps', () => {
+        const tenMinutesAgo = Math.floor(Date.now() / 1000) - 10 * 60;
+
+        expect(() => guard.canActivate(request(payload('m1'), { timestamp: tenMinutesAgo }))).toThrow('expirado');
+    });
+
+    it('should refuse to start without a secret unless unsigned webhooks are allowed explicitly', () => {
+        expect(() => new GosacWebhookGuard(new ConfigService())).toThrow(/GOSAC_WEBHOOK_SECRET não configurado/);
+
+        const unsigned = new GosacWebhookGuard(new ConfigService({ GOSAC_WEBHOOK_ALLOW_UNSIGNED: 'true' }));
+        expect(unsigned.canActivate(request(payload('m1'), { signature: '' }))).toBe(true);
+    });
+});
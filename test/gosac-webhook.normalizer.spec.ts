@@ -0,0 +1,76 @@
+import { ConfigService } from '@nestjs/config';
+import { normalizeGosacWebhook } from '../src/gosac/gosac-webhook.normalizer';
+import { GosacChannelAdapter } from '../src/gosac/gosac-channel.adapter';
+import { GosacApiService } from '../src/gosac/gosac-api.service';
+import type { GosacWebhookPayload } from '../src/gosac/gosac-webhook.interface';
+import type { GosacWebhookPayload as GosacAlternateWebhookPayload } from '../src/gosac/gosac-new.interface';
+
+describe('normalizeGosacWebhook', () => {
+    const gosacApi = new GosacApiService(new ConfigService());
+    const adapter = new GosacChannelAdapter(gosacApi, {} as never, {} as never, {} as never, {} as never);
+
+    afterAll(() => gosacApi.onModuleDestroy());
+
+    const current = {
+        type: 'messages:created',
+        data: {
+            messageId: 'msg-1',
+            body: 'Oi',
+            mediaType: 'chat',
+            fromMe: false,
+            fromGroup: false,
+            ticketId: 10,
+            contactId: 7,
+            createdAt: '2026-10-19T12:00:00.000Z',
+            contact: { name: 'Maria', number: '5511999999999' },
+            ticket: { status: 'pending', protocol: '' }
+        }
+    } as GosacWebhookPayload;
+
+    const alternate = (data: Partial<GosacAlternateWebhookPayload['data']> = {}): GosacAlternateWebhookPayload => ({
+        type: 'messages:created',
+        timestamp: '2026-10-19T12:00:00.000Z',
+        data: {
+            id: 'msg-1',
+            body: 'Oi',
+            fromMe: false,
+            fromGroup: false,
+            isGroup: false,
+            number: '5511999999999',
+            ticketId: 10,
+            contactId: 7,
+            ack: 1,
+            contact: { id: 7, name: 'Maria', number: '5511999999999', isGroup: false, createdAt: '', updatedAt: '' },
+            createdAt: '2026-10-19T12:00:00.000Z',
+            updatedAt: '2026-10-19T12:00:00.000Z',
+            ...data
+        }
+    });
+
+    it('should read both payload shapes as the same inbound message, keyed by contactId', () => {
+        const fromCurrent = adapter.parseInbound(current)!;
+        const fromAlternate = adapter.parseInbound(alternate())!;
+
+        expect(normalizeGosacWebhook(current)).toBe(current);
+        expect({ ...fromAlternate, raw: undefined }).toEqual({ ...fromCurrent, raw: undefined });
+        expect(fromAlternate).toMatchObject({ messageId: 'msg-1', senderId: '7', replyTo: '5511999999999', text: 'Oi' });
+        expect(adapter.shouldProcess(fromAlternate)).toBe(true);
+    });
+
+    it('should carry media, group and ticket data into the filters', () => {
+        const voice = normalizeGosacWebhook(alternate({ mediaType: 'ptt', mediaPath: 'media/voz.ogg', body: '' }))!;
+        expect(gosacApi.extractMessageData(voice.data).media).toEqual({ type: 'audio', path: 'media/voz.ogg' });
+
+        const ticket = { id: 10, status: 'open', userId: 3, whatsappId: 1 } as GosacAlternateWebhookPayload['data']['ticket'];
+        expect(gosacApi.shouldProcessMessage(normalizeGosacWebhook(alternate({ ticket }))!.data)).toBe(false);
+        expect(gosacApi.shouldProcessMessage(normalizeGosacWebhook(alternate({ isGroup: true }))!.data)).toBe(false);
+        expect(gosacApi.shouldProcessMessage(normalizeGosacWebhook(alternate({ mediaType: 'vcard' }))!.data)).toBe(false);
+    });
+
+    it('should map event types and reject payloads without message data', () => {
+        expect(normalizeGosacWebhook({ ...alternate(), type: 'tickets:updated' })?.type).toBe('tickets:update');
+        expect(normalizeGosacWebhook({ type: 'messages:created', data: { foo: 'bar' } })).toBeUndefined();
+        expect(normalizeGosacWebhook(undefined)).toBeUndefined();
+        expect(adapter.parseInbound({ ...alternate(), type: 'tickets:created' })).toBeUndefined();
+    });
+});
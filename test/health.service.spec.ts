@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { HealthService } from '../src/chatbot/services/health.service';
+import { FlowActionService } from '../src/chatbot/services/flow-action.service';
+import { UserMessageQueueService } from '../src/chatbot/services/user-message-queue.service';
+import { MessageAggregatorService } from '../src/chatbot/services/message-aggregator.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { InMemoryConversationStore } from '../src/chatbot/storage/in-memory-conversation.store';
+import { FlowActionContext } from '../src/chatbot/interfaces/conversation.interface';
+
+describe('HealthService', () => {
+    let health: HealthService;
+    let store: InMemoryConversationStore;
+    let flowActions: FlowActionService;
+
+    beforeEach(() => {
+        const config = new ConfigService({ CHATBOT_HEALTH_CHECK_TIMEOUT: 50 });
+        store = new InMemoryConversationStore();
+        flowActions = new FlowActionService();
+        health = new HealthService(
+            store,
+            new UserMessageQueueService(config),
+            new MessageAggregatorService(config),
+            flowActions,
+            new I18nService(new ConfigService()),
+            config
+        );
+        health.onModuleInit();
+    });
+
+    it('should report healthy when every component is up', async () => {
+        const report = await health.check();
+
+        expect(report.status).toBe('healthy');
+        expect(report.checks.map(check => [check.name, check.status])).toEqual([['storage', 'up'], ['chatbot', 'up']]);
+        await expect(store.keys('health:')).resolves.toEqual([]);
+    });
+
+    it('should degrade on non-critical failures and become unhealthy when storage is down', async () => {
+        health.register({ name: 'gosac', label: 'Sistema GOSAC', run: () => Promise.reject(new Error('ECONNREFUSED')) });
+        health.register({ name: 'slow', label: 'Lento', run: () => new Promise(() => undefined) });
+
+        const degraded = await health.check();
+        expect(degraded.status).toBe('degraded');
+        expect(degraded.checks.find(check => check.name === 'slow')).toMatchObject({ status: 'down', summary: 'Sem resposta' });
+
+        jest.spyOn(store, 'get').mockRejectedValue(new Error('Redis offline'));
+        await expect(health.check()).resolves.toMatchObject({ status: 'unhealthy' });
+    });
+
+    it('should render the status lines for the bot on every request', async () => {
+        let online = true;
+        health.register({
+            name: 'gosac',
+            label: 'Sistema GOSAC',
+            run: () => Promise.resolve(online ? { status: 'up', summary: 'Online' } : { status: 'down', summary: 'Indisponível' })
+        });
+
+        const context = { state: {} } as FlowActionContext;
+        const first = await flowActions.execute('checkSystemHealth', context);
+        expect(first).toMatchObject({ systemStatusSummary: '*O sistema está funcionando normalmente.*' });
+        expect(first!.systemStatus).toContain('✅ Sistema GOSAC: Funcionando');
+
+        online = false;
+        const second = await flowActions.execute('checkSystemHealth', context);
+        expect(second!.systemStatus).toContain('❌ Sistema GOSAC: Indisponível');
+        expect(second!.systemStatus).toContain('✅ Base de Dados: Funcionando');
+    });
+
+    it('should describe the status in the conversation locale', async () => {
+        health.register({ name: 'slow', label: 'Lento', run: () => new Promise(() => undefined) });
+
+        const status = await flowActions.execute('checkSystemHealth', { state: { locale: 'en' } } as FlowActionContext);
+
+        expect(status).toEqual({
+            systemStatus: '✅ Database: Working\n✅ Chatbot: Working\n❌ Lento: Unavailable',
+            systemStatusSummary: '*Some services are unstable. Some operations may fail or take longer.*'
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { I18nService, LocaleBundleError } from '../src/chatbot/services/i18n.service';
+
+describe('I18nService', () => {
+    const bundledDir = join(__dirname, '..', 'src', 'chatbot', 'i18n');
+    let i18n: I18nService;
+
+    beforeEach(() => {
+        i18n = new I18nService(new ConfigService());
+    });
+
+    it('should load the bundled locales', () => {
+        expect(i18n.getLocales().map(({ locale }) => locale)).toEqual(['en', 'es', 'pt-BR']);
+        expect(i18n.getDefaultLocale()).toBe('pt-BR');
+    });
+
+    it('should resolve locale codes and fall back to the default', () => {
+        expect(i18n.resolveLocale('en-US')).toBe('en');
+        expect(i18n.resolveLocale('PT')).toBe('pt-BR');
+        expect(i18n.resolveLocale('fr')).toBe('pt-BR');
+        expect(i18n.resolveLocale()).toBe('pt-BR');
+    });
+
+    it('should detect the locale by the longest matching dial code', () => {
+        expect(i18n.detectLocale({ contactNumber: '5511999999999' })).toBe('pt-BR');
+        expect(i18n.detectLocale({ contactNumber: '+1 415 555 0100' })).toBe('en');
+        expect(i18n.detectLocale({ contactNumber: '59899123456' })).toBe('es');
+        expect(i18n.detectLocale({ contactNumber: '4915112345678' })).toBe('pt-BR');
+        expect(i18n.detectLocale()).toBe('pt-BR');
+    });
+
+    it('should prefer the language reported by the channel', () => {
+        expect(i18n.detectLocale({ language: 'es', contactNumber: '5511999999999' })).toBe('es');
+        expect(i18n.detectLocale({ language: 'en-GB' })).toBe('en');
+    });
+
+    it('should translate messages with parameters', () => {
+        expect(i18n.t('validation.minLength', 'en', { min: 5 })).toBe('The answer must have at least 5 characters.');
+        expect(i18n.t('validation.minLength', 'es', { min: 5 })).toBe('La respuesta debe tener al menos 5 caracteres.');
+        expect(i18n.t('validation.minLength', undefined, { min: 5 })).toBe('A resposta deve ter pelo menos 5 caracteres.');
+    });
+
+    it('should expose the control keywords of each locale', () => {
+        expect(i18n.getKeywords('es').back).toContain('atras');
+        expect(i18n.getKeywords('en').restart).toEqual(expect.arrayContaining(['restart', '#']));
+        expect(i18n.getKeywords('fr')).toBe(i18n.getKeywords('pt-BR'));
+    });
+
+    it('should refuse to boot when a locale misses keys', () => {
+        const directory = mkdtempSync(join(tmpdir(), 'locales-'));
+
+        try {
+            writeFileSync(join(directory, 'pt-BR.yaml'), readFileSync(join(bundledDir, 'pt-BR.yaml')));
+            writeFileSync(join(directory, 'de.yaml'), [
+                'locale: de',
+                'name: Deutsch',
+                'keywords: { back: [zurück], restart: [] }',
+                'messages:',
+                '  flow: { stepNotFound: "Fehler {{#if x}}" }'
+            ].join('\n'));
+
+            expect(() => new I18nService(new ConfigService({ CHATBOT_LOCALES_DIR: directory }))).toThrow(LocaleBundleError);
+
+            try {
+                new I18nService(new ConfigService({ CHATBOT_LOCALES_DIR: directory }));
+            } catch (error) {
+                expect(error.issues).toEqual(expect.arrayContaining([
+                    'de.yaml: "keywords.restart" deve ser uma lista não vazia',
+                    'de.yaml: "messages.flow.stepNotFound": bloco #if não fechado',
+                    'de.yaml: chave "messages.validation.required" ausente'
+                ]));
+            }
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
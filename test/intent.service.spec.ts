@@ -0,0 +1,68 @@
+import { ConfigService } from '@nestjs/config';
+import { FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+import { FlowService } from '../src/chatbot/services/flow.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { IntentService } from '../src/chatbot/services/intent.service';
+import { ConversationState, FlowStep } from '../src/chatbot/interfaces/conversation.interface';
+
+describe('IntentService', () => {
+    let intents: IntentService;
+
+    const state = (locale = 'pt-BR'): ConversationState => ({
+        userId: 'intent-user',
+        currentStep: 'create_ticket',
+        stepHistory: ['welcome', 'tickets_menu'],
+        lastMessageTime: new Date(),
+        isActive: true,
+        data: {},
+        attempts: 0,
+        locale
+    });
+
+    const step = (disableIntents?: boolean | string[]): FlowStep => ({
+        id: 'create_ticket',
+        name: 'Assunto',
+        message: 'Qual é o assunto?',
+        nextStep: 'ticket_category',
+        disableIntents
+    });
+
+    beforeEach(() => {
+        const config = new ConfigService();
+        const i18n = new I18nService(config);
+        intents = new IntentService(new FlowService(new FlowLoaderService(config), i18n), i18n);
+    });
+
+    it('should match control keywords of the conversation locale ignoring accents', () => {
+        expect(intents.match('Atrás', state('es'))?.command).toBe('back');
+        expect(intents.match('Recomeçar', state())?.command).toBe('restart');
+        expect(intents.match('#', state('en'))?.command).toBe('restart');
+        expect(intents.match('volver', state('en'))).toBeUndefined();
+    });
+
+    it('should match flow intents by whole message only', () => {
+        expect(intents.match('Atendente!', state())).toMatchObject({ id: 'agent', nextStep: 'human_handoff' });
+        expect(intents.match('meus tickets', state('en'))).toMatchObject({ id: 'my_tickets', nextStep: 'list_tickets' });
+        expect(intents.match('cancelar', state())).toMatchObject({ id: 'cancel', command: 'restart' });
+        expect(intents.match('O atendente não respondeu', state())).toBeUndefined();
+    });
+
+    it('should evaluate registered intents by priority', () => {
+        intents.register({ id: 'protocol', patterns: [/^\d{8}-\d{4}$/], nextStep: 'list_tickets' });
+        intents.register({ id: 'urgent', keywords: ['#'], nextStep: 'human_handoff', priority: 200 });
+
+        expect(intents.match(' 20261019-0042 ', state())?.id).toBe('protocol');
+        expect(intents.match('#', state())?.id).toBe('urgent');
+        expect(intents.list(state()).map(intent => intent.id)).toEqual(
+            ['urgent', 'back', 'restart', 'agent', 'my_tickets', 'cancel', 'protocol']
+        );
+    });
+
+    it('should honor the step opt-out, keeping control commands unless listed', () => {
+        expect(intents.match('atendente', state(), step(true))).toBeUndefined();
+        expect(intents.match('0', state(), step(true))?.command).toBe('back');
+
+        expect(intents.match('0', state(), step(['back']))).toBeUndefined();
+        expect(intents.match('atendente', state(), step(['back']))?.id).toBe('agent');
+    });
+});
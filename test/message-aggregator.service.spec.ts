@@ -0,0 +1,70 @@
+import { ConfigService } from '@nestjs/config';
+import { MessageAggregatorService } from '../src/chatbot/services/message-aggregator.service';
+
+describe('MessageAggregatorService', () => {
+    let aggregator: MessageAggregatorService;
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    beforeEach(() => {
+        aggregator = new MessageAggregatorService(new ConfigService({
+            CHATBOT_DEBOUNCE_MODE: 'aggregate',
+            CHATBOT_AGGREGATION_WINDOW: 40,
+            CHATBOT_AGGREGATION_MAX_WAIT: 100
+        }));
+    });
+
+    afterEach(async () => {
+        await aggregator.onModuleDestroy();
+    });
+
+    it('should be disabled by default', () => {
+        expect(new MessageAggregatorService(new ConfigService()).isEnabled()).toBe(false);
+        expect(aggregator.isEnabled()).toBe(true);
+    });
+
+    it('should combine messages that arrive within the window', async () => {
+        const flushed: string[] = [];
+        const onFlush = (combined: string) => {
+            flushed.push(combined);
+            return Promise.resolve();
+        };
+
+        aggregator.add('user-1', 'Meu pedido', onFlush);
+        await delay(10);
+        aggregator.add('user-1', 'não chegou ', onFlush);
+        aggregator.add('user-2', 'Olá', onFlush);
+
+        expect(flushed).toEqual([]);
+        await delay(80);
+
+        expect(flushed.sort()).toEqual(['Meu pedido não chegou', 'Olá']);
+        expect(aggregator.getPendingCount()).toBe(0);
+    });
+
+    it('should close the window after the maximum wait even if messages keep arriving', async () => {
+        const flushed: string[] = [];
+        const onFlush = (combined: string) => {
+            flushed.push(combined);
+            return Promise.resolve();
+        };
+
+        for (let i = 1; i <= 5; i++) {
+            aggregator.add('user-1', `parte ${i}`, onFlush);
+            await delay(30);
+        }
+        await delay(60);
+
+        expect(flushed.length).toBe(2);
+        expect(flushed.join(' ')).toBe('parte 1 parte 2 parte 3 parte 4 parte 5');
+    });
+
+    it('should flush pending messages on shutdown', async () => {
+        const onFlush = jest.fn(() => Promise.resolve());
+
+        aggregator.add('user-1', 'Mensagem pendente', onFlush);
+        await aggregator.onModuleDestroy();
+
+        expect(onFlush).toHaveBeenCalledWith('Mensagem pendente');
+    });
+});
@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+import { MessageLedgerService } from '../src/chatbot/services/message-ledger.service';
+import { InMemoryConversationStore } from '../src/chatbot/storage/in-memory-conversation.store';
+
+describe('MessageLedgerService', () => {
+    let ledger: MessageLedgerService;
+
+    beforeEach(() => {
+        ledger = new MessageLedgerService(new InMemoryConversationStore(), new ConfigService());
+    });
+
+    it('should run the handler once and return the recorded outcome to retries', async () => {
+        const handler = jest.fn().mockResolvedValue({ status: 'processed' });
+
+        await expect(ledger.process('m1', handler)).resolves.toEqual({ outcome: { status: 'processed' }, duplicate: false });
+        await expect(ledger.process('m1', handler)).resolves.toEqual({ outcome: { status: 'processed' }, duplicate: true });
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        await ledger.process('m2', handler);
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not run a retry while the first delivery is still processing', async () => {
+        let finish!: (value: string) => void;
+        const first = ledger.process('m1', () => new Promise<string>(resolve => { finish = resolve; }));
+        await new Promise(resolve => setImmediate(resolve));
+
+        const retry = jest.fn();
+        await expect(ledger.process('m1', retry)).resolves.toEqual({ outcome: undefined, duplicate: true });
+        expect(retry).not.toHaveBeenCalled();
+
+        finish('processed');
+        await expect(first).resolves.toEqual({ outcome: 'processed', duplicate: false });
+    });
+
+    it('should run the handler once for concurrent deliveries of the same message', async () => {
+        const handler = jest.fn(() => Promise.resolve('processed'));
+
+        const results = await Promise.all([ledger.process('m1', handler), ledger.process('m1', handler)]);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(results.map(result => result.duplicate).sort()).toEqual([false, true]);
+    });
+
+    it('should let a retry run again when the first attempt failed', async () => {
+        await expect(ledger.process('m1', () => Promise.reject(new Error('GOSAC indisponível')))).rejects.toThrow('indisponível');
+
+        await expect(ledger.process('m1', () => Promise.resolve('processed')))
+            .resolves.toEqual({ outcome: 'processed', duplicate: false });
+    });
+});
@@ -0,0 +1,49 @@
+import { OptionMatcher } from '../src/common/option-matcher';
+
+describe('OptionMatcher', () => {
+    const options = [
+        { key: 'tickets', text: '🎫 Gerenciar Tickets', synonyms: ['chamado'] },
+        { key: 'status', text: '📊 Status do Sistema' },
+        { key: 'help', text: '❓ Ajuda' },
+        { key: 'agent', text: '👤 Falar com Atendente' }
+    ];
+    const match = (input: string) =>
+        OptionMatcher.match(input, options, option => [option.text, option.key, ...(option.synonyms || [])]);
+    const matchedKey = (input: string) => {
+        const result = match(input);
+        return result.status === 'matched' ? result.option.key : result.status;
+    };
+
+    it('should ignore accents, emojis, punctuation and case', () => {
+        expect(OptionMatcher.normalize('❓ Ajuda!')).toBe('ajuda');
+        expect(matchedKey('ajuda!')).toBe('help');
+        expect(matchedKey('ATENDENTE')).toBe('agent');
+        expect(matchedKey('status do sistema')).toBe('status');
+    });
+
+    it('should match synonyms, prefixes and typos', () => {
+        expect(matchedKey('chamado')).toBe('tickets');
+        expect(matchedKey('atend')).toBe('agent');
+        expect(matchedKey('tiquete')).toBe('tickets');
+        expect(matchedKey('ajdua')).toBe('help');
+    });
+
+    it('should not match short fragments or unrelated text', () => {
+        expect(matchedKey('a')).toBe('none');
+        expect(matchedKey('xyz')).toBe('none');
+        expect(matchedKey('   ')).toBe('none');
+    });
+
+    it('should report ties between different options as ambiguous', () => {
+        const result = OptionMatcher.match('segunda via', [
+            { text: '🧾 Segunda via do boleto' },
+            { text: '📄 Segunda via da nota fiscal' },
+            { text: '💰 Pagamentos' }
+        ], option => [option.text]);
+
+        expect(result).toEqual({
+            status: 'ambiguous',
+            options: [{ text: '🧾 Segunda via do boleto' }, { text: '📄 Segunda via da nota fiscal' }]
+        });
+    });
+});
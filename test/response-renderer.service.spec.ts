@@ -0,0 +1,115 @@
+import { ConfigService } from '@nestjs/config';
+import { BusinessHoursService } from '../src/chatbot/services/business-hours.service';
+import { FlowService } from '../src/chatbot/services/flow.service';
+import { FlowLoaderService } from '../src/chatbot/services/flow-loader.service';
+import { I18nService } from '../src/chatbot/services/i18n.service';
+import { ResponseRendererService } from '../src/chatbot/services/response-renderer.service';
+import { ChatbotResponse, ConversationState, OutboundAttachment } from '../src/chatbot/interfaces/conversation.interface';
+import { RenderedMessage, RenderProfile } from '../src/chatbot/interfaces/rendering.interface';
+
+describe('ResponseRendererService', () => {
+    const renderer = new ResponseRendererService();
+    const whatsapp: RenderProfile = { markup: 'whatsapp', maxLength: 4096, interactive: false };
+
+    it('should write the options below the message unless the channel shows buttons', () => {
+        const response = {
+            message: 'Confirma?',
+            options: ['1. Sim', '0. ⬅️ Voltar'],
+            interactive: { type: 'buttons' as const, buttons: [{ id: '1', title: 'Sim' }, { id: '0', title: '⬅️ Voltar' }] }
+        };
+
+        expect(renderer.render(response, whatsapp)).toEqual([{ text: 'Confirma?\n\n1. Sim\n0. ⬅️ Voltar' }]);
+        expect(renderer.render(response, { ...whatsapp, interactive: true })).toEqual([
+            { text: 'Confirma?', interactive: response.interactive }
+        ]);
+        expect(renderer.render({ ...response, silent: true }, whatsapp)).toEqual([]);
+    });
+
+    it('should convert markdown to the channel markup', () => {
+        const response = { message: '# Ajuda\r\n\r\n\r\n**Atenção**: veja ~~o~~ [manual](https://example.com/a_b) e _nome_do_arquivo_   ' };
+
+        expect(renderer.render(response, whatsapp)[0].text)
+            .toBe('*Ajuda*\n\n*Atenção*: veja ~o~ manual (https://example.com/a_b) e _nome_do_arquivo_');
+        expect(renderer.render(response, { ...whatsapp, markup: 'plain' })[0].text)
+            .toBe('Ajuda\n\nAtenção: veja o manual (https://example.com/a_b) e nome_do_arquivo');
+    });
+
+    it('should split long texts at paragraphs, lines and words', () => {
+        const paragraphs = ['a'.repeat(30), 'b'.repeat(15), 'linha um\nlinha dois e mais palavras aqui'].join('\n\n');
+        const messages = renderer.render({ message: paragraphs, options: ['1. Sim'] }, { ...whatsapp, maxLength: 40 });
+
+        expect(messages.map(message => message.text)).toEqual([
+            'a'.repeat(30),
+            'b'.repeat(15) + '\n\nlinha um',
+            'linha dois e mais palavras aqui\n\n1. Sim'
+        ]);
+        expect(messages.every(message => message.text.length <= 40)).toBe(true);
+
+        expect(renderer.render({ message: '🧾'.repeat(5) }, { ...whatsapp, maxLength: 5 }).map(message => message.text))
+            .toEqual(['🧾🧾', '🧾🧾', '🧾']);
+    });
+
+    it('should keep the buttons on the last chunk and send attachments afterwards', () => {
+        const interactive = { type: 'buttons' as const, buttons: [{ id: '1', title: 'Sim' }] };
+        const response: ChatbotResponse = {
+            message: `${'a'.repeat(20)}\n\nContinuar?`,
+            options: ['1. Sim'],
+            interactive,
+            attachments: [
+                { type: 'document', url: 'https://example.com/manual.pdf', filename: 'manual.pdf' },
+                { type: 'image', url: 'https://example.com/mapa.png', caption: '**Mapa**' }
+            ]
+        };
+        const attachmentAt = (url: string) => expect.objectContaining({ url }) as OutboundAttachment;
+        const expected: RenderedMessage[] = [
+            { text: 'a'.repeat(20) },
+            { text: 'Continuar?', interactive },
+            { text: 'manual.pdf', attachment: attachmentAt('https://example.com/manual.pdf') },
+            { text: '*Mapa*', attachment: attachmentAt('https://example.com/mapa.png') }
+        ];
+
+        expect(renderer.render(response, { ...whatsapp, maxLength: 25, interactive: true })).toEqual(expected);
+    });
+
+    describe('default flow', () => {
+        const i18n = new I18nService(new ConfigService());
+        const flowService = new FlowService(
+            new FlowLoaderService(new ConfigService()),
+            i18n,
+            undefined,
+            new BusinessHoursService(new ConfigService(), i18n)
+        );
+        const steps = [...flowService.getAllSteps().values()];
+
+        const state: ConversationState = {
+            userId: 'user',
+            currentStep: 'welcome',
+            stepHistory: [],
+            lastMessageTime: new Date(),
+            isActive: true,
+            data: {
+                ticketProtocol: '2024001',
+                ticketSubject: 'Erro ao emitir boleto',
+                ticketCategory: 'Financeiro',
+                ticketDescription: 'O boleto de março não abre.',
+                callbackPeriod: 'morning',
+                callbackPeriodLabel: 'Manhã'
+            },
+            attempts: 0,
+            locale: 'pt-BR',
+            context: { contactName: 'Maria Silva', contactNumber: '5511987654321' }
+        };
+
+        beforeAll(() => {
+            jest.useFakeTimers({ now: new Date('2025-03-10T13:00:00Z') });
+        });
+
+        afterAll(() => {
+            jest.useRealTimers();
+        });
+
+        it.each(steps.map(step => [step.id, step] as const))('should render step %s for WhatsApp', (_id, step) => {
+            expect(renderer.render(flowService.buildStepResponse(step, state), whatsapp)).toMatchSnapshot();
+        });
+    });
+});
@@ -0,0 +1,84 @@
+import { ConfigService } from '@nestjs/config';
+import type { AxiosAdapter } from 'axios';
+import { TelegramChannelAdapter } from '../src/channels/telegram-channel.adapter';
+import { ChannelService } from '../src/channels/channel.service';
+import { ResponseRendererService } from '../src/chatbot/services/response-renderer.service';
+import type { TelegramUpdate } from '../src/channels/telegram.interface';
+
+describe('TelegramChannelAdapter', () => {
+    let telegram: TelegramChannelAdapter;
+    let transport: jest.Mock<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>;
+
+    const user = { id: 42, is_bot: false, first_name: 'Maria', last_name: 'Silva', language_code: 'es' };
+    const chat = { id: 42, type: 'private' as const };
+
+    beforeEach(() => {
+        telegram = new TelegramChannelAdapter(
+            new ConfigService({ TELEGRAM_BOT_TOKEN: '123:abc', TELEGRAM_WEBHOOK_SECRET: 'segredo' }),
+            new ResponseRendererService(),
+            { register: jest.fn() } as unknown as ChannelService
+        );
+
+        transport = jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>(config =>
+            Promise.resolve({ data: { ok: true }, status: 200, statusText: 'OK', headers: {}, config }));
+        // Substitui o transporte HTTP para simular a Bot API
+        (telegram as unknown as { httpClient: { defaults: { adapter: AxiosAdapter } } }).httpClient.defaults.adapter = transport;
+    });
+
+    it('should read text, media and button taps from private chats', () => {
+        const text = telegram.parseInbound({ update_id: 1, message: { message_id: 10, from: user, chat, date: 0, text: 'oi' } })!;
+        const photo = telegram.parseInbound({
+            update_id: 2,
+            message: { message_id: 11, from: user, chat, date: 0, caption: 'Comprovante', photo: [{ file_id: 'small' }, { file_id: 'large' }] }
+        })!;
+        const tap = telegram.parseInbound({
+            update_id: 3,
+            callback_query: { id: 'cb1', from: user, data: '2', message: { message_id: 12, chat, date: 0 } }
+        })!;
+
+        expect(text).toMatchObject({ messageId: '1', senderId: '42', replyTo: '42', text: 'oi' });
+        expect(text.context).toEqual({ contactName: 'Maria Silva', language: 'es' });
+        expect(photo.media).toEqual({ type: 'image', path: 'large', caption: 'Comprovante' });
+        expect(tap).toMatchObject({ messageId: '3', text: '2' });
+        expect([text, photo, tap].every(message => telegram.shouldProcess(message))).toBe(true);
+
+        const group: TelegramUpdate = { update_id: 4, message: { message_id: 13, from: user, chat: { id: -1, type: 'group' }, date: 0, text: 'oi' } };
+        expect(telegram.shouldProcess(telegram.parseInbound(group)!)).toBe(false);
+        expect(telegram.parseInbound({ foo: 'bar' })).toBeUndefined();
+    });
+
+    it('should send choices as an inline keyboard and attachments with the matching method', async () => {
+        const message = telegram.parseInbound({ update_id: 5, message: { message_id: 14, from: user, chat, date: 0, text: 'ajuda' } })!;
+        const outbound = telegram.renderOutbound({
+            message: '*Central de Ajuda*',
+            options: ['1. Manual', '0. Voltar'],
+            interactive: { type: 'buttons', buttons: [{ id: '1', title: 'Manual' }, { id: '0', title: 'Voltar' }] },
+            attachments: [{ type: 'document', url: 'https://example.com/manual.pdf', caption: 'x'.repeat(2000) }]
+        }, message);
+
+        expect(outbound[0]).toEqual({
+            method: 'sendMessage',
+            payload: {
+                chat_id: '42',
+                text: 'Central de Ajuda',
+                reply_markup: { inline_keyboard: [[{ text: 'Manual', callback_data: '1' }], [{ text: 'Voltar', callback_data: '0' }]] }
+            }
+        });
+        expect(outbound[1]).toMatchObject({ method: 'sendDocument', payload: { chat_id: '42', document: 'https://example.com/manual.pdf' } });
+        expect(outbound[1].payload.caption).toHaveLength(1024);
+
+        await telegram.send(outbound[0]);
+        expect(transport.mock.calls[0][0]).toMatchObject({ url: '/bot123:abc/sendMessage' });
+    });
+
+    it('should answer button taps after processing', async () => {
+        const tap = telegram.parseInbound({
+            update_id: 6,
+            callback_query: { id: 'cb2', from: user, data: '1', message: { message_id: 15, chat, date: 0 } }
+        })!;
+
+        await telegram.afterProcess(tap);
+
+        expect(transport.mock.calls[0][0]).toMatchObject({ url: '/bot123:abc/answerCallbackQuery', data: JSON.stringify({ callback_query_id: 'cb2' }) });
+    });
+});
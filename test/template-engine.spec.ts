@@ -0,0 +1,70 @@
+import { TemplateEngine, TemplateSyntaxError } from '../src/common/template-engine';
+
+describe('TemplateEngine', () => {
+    it('should render nested variables and leave missing ones empty', () => {
+        const scope = { contact: { name: 'Maria Silva' }, ticketProtocol: '2024001' };
+
+        expect(TemplateEngine.render('Olá, {{contact.name}}! Protocolo {{ticketProtocol}}{{ausente}}.', scope))
+            .toBe('Olá, Maria Silva! Protocolo 2024001.');
+    });
+
+    it('should render object values as JSON and stop at paths through non-objects', () => {
+        const scope = { address: { city: 'Recife', uf: 'PE' }, protocol: '2024001' };
+
+        expect(TemplateEngine.render('{{address}}', scope)).toBe('{"city":"Recife","uf":"PE"}');
+        expect(TemplateEngine.render('[{{protocol.length}}]', scope)).toBe('[]');
+    });
+
+    it('should apply chained formatters', () => {
+        const scope = { contact: { name: 'maria silva', number: '5511987654321' }, cpf: '52998224725' };
+
+        expect(TemplateEngine.render('{{contact.name | firstName | capitalize}}', scope)).toBe('Maria');
+        expect(TemplateEngine.render('{{contact.number | phone}}', scope)).toBe('(11) 98765-4321');
+        expect(TemplateEngine.render('{{cpf | cpf}}', scope)).toBe('529.982.247-25');
+        expect(TemplateEngine.render('{{apelido | default:"cliente"}}', scope)).toBe('cliente');
+        expect(TemplateEngine.render('{{contact.name | upper | truncate:8}}', scope)).toBe('MARIA SI...');
+    });
+
+    it('should pluralize by count', () => {
+        const render = (tickets: unknown) =>
+            TemplateEngine.render('Você tem {{tickets | plural:"ticket":"tickets"}}', { tickets });
+
+        expect(render(1)).toBe('Você tem 1 ticket');
+        expect(render(3)).toBe('Você tem 3 tickets');
+        expect(render([])).toBe('Você tem 0 tickets');
+    });
+
+    it('should render conditional blocks', () => {
+        const template = '{{#if contact.name}}Olá, {{contact.name}}!{{else}}Olá!{{/if}}{{#unless vip}} (padrão){{/unless}}';
+
+        expect(TemplateEngine.render(template, { contact: { name: 'Ana' }, vip: true })).toBe('Olá, Ana!');
+        expect(TemplateEngine.render(template, { contact: {} })).toBe('Olá! (padrão)');
+    });
+
+    it('should format dates in the given locale and time zone', () => {
+        const scope = { createdAt: '2026-10-20T01:30:00Z' };
+
+        expect(TemplateEngine.render('{{createdAt | date}}', scope)).toBe('19/10/2026');
+        expect(TemplateEngine.render('{{createdAt | datetime}}', scope, { locale: 'en' })).toBe('10/19/2026, 10:30 PM');
+        expect(TemplateEngine.render('{{createdAt | date}}', scope, { locale: 'es', timeZone: 'Europe/Madrid' })).toBe('20/10/2026');
+    });
+
+    it('should resolve system variables through the resolver', () => {
+        const resolver = (name: string) => (name === '$now' ? '01/02/2025 10:00' : undefined);
+
+        expect(TemplateEngine.render('Agora: {{$now}}', {}, { resolveSystemVariable: resolver })).toBe('Agora: 01/02/2025 10:00');
+    });
+
+    it('should report every syntax problem', () => {
+        const { issues } = TemplateEngine.validate('{{#if a}}{{b | inexistente}}{{c | truncate}}{{/unless}}{{#each d}}');
+
+        expect(issues).toEqual([
+            expect.stringContaining('formatador desconhecido "inexistente"'),
+            expect.stringContaining('formatador "truncate"'),
+            expect.stringContaining('"{{/unless}}" sem bloco correspondente'),
+            expect.stringContaining('bloco desconhecido'),
+            'bloco #if não fechado'
+        ]);
+        expect(() => TemplateEngine.compile('{{a b}}')).toThrow(TemplateSyntaxError);
+    });
+});
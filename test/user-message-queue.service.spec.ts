@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import {
+    UserMessageQueueService,
+    UserQueueFullError
+} from '../src/chatbot/services/user-message-queue.service';
+
+describe('UserMessageQueueService', () => {
+    let queue: UserMessageQueueService;
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    beforeEach(() => {
+        queue = new UserMessageQueueService(new ConfigService({ CHATBOT_MAX_QUEUE_PER_USER: 3 }));
+    });
+
+    it('should process messages of the same user strictly in arrival order', async () => {
+        const events: string[] = [];
+        const task = (name: string, ms: number) => async () => {
+            events.push(`start ${name}`);
+            await delay(ms);
+            events.push(`end ${name}`);
+            return name;
+        };
+
+        const results = await Promise.all([
+            queue.run('user-1', task('a', 30)),
+            queue.run('user-1', task('b', 0))
+        ]);
+
+        expect(results).toEqual(['a', 'b']);
+        expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('should run different users concurrently', async () => {
+        const events: string[] = [];
+
+        await Promise.all([
+            queue.run('user-1', async () => {
+                events.push('start 1');
+                await delay(30);
+                events.push('end 1');
+            }),
+            queue.run('user-2', async () => {
+                events.push('start 2');
+                await delay(0);
+                events.push('end 2');
+            })
+        ]);
+
+        expect(events).toEqual(['start 1', 'start 2', 'end 2', 'end 1']);
+    });
+
+    it('should keep the queue running after a failed task', async () => {
+        const failed = queue.run('user-1', () => Promise.reject(new Error('falha')));
+        const next = queue.run('user-1', () => Promise.resolve('ok'));
+
+        await expect(failed).rejects.toThrow('falha');
+        await expect(next).resolves.toBe('ok');
+    });
+
+    it('should reject messages beyond the queue limit and report metrics', async () => {
+        const pending = [1, 2, 3].map(() => queue.run('user-1', () => delay(10)));
+
+        expect(queue.getDepth('user-1')).toBe(3);
+        await expect(queue.run('user-1', () => delay(0))).rejects.toBeInstanceOf(UserQueueFullError);
+
+        await Promise.all(pending);
+
+        expect(queue.getMetrics()).toEqual({
+            activeUsers: 0,
+            queuedMessages: 0,
+            maxDepth: 0,
+            peakDepth: 3,
+            maxQueueLength: 3,
+            processed: 3,
+            rejected: 1
+        });
+    });
+});